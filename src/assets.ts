@@ -0,0 +1,304 @@
+import type { FieldError } from "./json-schema.js"
+import type {
+  Asset,
+  AssetComparison,
+  AssetFieldChange,
+  AssetRobotValue,
+  AssetValueInput,
+  WritableAssetType,
+} from "./types.js"
+
+/**
+ * Building asset payloads from typed values, and keeping secrets out of
+ * responses: credential passwords are write-only, and the values of assets
+ * Orchestrator marks Sensitive (or of Secret assets) are masked.
+ */
+
+export const MASKED = "********"
+
+export const WRITABLE_ASSET_TYPES = ["Text", "Integer", "Boolean", "Credential", "KeyValueList"] as const satisfies readonly WritableAssetType[]
+
+export function isWritableAssetType(valueType: string): valueType is WritableAssetType {
+  return (WRITABLE_ASSET_TYPES as readonly string[]).includes(valueType)
+}
+
+const VALUE_FIELDS = ["StringValue", "IntValue", "BoolValue", "Value"] as const
+
+/** True when the asset's value must not be displayed (credential usernames remain visible). */
+export function hasSensitiveValue(asset: { ValueType: string; Sensitive?: boolean }): boolean {
+  return asset.Sensitive === true || asset.ValueType === "Secret"
+}
+
+function maskFields(record: Record<string, unknown>, sensitive: boolean): Record<string, unknown> {
+  const masked = { ...record }
+  if (masked.CredentialPassword != null) {
+    masked.CredentialPassword = MASKED
+  }
+  if (sensitive) {
+    for (const field of VALUE_FIELDS) {
+      if (masked[field] != null) masked[field] = MASKED
+    }
+    if (Array.isArray(masked.KeyValueList)) {
+      masked.KeyValueList = masked.KeyValueList.map(entry => ({ ...entry, Value: MASKED }))
+    }
+  }
+  return masked
+}
+
+/**
+ * Copy of an asset (or robot asset value) safe to return: passwords are always
+ * masked, and every value field is masked when the asset is sensitive.
+ */
+export function maskAsset<T extends { ValueType: string; Sensitive?: boolean }>(asset: T): T {
+  const sensitive = hasSensitiveValue(asset)
+  const masked = maskFields(asset as unknown as Record<string, unknown>, sensitive)
+  if (Array.isArray(masked.RobotValues)) {
+    masked.RobotValues = masked.RobotValues.map(value => maskFields(value, sensitive))
+  }
+  return masked as unknown as T
+}
+
+/**
+ * Translate a typed value into the AssetDto value fields for `valueType`.
+ * Numeric strings are accepted for Integer and "true"/"false" for Boolean.
+ * @param field - Field name prefix for error messages, e.g. "robotValues.Bot1".
+ * @param requireValue - Report a missing value (creates) rather than skipping it (updates).
+ */
+export function assetValueFields(
+  valueType: WritableAssetType,
+  input: AssetValueInput,
+  field = "value",
+  requireValue = true
+): { fields: Record<string, unknown>; errors: FieldError[] } {
+  const { value } = input
+  const errors: FieldError[] = []
+  const fields: Record<string, unknown> = {}
+
+  if (valueType === "Credential") {
+    if (input.username !== undefined || input.password !== undefined || requireValue) {
+      if (!input.username) errors.push({ field: `${field}.username`, message: "is required for Credential assets" })
+      if (!input.password) errors.push({ field: `${field}.password`, message: "is required for Credential assets" })
+      fields.CredentialUsername = input.username
+      fields.CredentialPassword = input.password
+    }
+    if (value !== undefined) errors.push({ field, message: "is not used by Credential assets; pass username and password" })
+    return { fields, errors }
+  }
+
+  if (input.username !== undefined || input.password !== undefined) {
+    errors.push({ field, message: `username and password apply only to Credential assets, not ${valueType}` })
+  }
+  if (value === undefined) {
+    if (requireValue) errors.push({ field, message: `is required for ${valueType} assets` })
+    return { fields, errors }
+  }
+
+  switch (valueType) {
+    case "Text":
+      if (typeof value === "object") errors.push({ field, message: "must be a string" })
+      else fields.StringValue = String(value)
+      break
+    case "Integer": {
+      const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value
+      if (typeof number !== "number" || !Number.isInteger(number)) errors.push({ field, message: "must be an integer" })
+      else fields.IntValue = number
+      break
+    }
+    case "Boolean":
+      if (typeof value === "boolean") fields.BoolValue = value
+      else if (value === "true" || value === "false") fields.BoolValue = value === "true"
+      else errors.push({ field, message: "must be a boolean" })
+      break
+    case "KeyValueList":
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        errors.push({ field, message: "must be an object of key/value pairs" })
+      } else {
+        fields.KeyValueList = Object.entries(value).map(([Key, entry]) => ({ Key, Value: entry === null ? null : String(entry) }))
+      }
+      break
+  }
+  return { fields, errors }
+}
+
+/** AssetDto fields a PUT accepts; ids, the display Value and OData annotations are server-computed. */
+const WRITABLE_ASSET_FIELDS = [
+  "Name",
+  "ValueType",
+  "ValueScope",
+  "Description",
+  "HasDefaultValue",
+  "StringValue",
+  "IntValue",
+  "BoolValue",
+  "CredentialUsername",
+  "CredentialPassword",
+  "KeyValueList",
+]
+const WRITABLE_ROBOT_VALUE_FIELDS = [
+  "RobotId",
+  "ValueType",
+  "StringValue",
+  "IntValue",
+  "BoolValue",
+  "CredentialUsername",
+  "CredentialPassword",
+  "KeyValueList",
+]
+
+function pick(record: object, fields: readonly string[]): Record<string, unknown> {
+  const source = record as Record<string, unknown>
+  return Object.fromEntries(fields.filter(field => source[field] !== undefined).map(field => [field, source[field]]))
+}
+
+/** The writable part of an asset as read from Orchestrator, to base a PUT body on. */
+export function writableAssetFields(asset: Asset): Record<string, unknown> {
+  const fields = pick(asset, WRITABLE_ASSET_FIELDS)
+  if (asset.RobotValues) {
+    fields.RobotValues = asset.RobotValues.map(writableRobotValueFields)
+  }
+  return fields
+}
+
+/** The writable part of a per-robot value. */
+export function writableRobotValueFields(value: AssetRobotValue): AssetRobotValue {
+  return pick(value, WRITABLE_ROBOT_VALUE_FIELDS) as unknown as AssetRobotValue
+}
+
+const DIFF_FIELDS = ["Description", "ValueScope", "HasDefaultValue", "CredentialUsername", ...VALUE_FIELDS, "KeyValueList"]
+const SECRET_VALUE_FIELDS = new Set<string>([...VALUE_FIELDS, "KeyValueList"])
+
+/**
+ * Changes to non-secret fields between two versions of an asset, including
+ * per-robot values as "RobotValues[<robot>].<field>". Value fields of sensitive
+ * assets and passwords are never compared.
+ */
+export function diffAssets(before: Asset, after: Asset): AssetFieldChange[] {
+  const sensitive = hasSensitiveValue(before) || hasSensitiveValue(after)
+  const fields = sensitive ? DIFF_FIELDS.filter(field => !SECRET_VALUE_FIELDS.has(field)) : DIFF_FIELDS
+  const changes: AssetFieldChange[] = []
+
+  const compare = (prefix: string, a: Record<string, unknown> | undefined, b: Record<string, unknown> | undefined) => {
+    for (const field of fields) {
+      const x = a?.[field] ?? null
+      const y = b?.[field] ?? null
+      if (JSON.stringify(x) !== JSON.stringify(y)) {
+        changes.push({ field: `${prefix}${field}`, before: x, after: y })
+      }
+    }
+  }
+
+  compare("", before as unknown as Record<string, unknown>, after as unknown as Record<string, unknown>)
+  const robots = new Map<number, { name: string; before?: Record<string, unknown>; after?: Record<string, unknown> }>()
+  for (const value of before.RobotValues ?? []) {
+    robots.set(value.RobotId, { name: value.RobotName ?? String(value.RobotId), before: value as unknown as Record<string, unknown> })
+  }
+  for (const value of after.RobotValues ?? []) {
+    const entry = robots.get(value.RobotId) ?? { name: value.RobotName ?? String(value.RobotId) }
+    entry.after = value as unknown as Record<string, unknown>
+    robots.set(value.RobotId, entry)
+  }
+  for (const { name, before: a, after: b } of robots.values()) {
+    compare(`RobotValues[${name}].`, a, b)
+  }
+  return changes
+}
+
+/**
+ * Names of the secret fields a write sets: passwords, and every value field of
+ * a sensitive asset. Their values are never reported.
+ */
+export function secretFieldNames(
+  asset: { ValueType: string; Sensitive?: boolean },
+  fields: Record<string, unknown>,
+  robotValues: AssetRobotValue[] = []
+): string[] {
+  const sensitive = hasSensitiveValue(asset)
+  const names = (prefix: string, record: Record<string, unknown>) => Object.keys(record)
+    .filter(field => record[field] != null && (field === "CredentialPassword" || (sensitive && SECRET_VALUE_FIELDS.has(field))))
+    .map(field => `${prefix}${field}`)
+  return [
+    ...names("", fields),
+    ...robotValues.flatMap(value =>
+      names(`RobotValues[${value.RobotName ?? value.RobotId}].`, value as unknown as Record<string, unknown>)),
+  ]
+}
+
+/**
+ * Fields left out of cross-folder comparisons: descriptions are documentation,
+ * and Value and HasDefaultValue follow from the typed value fields.
+ */
+const COMPARISON_IGNORED_FIELDS = new Set(["Description", "Value", "HasDefaultValue"])
+
+/**
+ * Key per-robot values by robot name rather than id, so the same robot matches
+ * in folders of different tenants. `keys` is shared between the two sides.
+ */
+function robotValuesByName(values: AssetRobotValue[] | null | undefined, keys: Map<string, number>): AssetRobotValue[] {
+  return (values ?? []).map(value => {
+    const name = value.RobotName ?? String(value.RobotId)
+    if (!keys.has(name.toLowerCase())) keys.set(name.toLowerCase(), keys.size)
+    return { ...value, RobotName: name, RobotId: keys.get(name.toLowerCase()) as number }
+  })
+}
+
+/**
+ * Compare two folders' assets by name (case-insensitive): assets missing on
+ * either side, type mismatches, and differing non-sensitive values. Per-robot
+ * values are matched by robot name; a PerRobot asset whose robot values were
+ * not returned is listed in valuesNotCompared.
+ */
+export function compareAssetSets(
+  source: Asset[],
+  target: Asset[]
+): Omit<AssetComparison, "source" | "target"> {
+  const targetByName = new Map(target.map(asset => [asset.Name.toLowerCase(), asset]))
+  const sourceNames = new Set(source.map(asset => asset.Name.toLowerCase()))
+  const comparison: Omit<AssetComparison, "source" | "target"> = {
+    missingInTarget: [],
+    missingInSource: target.filter(asset => !sourceNames.has(asset.Name.toLowerCase())).map(asset => asset.Name),
+    typeMismatches: [],
+    valueDifferences: [],
+    valuesNotCompared: [],
+    matchingCount: 0,
+  }
+
+  for (const asset of source) {
+    const other = targetByName.get(asset.Name.toLowerCase())
+    if (!other) {
+      comparison.missingInTarget.push(asset.Name)
+      continue
+    }
+    if (asset.ValueType !== other.ValueType) {
+      comparison.typeMismatches.push({ name: asset.Name, sourceType: asset.ValueType, targetType: other.ValueType })
+      continue
+    }
+    // Passwords are write-only, so a credential's secret half can never be compared
+    const secret = hasSensitiveValue(asset) || hasSensitiveValue(other) || asset.ValueType.endsWith("Credential")
+    const perRobotUnknown = [asset, other].some(side => side.ValueScope === "PerRobot" && !side.RobotValues)
+    if (secret || perRobotUnknown) {
+      comparison.valuesNotCompared.push(asset.Name)
+    }
+    const robotKeys = new Map<string, number>()
+    const differences = diffAssets(
+      { ...asset, RobotValues: perRobotUnknown ? null : robotValuesByName(asset.RobotValues, robotKeys) },
+      { ...other, RobotValues: perRobotUnknown ? null : robotValuesByName(other.RobotValues, robotKeys) }
+    ).filter(change => !COMPARISON_IGNORED_FIELDS.has(change.field.slice(change.field.lastIndexOf(".") + 1)))
+    for (const change of differences) {
+      comparison.valueDifferences.push({
+        name: asset.Name,
+        valueType: asset.ValueType,
+        field: change.field,
+        source: change.before,
+        target: change.after,
+      })
+    }
+    if (differences.length === 0 && !secret && !perRobotUnknown) {
+      comparison.matchingCount++
+    }
+  }
+
+  const byName = (a: string, b: string) => a.localeCompare(b)
+  comparison.missingInTarget.sort(byName)
+  comparison.missingInSource.sort(byName)
+  return comparison
+}
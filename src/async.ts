@@ -0,0 +1,54 @@
+/**
+ * Small helpers for draining paginated iterators and for fanning requests out
+ * with a bound on how many are in flight, so a folder with hundreds of queues
+ * or packages does not open hundreds of connections at once.
+ */
+
+/** Drain an async iterator into an array. */
+export async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterable) {
+    items.push(item)
+  }
+  return items
+}
+
+/**
+ * Drain an iterator opened with `maxItems + 1` and keep the first `maxItems`;
+ * the extra item only tells whether more exist, so exactly `maxItems` results
+ * are not reported as truncated.
+ */
+export async function collectUpTo<T>(
+  iterable: AsyncIterable<T>,
+  maxItems: number
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items = await collect(iterable)
+  const truncated = items.length > maxItems
+  if (truncated) items.length = maxItems
+  return { items, truncated }
+}
+
+/**
+ * Map `items` through `fn` with at most `limit` calls pending at a time.
+ * Results keep the order of `items`; the first rejection rejects the whole
+ * call once the calls already started have settled.
+ */
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+  const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker)
+  const settled = await Promise.allSettled(workers)
+  const failure = settled.find((result): result is PromiseRejectedResult => result.status === "rejected")
+  if (failure) throw failure.reason
+  return results
+}
@@ -0,0 +1,250 @@
+import type { FieldError } from "./json-schema.js"
+
+/**
+ * Typed errors raised by the UiPath client.
+ *
+ * Every non-2xx Orchestrator or Identity response is mapped to a subclass of
+ * UiPathError carrying the HTTP status, Orchestrator's `errorCode` and
+ * `traceId` (when the body provides them) and a remediation hint suitable for
+ * showing to an assistant or end user.
+ */
+
+export interface UiPathErrorDetails {
+  status?: number
+  errorCode?: string | number
+  traceId?: string
+  hint?: string
+}
+
+export class UiPathError extends Error {
+  readonly code: string = "uipath_error"
+  readonly status?: number
+  readonly errorCode?: string | number
+  readonly traceId?: string
+  readonly hint?: string
+
+  constructor(message: string, details: UiPathErrorDetails = {}) {
+    super(message)
+    this.name = new.target.name
+    this.status = details.status
+    this.errorCode = details.errorCode
+    this.traceId = details.traceId
+    this.hint = details.hint
+  }
+}
+
+/** Authentication failed: bad client credentials or an expired/invalid token. */
+export class AuthError extends UiPathError {
+  readonly code = "auth_error"
+
+  constructor(message: string, details: UiPathErrorDetails = {}) {
+    super(message, {
+      hint: "Check UIPATH_CLIENT_ID, UIPATH_CLIENT_SECRET and UIPATH_URL, and that the External Application is still active.",
+      ...details,
+    })
+  }
+}
+
+/** The caller is authenticated but lacks a scope or folder permission. */
+export class PermissionError extends UiPathError {
+  readonly code = "permission_denied"
+  readonly missingScope?: string
+
+  constructor(message: string, details: UiPathErrorDetails & { missingScope?: string } = {}) {
+    const { missingScope, ...rest } = details
+    super(message, {
+      hint: missingScope
+        ? `Add the ${missingScope} scope to the External Application, or grant its account the matching role in the target folder.`
+        : "Grant the External Application's account a role with this permission in the target folder.",
+      ...rest,
+    })
+    this.missingScope = missingScope
+  }
+}
+
+export class NotFoundError extends UiPathError {
+  readonly code = "not_found"
+
+  constructor(message: string, details: UiPathErrorDetails = {}) {
+    super(message, {
+      hint: "Verify the name or ID, and pass the folderId of the folder that contains it.",
+      ...details,
+    })
+  }
+}
+
+/** The request was rejected as malformed or conflicting with current state. */
+export class ValidationError extends UiPathError {
+  readonly code = "validation_error"
+
+  constructor(message: string, details: UiPathErrorDetails = {}) {
+    super(message, {
+      hint: "Correct the request parameters and try again.",
+      ...details,
+    })
+  }
+}
+
+/** A payload failed local JSON Schema validation; nothing was sent to Orchestrator. */
+export class SchemaValidationError extends ValidationError {
+  readonly fieldErrors: FieldError[]
+
+  constructor(message: string, fieldErrors: FieldError[], details: UiPathErrorDetails = {}) {
+    super(message, {
+      hint: "Fix the listed fields so the payload matches the schema, then try again.",
+      ...details,
+    })
+    this.fieldErrors = fieldErrors
+  }
+}
+
+export class RateLimitError extends UiPathError {
+  readonly code = "rate_limited"
+  readonly retryAfterMs?: number
+
+  constructor(message: string, details: UiPathErrorDetails & { retryAfterMs?: number } = {}) {
+    const { retryAfterMs, ...rest } = details
+    super(message, {
+      hint: retryAfterMs !== undefined
+        ? `Orchestrator is throttling requests; wait ${Math.ceil(retryAfterMs / 1000)}s before retrying.`
+        : "Orchestrator is throttling requests; wait before retrying and reduce request volume.",
+      ...rest,
+    })
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+export class ServerError extends UiPathError {
+  readonly code = "server_error"
+
+  constructor(message: string, details: UiPathErrorDetails = {}) {
+    super(message, {
+      hint: "Orchestrator failed to process the request; retry later and quote the traceId to UiPath support if it persists.",
+      ...details,
+    })
+  }
+}
+
+/** Thrown without contacting the server while the circuit breaker is open. */
+export class CircuitOpenError extends UiPathError {
+  readonly code = "circuit_open"
+
+  constructor(readonly retryAt: Date) {
+    super(`Circuit breaker open after repeated Orchestrator failures; retry after ${retryAt.toISOString()}`, {
+      hint: "Orchestrator has been failing repeatedly; wait for it to recover before retrying.",
+    })
+  }
+}
+
+interface ParsedErrorBody {
+  message?: string
+  errorCode?: string | number
+  traceId?: string
+}
+
+/**
+ * Extract message, errorCode and traceId from an error body. Understands
+ * Orchestrator's `{ message, errorCode, traceId }`, the OData
+ * `{ error: { code, message } }` envelope and OAuth `{ error, error_description }`.
+ */
+export function parseErrorBody(text: string): ParsedErrorBody {
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    return { message: text.trim() || undefined }
+  }
+  if (!body || typeof body !== "object") {
+    return { message: text.trim() || undefined }
+  }
+
+  const record = body as Record<string, unknown>
+  const str = (value: unknown) => (typeof value === "string" && value ? value : undefined)
+  const code = (value: unknown) =>
+    typeof value === "number" || (typeof value === "string" && value) ? value : undefined
+
+  if (record.error && typeof record.error === "object") {
+    const inner = record.error as Record<string, unknown>
+    return {
+      message: str(inner.message),
+      errorCode: code(inner.code),
+      traceId: str(record.traceId),
+    }
+  }
+
+  return {
+    message: str(record.message) ?? str(record.error_description) ?? str(record.error),
+    errorCode: code(record.errorCode) ?? (str(record.error_description) ? str(record.error) : undefined),
+    traceId: str(record.traceId) ?? str(record.requestId),
+  }
+}
+
+/** Scope required by each Orchestrator entity set, used when a 403 names none. */
+const ENDPOINT_SCOPES: Array<[RegExp, string]> = [
+  [/^\/odata\/(Jobs|Releases|Processes|ProcessSchedules|Libraries)\b/, "OR.Jobs"],
+  [/^\/odata\/(Queues|QueueDefinitions|QueueItems|QueueItemEvents|QueueProcessingRecords)\b/, "OR.Queues"],
+  [/^\/odata\/(Folders)\b/, "OR.Folders"],
+  [/^\/odata\/(Assets)\b/, "OR.Assets"],
+  [/^\/odata\/(Robots|Sessions)\b/, "OR.Robots"],
+  [/^\/odata\/(Machines)\b/, "OR.Machines"],
+  [/^\/odata\/(RobotLogs)\b/, "OR.Monitoring"],
+  [/^\/odata\/(AuditLogs)\b/, "OR.Audit"],
+  [/^\/odata\/(Licenses\w*)\b/, "OR.License"],
+  [/^\/odata\/(Settings|Webhooks|Calendars)\b/, "OR.Settings"],
+  [/^\/odata\/(Users|Roles)\b/, "OR.Users"],
+  [/^\/odata\/(Buckets)\b/, "OR.Administration"],
+  [/^\/odata\/(Environments)\b/, "OR.Robots"],
+  [/^\/odata\/(TestSets|TestSetExecutions|TestCaseExecutions)\b/, "OR.TestSets"],
+  [/^\/api\/Stats\b/, "OR.Monitoring"],
+]
+
+function findMissingScope(headers: Headers | undefined, endpoint: string | undefined): string | undefined {
+  const challenge = headers?.get("WWW-Authenticate")
+  const fromHeader = challenge?.match(/scope="([^"]+)"/)?.[1]
+  if (fromHeader) return fromHeader
+  if (!endpoint) return undefined
+  const path = endpoint.replace(/^https?:\/\/[^/]+/i, "").replace(/^.*?(\/(odata|api)\/)/, "$1")
+  return ENDPOINT_SCOPES.find(([pattern]) => pattern.test(path))?.[1]
+}
+
+/**
+ * Map a failed HTTP response to the matching UiPathError subclass.
+ * @param status - HTTP status code.
+ * @param bodyText - Raw response body.
+ * @param context.headers - Response headers (Retry-After, WWW-Authenticate).
+ * @param context.endpoint - Request path, used to infer a missing scope on 403.
+ * @param context.retryAfterMs - Parsed Retry-After delay for 429 responses.
+ */
+export function errorFromResponse(
+  status: number,
+  bodyText: string,
+  context: { headers?: Headers; endpoint?: string; retryAfterMs?: number | null } = {}
+): UiPathError {
+  const parsed = parseErrorBody(bodyText)
+  const message = `API request failed (${status}): ${parsed.message ?? "no error message"}`
+  const details: UiPathErrorDetails = {
+    status,
+    errorCode: parsed.errorCode,
+    traceId: parsed.traceId ?? context.headers?.get("x-uipath-correlation-id") ?? undefined,
+  }
+
+  if (status === 401) return new AuthError(message, details)
+  if (status === 403) {
+    return new PermissionError(message, {
+      ...details,
+      missingScope: findMissingScope(context.headers, context.endpoint),
+    })
+  }
+  if (status === 404) return new NotFoundError(message, details)
+  if (status === 429) {
+    return new RateLimitError(message, { ...details, retryAfterMs: context.retryAfterMs ?? undefined })
+  }
+  if (status >= 500) return new ServerError(message, details)
+  if (status >= 400) return new ValidationError(message, details)
+  return new UiPathError(message, details)
+}
+
+/** Whether Orchestrator rejected the request's OData options (e.g. unsupported $count). */
+export function isInvalidODataQuery(error: unknown): boolean {
+  return error instanceof ValidationError && /Invalid OData/i.test(error.message)
+}
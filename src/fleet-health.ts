@@ -0,0 +1,159 @@
+import type {
+  FleetHealthReport,
+  FleetRunningJob,
+  Job,
+  LicenseRuntimeDto,
+  Machine,
+  MachineHealth,
+  Session,
+} from "./types.js"
+
+/**
+ * Per-machine fleet health: robot sessions, license runtime records and
+ * running jobs joined by machine, with flags for licensed capacity that cannot
+ * take work because its sessions are disconnected or unresponsive.
+ */
+
+const CONNECTED_STATES = new Set(["Available", "Busy"])
+
+const isUnresponsive = (session: Session) => session.IsUnresponsive || session.State === "Unresponsive"
+
+function push<K, V>(groups: Map<K, V[]>, key: K, value: V): void {
+  const group = groups.get(key)
+  if (group) group.push(value)
+  else groups.set(key, [value])
+}
+
+/**
+ * Join machines, sessions, license runtime records and running jobs by machine.
+ * Jobs are matched to machines by host name. Pass `licenses` as null when the
+ * license data could not be read; licensing is then unknown rather than false,
+ * and disconnected machines are still flagged as such.
+ * With `folderId` set, sessions and jobs are those of one folder, so only
+ * machines with a session in it are reported: tenant-wide machines and
+ * licenses used by other folders would otherwise look disconnected.
+ */
+export function buildFleetHealth(
+  machines: Machine[],
+  sessions: Session[],
+  licenses: LicenseRuntimeDto[] | null,
+  runningJobs: Job[],
+  options: { staleAfterMinutes: number; now: Date; folderId?: number }
+): Omit<FleetHealthReport, "warnings"> {
+  const now = options.now.getTime()
+  const minutesSince = (time: string | null) => {
+    const parsed = time ? Date.parse(time) : NaN
+    return Number.isFinite(parsed) ? Math.max(0, Math.floor((now - parsed) / 60_000)) : null
+  }
+
+  const names = new Map<number, { name: string; type: string | null }>()
+  for (const machine of machines) {
+    names.set(machine.Id, { name: machine.Name, type: machine.Type })
+  }
+
+  const sessionsByMachine = new Map<number, Session[]>()
+  const machineByHost = new Map<string, number>()
+  for (const session of sessions) {
+    if (session.MachineId === null) continue
+    push(sessionsByMachine, session.MachineId, session)
+    if (session.HostMachineName) machineByHost.set(session.HostMachineName.toLowerCase(), session.MachineId)
+    if (!names.has(session.MachineId)) {
+      names.set(session.MachineId, { name: session.MachineName ?? `Machine ${session.MachineId}`, type: null })
+    }
+  }
+
+  const licensesByMachine = new Map<number, LicenseRuntimeDto[]>()
+  for (const license of licenses ?? []) {
+    push(licensesByMachine, license.MachineId, license)
+    if (license.HostMachineName) machineByHost.set(license.HostMachineName.toLowerCase(), license.MachineId)
+    if (!names.has(license.MachineId)) {
+      names.set(license.MachineId, { name: license.MachineName, type: license.MachineType })
+    }
+  }
+  // Standard machines run jobs under their own name
+  for (const [id, { name }] of names) {
+    if (!machineByHost.has(name.toLowerCase())) machineByHost.set(name.toLowerCase(), id)
+  }
+
+  const jobsByMachine = new Map<number, FleetRunningJob[]>()
+  for (const job of runningJobs) {
+    const machineId = job.HostMachineName ? machineByHost.get(job.HostMachineName.toLowerCase()) : undefined
+    if (machineId === undefined) continue
+    push(jobsByMachine, machineId, {
+      jobId: job.Id,
+      jobKey: job.Key,
+      processName: job.ReleaseName,
+      hostMachineName: job.HostMachineName,
+      startTime: job.StartTime,
+    })
+  }
+
+  const reported = [...names.entries()]
+    .filter(([machineId]) => options.folderId === undefined || sessionsByMachine.has(machineId))
+  const report: MachineHealth[] = reported.map(([machineId, { name, type }]) => {
+    const machineSessions = sessionsByMachine.get(machineId) ?? []
+    const unresponsive = machineSessions.filter(isUnresponsive)
+    const online = machineSessions.some(s => CONNECTED_STATES.has(s.State) && !isUnresponsive(s))
+    const lastReportingTime = machineSessions
+      .map(s => s.ReportingTime)
+      .filter((time): time is string => !!time)
+      .sort()
+      .at(-1) ?? null
+    const minutesSinceLastReport = minutesSince(lastReportingTime)
+
+    const machineLicenses = licensesByMachine.get(machineId) ?? []
+    const licensed = licenses === null ? null : machineLicenses.some(l => l.IsLicensed)
+    const jobs = jobsByMachine.get(machineId) ?? []
+
+    const flags: string[] = []
+    if (licensed !== false) {
+      const stale = (minutes: number | null) => minutes === null || minutes >= options.staleAfterMinutes
+      if (!online && unresponsive.length === 0 && stale(minutesSinceLastReport)) {
+        const subject = licensed ? "Licensed but" : "Licensing unknown;"
+        flags.push(minutesSinceLastReport === null
+          ? `${subject} no robot session has ever reported`
+          : `${subject} disconnected for ${minutesSinceLastReport} min`)
+      }
+      for (const session of unresponsive) {
+        const minutes = minutesSince(session.ReportingTime)
+        if (stale(minutes)) {
+          const host = session.HostMachineName ?? name
+          flags.push(minutes === null ? `${host} is unresponsive` : `${host} unresponsive for ${minutes} min`)
+        }
+      }
+    }
+
+    return {
+      machineId,
+      machineName: name,
+      machineType: type,
+      online,
+      hosts: [...new Set(machineSessions.map(s => s.HostMachineName).filter((host): host is string => !!host))].sort(),
+      sessionCount: machineSessions.length,
+      unresponsiveSessionCount: unresponsive.length,
+      lastReportingTime,
+      minutesSinceLastReport,
+      runtimeSlots: licenses === null ? null : machineLicenses.reduce((sum, l) => sum + l.Runtimes, 0),
+      executingCount: licenses === null ? jobs.length : machineLicenses.reduce((sum, l) => sum + l.ExecutingCount, 0),
+      licensed,
+      licenseEnabled: licenses === null ? null : machineLicenses.some(l => l.Enabled),
+      runningJobs: jobs,
+      flags,
+    }
+  })
+
+  report.sort((a, b) => Number(b.flags.length > 0) - Number(a.flags.length > 0) || a.machineName.localeCompare(b.machineName))
+  return {
+    generatedAt: options.now.toISOString(),
+    folderId: options.folderId ?? null,
+    staleAfterMinutes: options.staleAfterMinutes,
+    summary: {
+      machines: report.length,
+      online: report.filter(m => m.online).length,
+      flagged: report.filter(m => m.flags.length > 0).length,
+      runtimeSlots: report.reduce((sum, m) => sum + (m.runtimeSlots ?? 0), 0),
+      executing: report.reduce((sum, m) => sum + m.executingCount, 0),
+    },
+    machines: report,
+  }
+}
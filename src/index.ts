@@ -9,11 +9,22 @@ import {
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js"
-import { z } from "zod"
+import { z, ZodError } from "zod"
 import express from "express"
 import cors from "cors"
-import { UiPathClient } from "./uipath-client.js"
-import type { UiPathConfig, QueueItemStatus, JobState, RobotType } from "./types.js"
+import { UiPathClient, ODATA_QUERY_ENTITY_SETS } from "./uipath-client.js"
+import { WRITABLE_ASSET_TYPES, maskAsset } from "./assets.js"
+import { collect, collectUpTo } from "./async.js"
+import { REDACTION_DETECTORS, redact, resolveRedactionPolicy } from "./redaction.js"
+import type { RedactionPolicy } from "./redaction.js"
+import {
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  SchemaValidationError,
+  UiPathError,
+} from "./errors.js"
+import type { UiPathConfig, QueueItemStatus, JobState, RobotType, RedactionConfig, RedactionDetector } from "./types.js"
 
 /**
  * Load UiPath configuration from environment variables.
@@ -44,15 +55,91 @@ export function loadConfig(): UiPathConfig {
     clientSecret: process.env.UIPATH_CLIENT_SECRET!,
     defaultFolderId: Number.isFinite(folderId) ? folderId : undefined,
     disableSslVerify: process.env.UIPATH_DISABLE_SSL_VERIFY === "1",
+    retry: {
+      maxAttempts: numberFromEnv("UIPATH_RETRY_MAX_ATTEMPTS"),
+      baseDelayMs: numberFromEnv("UIPATH_RETRY_BASE_DELAY_MS"),
+      maxDelayMs: numberFromEnv("UIPATH_RETRY_MAX_DELAY_MS"),
+    },
+    circuitBreaker: {
+      failureThreshold: numberFromEnv("UIPATH_CIRCUIT_BREAKER_THRESHOLD"),
+      resetTimeoutMs: numberFromEnv("UIPATH_CIRCUIT_BREAKER_RESET_MS"),
+    },
+  }
+}
+
+/**
+ * Load output redaction settings from environment variables. Redaction is on
+ * unless UIPATH_REDACTION is "0" or "off"; the comma-separated lists replace
+ * the defaults, and UIPATH_REDACT_PATTERNS is a JSON array of regular expressions.
+ * @throws {Error} If UIPATH_REDACT_PATTERNS or UIPATH_REDACT_DETECTORS is invalid.
+ */
+export function loadRedactionConfig(): RedactionConfig {
+  const detectors = listFromEnv("UIPATH_REDACT_DETECTORS")
+  const unknown = detectors?.filter(name => !(REDACTION_DETECTORS as readonly string[]).includes(name)) ?? []
+  if (unknown.length > 0) {
+    throw new Error(`Unknown UIPATH_REDACT_DETECTORS: ${unknown.join(", ")} (expected ${REDACTION_DETECTORS.join(", ")})`)
+  }
+
+  let customPatterns: string[] | undefined
+  if (process.env.UIPATH_REDACT_PATTERNS) {
+    const parsed: unknown = JSON.parse(process.env.UIPATH_REDACT_PATTERNS)
+    if (!Array.isArray(parsed) || !parsed.every(pattern => typeof pattern === "string")) {
+      throw new Error("UIPATH_REDACT_PATTERNS must be a JSON array of regular expression strings")
+    }
+    customPatterns = parsed
+  }
+
+  return {
+    enabled: !["0", "off", "false"].includes(process.env.UIPATH_REDACTION?.toLowerCase() ?? ""),
+    sensitiveAssetTypes: listFromEnv("UIPATH_REDACT_ASSET_TYPES"),
+    sensitiveKeys: listFromEnv("UIPATH_REDACT_KEYS"),
+    detectors: detectors as RedactionDetector[] | undefined,
+    customPatterns,
   }
 }
 
+/** Read a comma-separated environment variable; unset means "use the default". */
+function listFromEnv(name: string): string[] | undefined {
+  const value = process.env[name]
+  if (value === undefined) return undefined
+  return value.split(",").map(item => item.trim()).filter(Boolean)
+}
+
+/** Read a numeric environment variable, ignoring unset or non-numeric values. */
+function numberFromEnv(name: string): number | undefined {
+  const value = process.env[name] ? Number(process.env[name]) : undefined
+  return Number.isFinite(value) ? value : undefined
+}
+
+/** Runtime types a job can be started on; the unattended-capable subset of RobotType. */
+const RUNTIME_TYPES = ["Unattended", "NonProduction", "Development", "Headless", "TestAutomation", "Serverless"] as const satisfies readonly RobotType[]
+
+/**
+ * Items read per queue for the uipath://queues/sla resource, which covers every
+ * queue in the folder; ages and rates are sampled beyond it (`truncated`).
+ */
+const SLA_RESOURCE_MAX_ITEMS = 200
+
+/** Largest number of queue items one bulk tool call may change. */
+const MAX_BULK_ITEM_IDS = 1000
+
+const assetValueSchema = z.union([z.string(), z.number(), z.boolean(), z.record(z.string())])
+
+const assetRobotValueSchema = z.object({
+  robotName: z.string().describe("Robot name"),
+  value: assetValueSchema.optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+})
+
 /** Zod validation schemas for every MCP tool's input arguments. */
 export const schemas = {
   // Folder tools
   getFolders: z.object({
     limit: z.number().optional().default(50).describe("Maximum items to return"),
     skip: z.number().optional().default(0).describe("Number of items to skip"),
+    fetchAll: z.boolean().optional().default(false).describe("Page through every matching record instead of returning a single page"),
+    maxItems: z.number().optional().default(1000).describe("Upper bound on records returned when fetchAll is true"),
   }),
 
   // Robot tools
@@ -68,6 +155,48 @@ export const schemas = {
     skip: z.number().optional().default(0).describe("Number of items to skip"),
   }),
 
+  setRobotEnabled: z.object({
+    robotName: z.string().optional().describe("Name of the robot to change"),
+    robotId: z.number().optional().describe("ID of the robot to change"),
+    folderId: z.number().optional().describe("Folder to look the robot name up in"),
+    enabled: z.boolean().describe("True to enable the robot, false to disable it"),
+    confirm: z.boolean().optional().default(false).describe("Apply the change; otherwise only preview it"),
+  }).refine(
+    value => (value.robotName === undefined) !== (value.robotId === undefined),
+    { message: "Provide either robotName or robotId" }
+  ),
+
+  updateMachineSlots: z.object({
+    machineName: z.string().optional().describe("Name of the machine template to change"),
+    machineId: z.number().optional().describe("ID of the machine template to change"),
+    unattendedSlots: z.number().int().min(0).optional().describe("Unattended runtime slots"),
+    nonProductionSlots: z.number().int().min(0).optional().describe("NonProduction runtime slots"),
+    testAutomationSlots: z.number().int().min(0).optional().describe("TestAutomation runtime slots"),
+    headlessSlots: z.number().int().min(0).optional().describe("Headless runtime slots"),
+    confirm: z.boolean().optional().default(false).describe("Apply the change; otherwise only preview it"),
+  }).refine(
+    value => (value.machineName === undefined) !== (value.machineId === undefined),
+    { message: "Provide either machineName or machineId" }
+  ),
+
+  assignMachines: z.object({
+    folderId: z.number().describe("Folder to assign the machines to or remove them from"),
+    machineNames: z.array(z.string()).min(1).max(100)
+      // Case-insensitive, like the lookup
+      .transform(names => [...new Map(names.map(name => [name.toLowerCase(), name])).values()])
+      .describe("Machines to assign or remove"),
+    confirm: z.boolean().optional().default(false).describe("Apply the change; otherwise only preview it"),
+  }),
+
+  deleteMachine: z.object({
+    machineName: z.string().optional().describe("Name of the machine to delete"),
+    machineId: z.number().optional().describe("ID of the machine to delete"),
+    confirm: z.boolean().optional().default(false).describe("Apply the change; otherwise only preview it"),
+  }).refine(
+    value => (value.machineName === undefined) !== (value.machineId === undefined),
+    { message: "Provide either machineName or machineId" }
+  ),
+
   // Asset tools
   getRobotAsset: z.object({
     robotId: z.number().describe("Robot ID"),
@@ -83,6 +212,8 @@ export const schemas = {
     level: z.string().optional().describe("Filter by log level"),
     limit: z.number().optional().default(100).describe("Maximum items to return"),
     skip: z.number().optional().default(0).describe("Number of items to skip"),
+    fetchAll: z.boolean().optional().default(false).describe("Page through every matching record instead of returning a single page"),
+    maxItems: z.number().optional().default(1000).describe("Upper bound on records returned when fetchAll is true"),
   }),
 
   // Queue tools
@@ -90,12 +221,40 @@ export const schemas = {
     folderId: z.number().optional().describe("Folder ID to filter queue definitions"),
   }),
   
+  createQueue: z.object({
+    folderId: z.number().optional().describe("Folder ID to create the queue in"),
+    name: z.string().min(1).describe("Queue name"),
+    description: z.string().optional().describe("Queue description"),
+    maxNumberOfRetries: z.number().int().min(0).optional().describe("Automatic retries for failed items (default 1)"),
+    acceptAutomaticallyRetry: z.boolean().optional().describe("Retry items that fail with application exceptions (default true)"),
+    enforceUniqueReference: z.boolean().optional().describe("Reject items whose reference already exists (default false)"),
+    specificDataJsonSchema: z.record(z.unknown()).optional().describe("JSON schema that item SpecificContent must match"),
+  }),
+
+  updateQueue: z.object({
+    folderId: z.number().optional().describe("Folder ID where the queue exists"),
+    queueName: z.string().describe("Name of the queue to update"),
+    newName: z.string().min(1).optional().describe("New queue name"),
+    description: z.string().optional().describe("New description"),
+    maxNumberOfRetries: z.number().int().min(0).optional().describe("Automatic retries for failed items"),
+    acceptAutomaticallyRetry: z.boolean().optional().describe("Retry items that fail with application exceptions"),
+    enforceUniqueReference: z.boolean().optional().describe("Reject items whose reference already exists"),
+    specificDataJsonSchema: z.record(z.unknown()).optional().describe("JSON schema that item SpecificContent must match"),
+  }),
+
+  deleteQueue: z.object({
+    folderId: z.number().optional().describe("Folder ID where the queue exists"),
+    queueName: z.string().describe("Name of the queue to delete; it must have no items"),
+  }),
+  
   getQueueItems: z.object({
     folderId: z.number().optional().describe("Folder ID to filter queue items"),
     queueName: z.string().optional().describe("Filter by queue name"),
     queueId: z.number().optional().describe("Filter by queue ID"),
     status: z.enum(["New", "InProgress", "Successful", "Failed", "Abandoned", "Retried"]).optional().describe("Filter by status"),
     limit: z.number().optional().default(50).describe("Maximum items to return"),
+    fetchAll: z.boolean().optional().default(false).describe("Page through every matching record instead of returning a single page"),
+    maxItems: z.number().optional().default(1000).describe("Upper bound on records returned when fetchAll is true"),
   }),
   
   addQueueItem: z.object({
@@ -105,7 +264,64 @@ export const schemas = {
     reference: z.string().optional().describe("Optional unique reference for the item"),
     priority: z.enum(["Low", "Normal", "High"]).optional().default("Normal"),
   }),
+
+  getQueueItemDetails: z.object({
+    folderId: z.number().optional().describe("Folder ID where the queue exists"),
+    itemId: z.number().describe("ID of the queue item (any attempt in its retry chain)"),
+  }),
+
+  bulkAddQueueItems: z.object({
+    folderId: z.number().optional().describe("Folder ID where the queue exists"),
+    queueName: z.string().describe("Name of the queue to add items to"),
+    items: z.array(z.object({
+      data: z.record(z.unknown()).describe("The specific content/data for the queue item"),
+      reference: z.string().optional().describe("Optional unique reference for the item"),
+      priority: z.enum(["Low", "Normal", "High"]).optional().default("Normal"),
+      deferDate: z.string().optional().describe("Earliest processing time (ISO 8601)"),
+      dueDate: z.string().optional().describe("Processing deadline (ISO 8601)"),
+    })).min(1).max(15000).describe("Items to add"),
+    commitType: z.enum(["ProcessAllIndependently", "AllOrNothing", "StopOnFirstFailure"]).optional().default("ProcessAllIndependently"),
+  }),
+
+  retryQueueItems: z.object({
+    folderId: z.number().optional().describe("Folder ID where the queue exists"),
+    itemIds: z.array(z.number()).min(1).max(MAX_BULK_ITEM_IDS).describe("IDs of Failed queue items to retry (up to 1000)"),
+  }),
+
+  deleteQueueItems: z.object({
+    folderId: z.number().optional().describe("Folder ID where the queue exists"),
+    itemIds: z.array(z.number()).min(1).max(MAX_BULK_ITEM_IDS).describe("IDs of New queue items to delete (up to 1000)"),
+  }),
+
+  updateQueueItem: z.object({
+    folderId: z.number().optional().describe("Folder ID where the queue exists"),
+    itemId: z.number().describe("ID of the New queue item to update"),
+    priority: z.enum(["Low", "Normal", "High"]).optional().describe("New priority"),
+    deferDate: z.string().nullable().optional().describe("New earliest processing time (ISO 8601), or null to clear"),
+    dueDate: z.string().nullable().optional().describe("New processing deadline (ISO 8601), or null to clear"),
+  }),
+
+  setQueueItemReview: z.object({
+    folderId: z.number().optional().describe("Folder ID where the queue exists"),
+    itemIds: z.array(z.number()).min(1).max(MAX_BULK_ITEM_IDS).describe("IDs of Failed queue items (up to 1000)"),
+    reviewStatus: z.enum(["None", "InReview", "Verified", "Retried"]).optional().describe("New review status"),
+    reviewerUserId: z.number().nullable().optional().describe("User ID of the reviewer, or null to unassign"),
+  }).refine(
+    value => value.reviewStatus !== undefined || value.reviewerUserId !== undefined,
+    { message: "Provide reviewStatus, reviewerUserId, or both" }
+  ),
   
+  getQueueSchema: z.object({
+    folderId: z.number().optional().describe("Folder ID where the queue exists"),
+    queueName: z.string().describe("Name of the queue"),
+  }),
+
+  getQueueSlaReport: z.object({
+    folderId: z.number().optional().describe("Folder ID where the queues exist"),
+    queueName: z.string().optional().describe("Queue to report on; omit to report on every queue in the folder"),
+    windowHours: z.number().positive().max(720).optional().default(24).describe("Lookback window for processed items, in hours"),
+  }),
+
   getQueueStats: z.object({
     folderId: z.number().optional().describe("Folder ID where the queue exists"),
     queueName: z.string().describe("Name of the queue to get statistics for"),
@@ -116,26 +332,80 @@ export const schemas = {
     folderId: z.number().optional().describe("Folder ID to filter jobs (required for most operations)"),
     state: z.enum(["Pending", "Running", "Successful", "Faulted", "Stopped", "Terminated"]).optional().describe("Filter by job state"),
     releaseName: z.string().optional().describe("Filter by release/process name"),
+    startTime: z.string().optional().describe("Only jobs created after this time (ISO 8601)"),
+    endTime: z.string().optional().describe("Only jobs created before this time (ISO 8601)"),
     limit: z.number().optional().default(50).describe("Maximum jobs to return"),
+    fetchAll: z.boolean().optional().default(false).describe("Page through every matching record instead of returning a single page"),
+    maxItems: z.number().optional().default(1000).describe("Upper bound on records returned when fetchAll is true"),
   }),
   
   getJobDetails: z.object({
     jobId: z.number().describe("The ID of the job to get details for"),
     folderId: z.number().optional().describe("Folder ID where the job exists"),
   }),
+
+  getJobLogs: z.object({
+    jobId: z.number().describe("The ID of the job whose logs to fetch"),
+    folderId: z.number().optional().describe("Folder ID where the job exists"),
+    maxLines: z.number().int().min(1).max(20000).optional().default(5000).describe("Upper bound on log lines fetched"),
+    collapse: z.boolean().optional().default(true).describe("Fold consecutive near-identical lines into one with a repeat count"),
+  }),
   
   startJob: z.object({
     processName: z.string().describe("Name of the process to start"),
     folderId: z.number().optional().describe("Folder ID where the process exists"),
     inputArguments: z.record(z.unknown()).optional().describe("Input arguments for the job"),
     jobsCount: z.number().optional().default(1).describe("Number of jobs to start"),
-  }),
+    waitForCompletion: z.boolean().optional().default(false).describe("Wait until the jobs finish and return their output arguments and logs"),
+    timeoutSeconds: z.number().int().min(1).max(3600).optional().default(300).describe("Maximum time to wait when waitForCompletion is true"),
+    priority: z.enum(["Low", "Normal", "High"]).optional().describe("Job priority"),
+    specificPriorityValue: z.number().int().min(1).max(100).optional().describe("Exact priority from 1 to 100; overrides priority"),
+    runAsMe: z.boolean().optional().describe("Run the job under the calling user's identity"),
+    machineRobots: z.array(z.object({
+      machineId: z.number().describe("Machine ID"),
+      robotId: z.number().optional().describe("Robot ID on that machine"),
+      sessionId: z.number().optional().describe("Session ID on that machine"),
+    })).optional().describe("Machine/robot pairs the job is restricted to"),
+    robotNames: z.array(z.string()).min(1).optional().describe("Robots to run on, one job per robot"),
+    machineNames: z.array(z.string()).min(1).optional().describe("Machines to run on; with robotNames, restricts those robots to these machines"),
+    runtimeType: z.enum(RUNTIME_TYPES).optional().describe("Runtime license the job consumes"),
+  }).refine(
+    value => !value.machineRobots || (!value.robotNames && !value.machineNames && !value.runtimeType),
+    { message: "Provide either machineRobots or robotNames/machineNames/runtimeType" }
+  ),
   
+  getProcessArguments: z.object({
+    processName: z.string().describe("Name or key of the process"),
+    folderId: z.number().optional().describe("Folder ID where the process exists"),
+  }),
+
   stopJob: z.object({
     jobId: z.number().describe("The ID of the job to stop"),
     folderId: z.number().optional().describe("Folder ID where the job exists"),
     force: z.boolean().optional().default(false).describe("Force kill instead of soft stop"),
   }),
+
+  stopJobs: z.object({
+    folderId: z.number().optional().describe("Folder ID where the jobs exist"),
+    jobIds: z.array(z.number()).min(1).optional().describe("IDs of the jobs to stop"),
+    releaseName: z.string().optional().describe("Stop every job of this process in the given state"),
+    state: z.enum(["Pending", "Running", "Suspended"]).optional().default("Running").describe("State of the jobs to stop when releaseName is used"),
+    maxJobs: z.number().int().min(1).max(1000).optional().default(100).describe("Upper bound on jobs stopped when releaseName is used"),
+    force: z.boolean().optional().default(false).describe("Force kill instead of soft stop"),
+  }).refine(
+    value => (value.jobIds === undefined) !== (value.releaseName === undefined),
+    { message: "Provide either jobIds or releaseName" }
+  ),
+
+  restartJob: z.object({
+    jobId: z.number().describe("The ID of the finished job to restart"),
+    folderId: z.number().optional().describe("Folder ID where the job exists"),
+  }),
+
+  resumeJobs: z.object({
+    jobIds: z.array(z.number()).min(1).describe("IDs of the Suspended jobs to resume"),
+    folderId: z.number().optional().describe("Folder ID where the jobs exist"),
+  }),
   
   getJobStats: z.object({
     folderId: z.number().optional().describe("Folder ID to get job statistics for"),
@@ -147,6 +417,68 @@ export const schemas = {
     processKey: z.string().optional().describe("Filter by process key"),
   }),
 
+  // Package tools
+  getPackageCatalog: z.object({
+    packageId: z.string().optional().describe("Only this package (a release's process key)"),
+    folderId: z.number().optional().describe("Only deployments in this folder"),
+    version: z.string().optional().describe("Only deployments pinned to this package version"),
+    includeVersions: z.boolean().optional().default(true).describe("List every version of each package"),
+  }),
+
+  getPackageEntryPoints: z.object({
+    packageId: z.string().describe("Package ID"),
+    version: z.string().optional().describe("Package version; defaults to the latest"),
+  }),
+
+  setReleaseVersion: z.object({
+    processName: z.string().optional().describe("Name or key of the release to change"),
+    releaseId: z.number().optional().describe("ID of the release to change"),
+    version: z.string().describe("Package version to pin the release to"),
+    folderId: z.number().optional().describe("Folder ID where the release exists"),
+  }).refine(
+    value => (value.processName === undefined) !== (value.releaseId === undefined),
+    { message: "Provide either processName or releaseId" }
+  ),
+
+  createRelease: z.object({
+    packageId: z.string().describe("Package ID in the feed"),
+    folderId: z.number().describe("Folder to create the release in"),
+    name: z.string().optional().describe("Release name; defaults to the package ID"),
+    version: z.string().optional().describe("Package version; defaults to the latest"),
+    entryPointPath: z.string().optional().describe("Workflow to run, e.g. Main.xaml; defaults to the first entry point"),
+    description: z.string().optional().describe("Release description"),
+    inputArguments: z.record(z.unknown()).optional().describe("Default input argument values"),
+    environmentName: z.string().optional().describe("Environment (classic folders only)"),
+    priority: z.enum(["Low", "Normal", "High"]).optional().describe("Default job priority"),
+    specificPriorityValue: z.number().int().min(1).max(100).optional().describe("Exact default priority from 1 to 100; overrides priority"),
+    dryRun: z.boolean().optional().default(false).describe("Validate and return the request without sending it"),
+  }),
+
+  updateRelease: z.object({
+    processName: z.string().optional().describe("Name or key of the release to change"),
+    releaseId: z.number().optional().describe("ID of the release to change"),
+    folderId: z.number().optional().describe("Folder ID where the release exists"),
+    description: z.string().nullable().optional().describe("New description; null clears it"),
+    inputArguments: z.record(z.unknown()).optional().describe("Default input argument values to set; null removes a default"),
+    environmentName: z.string().nullable().optional().describe("Environment (classic folders only); null clears it"),
+    priority: z.enum(["Low", "Normal", "High"]).optional().describe("Default job priority"),
+    specificPriorityValue: z.number().int().min(1).max(100).optional().describe("Exact default priority from 1 to 100; overrides priority"),
+    dryRun: z.boolean().optional().default(false).describe("Validate and return the request without sending it"),
+  }).refine(
+    value => (value.processName === undefined) !== (value.releaseId === undefined),
+    { message: "Provide either processName or releaseId" }
+  ),
+
+  deleteRelease: z.object({
+    processName: z.string().optional().describe("Name or key of the release to delete"),
+    releaseId: z.number().optional().describe("ID of the release to delete"),
+    folderId: z.number().optional().describe("Folder ID where the release exists"),
+    dryRun: z.boolean().optional().default(false).describe("Check the release exists and return the request without sending it"),
+  }).refine(
+    value => (value.processName === undefined) !== (value.releaseId === undefined),
+    { message: "Provide either processName or releaseId" }
+  ),
+
   // Dashboard tools
   getDashboardSummary: z.object({
     folderId: z.number().optional().describe("Folder ID to get dashboard summary for"),
@@ -158,6 +490,8 @@ export const schemas = {
     state: z.string().optional().describe("Filter by session state (Available, Busy, Disconnected)"),
     limit: z.number().optional().default(50).describe("Maximum items to return"),
     skip: z.number().optional().default(0).describe("Number of items to skip"),
+    fetchAll: z.boolean().optional().default(false).describe("Page through every matching record instead of returning a single page"),
+    maxItems: z.number().optional().default(1000).describe("Upper bound on records returned when fetchAll is true"),
   }),
 
   // Asset tools (list all)
@@ -165,6 +499,49 @@ export const schemas = {
     folderId: z.number().optional().describe("Folder ID to list assets for"),
     limit: z.number().optional().default(50).describe("Maximum items to return"),
     skip: z.number().optional().default(0).describe("Number of items to skip"),
+    fetchAll: z.boolean().optional().default(false).describe("Page through every matching record instead of returning a single page"),
+    maxItems: z.number().optional().default(1000).describe("Upper bound on records returned when fetchAll is true"),
+  }),
+
+  createAsset: z.object({
+    name: z.string().describe("Asset name"),
+    folderId: z.number().describe("Folder to create the asset in"),
+    valueType: z.enum(WRITABLE_ASSET_TYPES).describe("Asset type"),
+    value: assetValueSchema.optional().describe("Value for Text, Integer, Boolean or KeyValueList assets"),
+    username: z.string().optional().describe("Credential username"),
+    password: z.string().optional().describe("Credential password; never returned"),
+    description: z.string().optional().describe("Asset description"),
+    robotValues: z.array(assetRobotValueSchema).optional().describe("Per-robot values; makes the asset PerRobot"),
+  }),
+
+  updateAsset: z.object({
+    name: z.string().optional().describe("Name of the asset to change"),
+    assetId: z.number().optional().describe("ID of the asset to change"),
+    folderId: z.number().optional().describe("Folder ID where the asset exists"),
+    value: assetValueSchema.optional().describe("New value for Text, Integer, Boolean or KeyValueList assets"),
+    username: z.string().optional().describe("New credential username"),
+    password: z.string().optional().describe("New credential password; never returned"),
+    description: z.string().optional().describe("New description"),
+    robotValues: z.array(assetRobotValueSchema).optional().describe("Per-robot values to set; merged with existing ones"),
+  }).refine(
+    value => (value.name === undefined) !== (value.assetId === undefined),
+    { message: "Provide either name or assetId" }
+  ),
+
+  deleteAsset: z.object({
+    name: z.string().optional().describe("Name of the asset to delete"),
+    assetId: z.number().optional().describe("ID of the asset to delete"),
+    folderId: z.number().optional().describe("Folder ID where the asset exists"),
+  }).refine(
+    value => (value.name === undefined) !== (value.assetId === undefined),
+    { message: "Provide either name or assetId" }
+  ),
+
+  compareAssets: z.object({
+    sourceFolderId: z.number().describe("Reference folder, e.g. UAT"),
+    targetFolderId: z.number().describe("Folder to check against it, e.g. Production"),
+    sourceTenantName: z.string().optional().describe("Tenant of the source folder; defaults to the connected tenant"),
+    targetTenantName: z.string().optional().describe("Tenant of the target folder; defaults to the connected tenant"),
   }),
 
   // Schedule tools
@@ -173,6 +550,8 @@ export const schemas = {
     enabled: z.boolean().optional().describe("Filter by enabled/disabled status"),
     limit: z.number().optional().default(50).describe("Maximum items to return"),
     skip: z.number().optional().default(0).describe("Number of items to skip"),
+    fetchAll: z.boolean().optional().default(false).describe("Page through every matching record instead of returning a single page"),
+    maxItems: z.number().optional().default(1000).describe("Upper bound on records returned when fetchAll is true"),
   }),
 
   // Audit log tools
@@ -184,6 +563,8 @@ export const schemas = {
     endTime: z.string().optional().describe("Filter by end time (ISO 8601)"),
     limit: z.number().optional().default(50).describe("Maximum items to return"),
     skip: z.number().optional().default(0).describe("Number of items to skip"),
+    fetchAll: z.boolean().optional().default(false).describe("Page through every matching record instead of returning a single page"),
+    maxItems: z.number().optional().default(1000).describe("Upper bound on records returned when fetchAll is true"),
   }),
 
   // Composite analytics tools
@@ -195,6 +576,33 @@ export const schemas = {
     limit: z.number().optional().default(50).describe("Maximum items to return"),
   }),
 
+  getFaultedJobClusters: z.object({
+    folderId: z.number().optional().describe("Folder ID to analyze"),
+    releaseName: z.string().optional().describe("Only jobs of this process/release"),
+    startTime: z.string().optional().describe("Only faulted jobs after this time (ISO 8601)"),
+    endTime: z.string().optional().describe("Only faulted jobs before this time (ISO 8601)"),
+    maxJobs: z.number().int().min(1).max(5000).optional().default(500).describe("Upper bound on faulted jobs analyzed, newest first"),
+  }),
+
+  getJobTrends: z.object({
+    startTime: z.string().optional().describe("Range start (ISO 8601); defaults to 7 days before endTime"),
+    endTime: z.string().optional().describe("Range end (ISO 8601); defaults to now"),
+    granularity: z.enum(["hour", "day", "week"]).optional().default("day").describe("Bucket size"),
+    releaseName: z.string().optional().describe("Only jobs of this process/release"),
+    folderId: z.number().optional().describe("Folder ID to analyze"),
+    maxJobs: z.number().int().min(1).max(50000).optional().default(5000).describe("Upper bound on jobs fetched, newest first"),
+  }),
+
+  compareJobPeriods: z.object({
+    currentStart: z.string().optional().describe("Current period start (ISO 8601); defaults to 7 days before currentEnd"),
+    currentEnd: z.string().optional().describe("Current period end (ISO 8601); defaults to now"),
+    previousStart: z.string().optional().describe("Previous period start; defaults to a period of equal length before currentStart"),
+    previousEnd: z.string().optional().describe("Previous period end; defaults to currentStart"),
+    releaseName: z.string().optional().describe("Only jobs of this process/release"),
+    folderId: z.number().optional().describe("Folder ID to analyze"),
+    maxJobs: z.number().int().min(1).max(50000).optional().default(5000).describe("Upper bound on jobs fetched per period"),
+  }),
+
   getProcessPerformance: z.object({
     processName: z.string().describe("Name of the process/release to analyze"),
     folderId: z.number().optional().describe("Folder ID where the process exists"),
@@ -205,6 +613,12 @@ export const schemas = {
     folderId: z.number().describe("Folder ID to get overview for"),
   }),
 
+  getFleetHealth: z.object({
+    folderId: z.number().optional().describe("Folder scope for sessions and running jobs"),
+    runtimeTypes: z.array(z.enum(RUNTIME_TYPES)).min(1).optional().default(["Unattended"]).describe("Runtime license types to read"),
+    staleAfterMinutes: z.number().min(0).optional().default(10).describe("Minutes without a report before a licensed machine is flagged"),
+  }),
+
   // Licensing & consumption stats tools
   getConsumptionLicenseStats: z.object({
     tenantId: z.number().optional().describe("Tenant ID (used when authenticated as Host)"),
@@ -234,6 +648,19 @@ export const schemas = {
   }),
   getCountStats: z.object({}),
   getSessionsStats: z.object({}),
+
+  // Generic query tools
+  odataQuery: z.object({
+    entitySet: z.enum(ODATA_QUERY_ENTITY_SETS).describe("Orchestrator OData entity set to query"),
+    folderId: z.number().optional().describe("Folder ID to scope the query to"),
+    filter: z.string().optional().describe("OData $filter expression"),
+    select: z.string().optional().describe("Comma-separated fields for $select"),
+    expand: z.string().optional().describe("Comma-separated navigation properties for $expand"),
+    orderBy: z.string().optional().describe("OData $orderby expression, e.g. 'CreationTime desc'"),
+    top: z.number().int().min(1).max(1000).optional().default(50).describe("Maximum items to return"),
+    skip: z.number().int().min(0).optional().describe("Number of items to skip"),
+    count: z.boolean().optional().default(false).describe("Include the total count of matching records"),
+  }),
 }
 
 /** MCP tool definitions exposed to clients (names, descriptions, JSON schemas). */
@@ -247,6 +674,8 @@ export const tools = [
       properties: {
         limit: { type: "number", description: "Maximum items to return (default 50)" },
         skip: { type: "number", description: "Number of items to skip (default 0)" },
+        fetchAll: { type: "boolean", description: "Page through every matching record instead of returning a single page (default false)" },
+        maxItems: { type: "number", description: "Upper bound on records returned when fetchAll is true (default 1000)" },
       },
       required: [],
     },
@@ -280,6 +709,77 @@ export const tools = [
       required: [],
     },
   },
+  {
+    name: "uipath_set_robot_enabled",
+    description: "Enable or disable a robot. Returns a preview unless confirm is true; a disabled robot finishes its current job but is not given new ones.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        robotName: { type: "string", description: "Name of the robot to change" },
+        robotId: { type: "number", description: "ID of the robot to change (instead of robotName)" },
+        folderId: { type: "number", description: "Folder to look the robot name up in" },
+        enabled: { type: "boolean", description: "True to enable the robot, false to disable it" },
+        confirm: { type: "boolean", description: "Apply the change; without it the change is only previewed (default false)" },
+      },
+      required: ["enabled"],
+    },
+  },
+  {
+    name: "uipath_update_machine_slots",
+    description: "Change the runtime slots of a machine template, e.g. to add Unattended capacity. Returns a preview unless confirm is true; only the given runtimes change.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        machineName: { type: "string", description: "Name of the machine template to change" },
+        machineId: { type: "number", description: "ID of the machine template to change (instead of machineName)" },
+        unattendedSlots: { type: "number", description: "Unattended runtime slots" },
+        nonProductionSlots: { type: "number", description: "NonProduction runtime slots" },
+        testAutomationSlots: { type: "number", description: "TestAutomation runtime slots" },
+        headlessSlots: { type: "number", description: "Headless runtime slots" },
+        confirm: { type: "boolean", description: "Apply the change; without it the change is only previewed (default false)" },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "uipath_assign_machines",
+    description: "Assign machines to a folder so its robots can run jobs on them. Returns a preview unless confirm is true.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder to assign the machines to" },
+        machineNames: { type: "array", items: { type: "string" }, description: "Machines to assign (up to 100)" },
+        confirm: { type: "boolean", description: "Apply the change; without it the change is only previewed (default false)" },
+      },
+      required: ["folderId", "machineNames"],
+    },
+  },
+  {
+    name: "uipath_unassign_machines",
+    description: "Remove machines from a folder. Jobs already running on them are not stopped. Returns a preview unless confirm is true.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder to remove the machines from" },
+        machineNames: { type: "array", items: { type: "string" }, description: "Machines to remove (up to 100)" },
+        confirm: { type: "boolean", description: "Apply the change; without it the change is only previewed (default false)" },
+      },
+      required: ["folderId", "machineNames"],
+    },
+  },
+  {
+    name: "uipath_delete_machine",
+    description: "Delete a stale machine. Online machines are refused. Returns a preview unless confirm is true.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        machineName: { type: "string", description: "Name of the machine to delete" },
+        machineId: { type: "number", description: "ID of the machine to delete (instead of machineName)" },
+        confirm: { type: "boolean", description: "Apply the change; without it the change is only previewed (default false)" },
+      },
+      required: [],
+    },
+  },
 
   // Asset tools
   {
@@ -309,6 +809,8 @@ export const tools = [
         level: { type: "string", description: "Filter by log level" },
         limit: { type: "number", description: "Maximum items to return (default 100)" },
         skip: { type: "number", description: "Number of items to skip (default 0)" },
+        fetchAll: { type: "boolean", description: "Page through every matching record instead of returning a single page (default false)" },
+        maxItems: { type: "number", description: "Upper bound on records returned when fetchAll is true (default 1000)" },
       },
       required: [],
     },
@@ -326,6 +828,53 @@ export const tools = [
       required: [],
     },
   },
+  {
+    name: "uipath_create_queue",
+    description: "Create a queue in a folder with retry, unique reference and item schema settings.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID to create the queue in" },
+        name: { type: "string", description: "Queue name" },
+        description: { type: "string", description: "Queue description" },
+        maxNumberOfRetries: { type: "number", description: "Automatic retries for failed items (default 1)" },
+        acceptAutomaticallyRetry: { type: "boolean", description: "Retry items that fail with application exceptions (default true)" },
+        enforceUniqueReference: { type: "boolean", description: "Reject items whose reference already exists (default false)" },
+        specificDataJsonSchema: { type: "object", description: "JSON schema that item SpecificContent must match" },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "uipath_update_queue",
+    description: "Change the name, description, retry, unique reference or schema settings of a queue. Unspecified settings are kept.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID where the queue exists" },
+        queueName: { type: "string", description: "Name of the queue to update" },
+        newName: { type: "string", description: "New queue name" },
+        description: { type: "string", description: "New description" },
+        maxNumberOfRetries: { type: "number", description: "Automatic retries for failed items" },
+        acceptAutomaticallyRetry: { type: "boolean", description: "Retry items that fail with application exceptions" },
+        enforceUniqueReference: { type: "boolean", description: "Reject items whose reference already exists" },
+        specificDataJsonSchema: { type: "object", description: "JSON schema that item SpecificContent must match" },
+      },
+      required: ["queueName"],
+    },
+  },
+  {
+    name: "uipath_delete_queue",
+    description: "Delete an empty queue. Refuses queues that still have items in any status.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID where the queue exists" },
+        queueName: { type: "string", description: "Name of the queue to delete; it must have no items" },
+      },
+      required: ["queueName"],
+    },
+  },
   {
     name: "uipath_get_queue_items",
     description: "Get queue items from UiPath Orchestrator with optional filtering by queue, status, etc.",
@@ -341,10 +890,24 @@ export const tools = [
           description: "Filter by item status",
         },
         limit: { type: "number", description: "Maximum items to return (default 50)" },
+        fetchAll: { type: "boolean", description: "Page through every matching record instead of returning a single page (default false)" },
+        maxItems: { type: "number", description: "Upper bound on records returned when fetchAll is true (default 1000)" },
       },
       required: [],
     },
   },
+  {
+    name: "uipath_get_queue_item_details",
+    description: "Explain what happened to a queue item: its retries, the robot and job that processed each attempt, exceptions and the event history, as one chronological timeline.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID where the queue exists" },
+        itemId: { type: "number", description: "ID of the queue item (any attempt in its retry chain)" },
+      },
+      required: ["itemId"],
+    },
+  },
   {
     name: "uipath_add_queue_item",
     description: "Add a new item to a UiPath queue. The item will be processed by robots.",
@@ -364,6 +927,120 @@ export const tools = [
       required: ["queueName", "data"],
     },
   },
+  {
+    name: "uipath_bulk_add_queue_items",
+    description: "Add many items to a UiPath queue in one request. Reports which items failed and why.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID where the queue exists" },
+        queueName: { type: "string", description: "Name of the queue to add items to" },
+        items: {
+          type: "array",
+          description: "Items to add",
+          items: {
+            type: "object",
+            properties: {
+              data: { type: "object", description: "The data/content for the queue item" },
+              reference: { type: "string", description: "Optional unique reference for tracking" },
+              priority: { type: "string", enum: ["Low", "Normal", "High"], description: "Item priority (default Normal)" },
+              deferDate: { type: "string", description: "Earliest processing time (ISO 8601)" },
+              dueDate: { type: "string", description: "Processing deadline (ISO 8601)" },
+            },
+            required: ["data"],
+          },
+        },
+        commitType: {
+          type: "string",
+          enum: ["ProcessAllIndependently", "AllOrNothing", "StopOnFirstFailure"],
+          description: "ProcessAllIndependently adds every valid item (default); AllOrNothing rejects the batch if any item fails; StopOnFirstFailure stops at the first failure",
+        },
+      },
+      required: ["queueName", "items"],
+    },
+  },
+  {
+    name: "uipath_retry_queue_items",
+    description: "Retry Failed queue items. Orchestrator clones each item as a new item and marks the original as Retried.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID where the queue exists" },
+        itemIds: { type: "array", items: { type: "number" }, description: "IDs of Failed queue items to retry (up to 1000)" },
+      },
+      required: ["itemIds"],
+    },
+  },
+  {
+    name: "uipath_delete_queue_items",
+    description: "Delete queue items that are still New (not yet processed). Items in other states are reported as failures.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID where the queue exists" },
+        itemIds: { type: "array", items: { type: "number" }, description: "IDs of New queue items to delete (up to 1000)" },
+      },
+      required: ["itemIds"],
+    },
+  },
+  {
+    name: "uipath_update_queue_item",
+    description: "Change the priority, defer date or due date of a New queue item. Content and reference are kept.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID where the queue exists" },
+        itemId: { type: "number", description: "ID of the New queue item to update" },
+        priority: { type: "string", enum: ["Low", "Normal", "High"], description: "New priority" },
+        deferDate: { type: ["string", "null"], description: "New earliest processing time (ISO 8601), or null to clear" },
+        dueDate: { type: ["string", "null"], description: "New processing deadline (ISO 8601), or null to clear" },
+      },
+      required: ["itemId"],
+    },
+  },
+  {
+    name: "uipath_set_queue_item_review",
+    description: "Set the review status and/or reviewer of Failed queue items.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID where the queue exists" },
+        itemIds: { type: "array", items: { type: "number" }, description: "IDs of Failed queue items (up to 1000)" },
+        reviewStatus: {
+          type: "string",
+          enum: ["None", "InReview", "Verified", "Retried"],
+          description: "New review status (Retried clones the item for reprocessing)",
+        },
+        reviewerUserId: { type: ["number", "null"], description: "User ID of the reviewer, or null to unassign" },
+      },
+      required: ["itemIds"],
+    },
+  },
+  {
+    name: "uipath_get_queue_schema",
+    description: "Get the JSON schema a queue enforces on item SpecificContent (and output/analytics data), so valid items can be built before calling uipath_add_queue_item.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID where the queue exists" },
+        queueName: { type: "string", description: "Name of the queue" },
+      },
+      required: ["queueName"],
+    },
+  },
+  {
+    name: "uipath_get_queue_sla_report",
+    description: "SLA and aging report for queues: age of New items, items past due or with elapsed defer dates, SLA breaches, processing time, retry rate and hourly throughput. Without queueName, reports every queue in the folder, most at-risk first.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID where the queues exist" },
+        queueName: { type: "string", description: "Queue to report on; omit to report on every queue in the folder" },
+        windowHours: { type: "number", description: "Lookback window for processed items, in hours (default 24, max 720)" },
+      },
+      required: [],
+    },
+  },
   {
     name: "uipath_get_queue_stats",
     description: "Get statistics for a specific queue including item counts by status and success rate.",
@@ -391,76 +1068,282 @@ export const tools = [
           description: "Filter by job state",
         },
         releaseName: { type: "string", description: "Filter by release/process name" },
+        startTime: { type: "string", description: "Only jobs created after this time (ISO 8601)" },
+        endTime: { type: "string", description: "Only jobs created before this time (ISO 8601)" },
         limit: { type: "number", description: "Maximum jobs to return (default 50)" },
+        fetchAll: { type: "boolean", description: "Page through every matching record instead of returning a single page (default false)" },
+        maxItems: { type: "number", description: "Upper bound on records returned when fetchAll is true (default 1000)" },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "uipath_get_job_details",
+    description: "Get detailed information about a specific job by its ID.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        jobId: { type: "number", description: "The ID of the job" },
+        folderId: { type: "number", description: "Folder ID where the job exists" },
+      },
+      required: ["jobId"],
+    },
+  },
+  {
+    name: "uipath_get_job_logs",
+    description: "Get the full robot log of a job in chronological order, with repeated lines folded, level counts, the first Error/Fatal line and the exception type, message and stack from the job error. Use to diagnose a failed job in one call.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        jobId: { type: "number", description: "The ID of the job" },
+        folderId: { type: "number", description: "Folder ID where the job exists" },
+        maxLines: { type: "number", description: "Upper bound on log lines fetched (default 5000, max 20000)" },
+        collapse: { type: "boolean", description: "Fold consecutive near-identical lines into one with a repeat count (default true)" },
+      },
+      required: ["jobId"],
+    },
+  },
+  {
+    name: "uipath_start_job",
+    description: "Start a new job for a process/release in UiPath Orchestrator.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        processName: { type: "string", description: "Name of the process to start" },
+        folderId: { type: "number", description: "Folder ID where the process exists" },
+        inputArguments: { type: "object", description: "Input arguments for the job" },
+        jobsCount: { type: "number", description: "Number of jobs to start (default 1)" },
+        waitForCompletion: {
+          type: "boolean",
+          description: "Wait until the jobs finish and return final state, duration, output arguments and recent logs (default false). Progress notifications are sent while waiting.",
+        },
+        timeoutSeconds: { type: "number", description: "Maximum time to wait when waitForCompletion is true (default 300, max 3600)" },
+        priority: { type: "string", enum: ["Low", "Normal", "High"], description: "Job priority" },
+        specificPriorityValue: { type: "number", description: "Exact priority from 1 (lowest) to 100 (highest); overrides priority" },
+        runAsMe: { type: "boolean", description: "Run the job under the calling user's identity" },
+        machineRobots: {
+          type: "array",
+          description: "Machine/robot pairs the job is restricted to",
+          items: {
+            type: "object",
+            properties: {
+              machineId: { type: "number", description: "Machine ID" },
+              robotId: { type: "number", description: "Robot ID on that machine" },
+              sessionId: { type: "number", description: "Session ID on that machine" },
+            },
+            required: ["machineId"],
+          },
+        },
+        robotNames: {
+          type: "array",
+          items: { type: "string" },
+          description: "Robots to run on, one job per robot. Each must be enabled, connected and licensed.",
+        },
+        machineNames: {
+          type: "array",
+          items: { type: "string" },
+          description: "Machines to run on; combined with robotNames, restricts those robots to these machines",
+        },
+        runtimeType: {
+          type: "string",
+          enum: [...RUNTIME_TYPES],
+          description: "Runtime license the job consumes; only sessions of this type count as available",
+        },
+      },
+      required: ["processName"],
+    },
+  },
+  {
+    name: "uipath_get_process_arguments",
+    description: "List the input and output arguments a process declares (name, type, required, has default). Use before uipath_start_job to ask the user for missing values.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        processName: { type: "string", description: "Name or key of the process" },
+        folderId: { type: "number", description: "Folder ID where the process exists" },
+      },
+      required: ["processName"],
+    },
+  },
+  {
+    name: "uipath_stop_job",
+    description: "Stop a running job in UiPath Orchestrator.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        jobId: { type: "number", description: "The ID of the job to stop" },
+        folderId: { type: "number", description: "Folder ID where the job exists" },
+        force: { type: "boolean", description: "Force kill instead of soft stop (default false)" },
+      },
+      required: ["jobId"],
+    },
+  },
+  {
+    name: "uipath_stop_jobs",
+    description: "Stop many jobs at once, either by ID or every job of a process in a given state (e.g. all Running jobs of a release). Reports the result per job ID.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID where the jobs exist" },
+        jobIds: { type: "array", items: { type: "number" }, description: "IDs of the jobs to stop" },
+        releaseName: { type: "string", description: "Stop every job of this process in the given state" },
+        state: {
+          type: "string",
+          enum: ["Pending", "Running", "Suspended"],
+          description: "State of the jobs to stop when releaseName is used (default Running)",
+        },
+        maxJobs: { type: "number", description: "Upper bound on jobs stopped when releaseName is used (default 100, max 1000)" },
+        force: { type: "boolean", description: "Force kill instead of soft stop (default false)" },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "uipath_restart_job",
+    description: "Restart a Faulted, Stopped or Successful job with its original input arguments and robot settings.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        jobId: { type: "number", description: "The ID of the finished job to restart" },
+        folderId: { type: "number", description: "Folder ID where the job exists" },
+      },
+      required: ["jobId"],
+    },
+  },
+  {
+    name: "uipath_resume_jobs",
+    description: "Resume Suspended jobs. Reports the result per job ID.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        jobIds: { type: "array", items: { type: "number" }, description: "IDs of the Suspended jobs to resume" },
+        folderId: { type: "number", description: "Folder ID where the jobs exist" },
+      },
+      required: ["jobIds"],
+    },
+  },
+  {
+    name: "uipath_get_job_stats",
+    description: "Get overall job statistics including counts by state and success rate.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID to get job statistics for" },
+      },
+      required: [],
+    },
+  },
+
+  // Release tools
+  {
+    name: "uipath_get_releases",
+    description: "Get available releases/processes from UiPath Orchestrator.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID to filter releases" },
+        processKey: { type: "string", description: "Filter by process key" },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "uipath_get_package_catalog",
+    description: "List packages in the feed with all their versions, and for each package the releases in every folder with the version they are pinned to. Filter by version to answer questions like \"which folders still run 1.2.0?\".",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        packageId: { type: "string", description: "Only this package (a release's process key)" },
+        folderId: { type: "number", description: "Only deployments in this folder (default: every folder)" },
+        version: { type: "string", description: "Only deployments pinned to this package version" },
+        includeVersions: { type: "boolean", description: "List every version of each package (default true)" },
       },
       required: [],
     },
   },
   {
-    name: "uipath_get_job_details",
-    description: "Get detailed information about a specific job by its ID.",
+    name: "uipath_get_package_entry_points",
+    description: "List the entry points (startable workflows) of a package version with their input and output arguments.",
     inputSchema: {
       type: "object" as const,
       properties: {
-        jobId: { type: "number", description: "The ID of the job" },
-        folderId: { type: "number", description: "Folder ID where the job exists" },
+        packageId: { type: "string", description: "Package ID" },
+        version: { type: "string", description: "Package version (default: latest)" },
       },
-      required: ["jobId"],
+      required: ["packageId"],
     },
   },
   {
-    name: "uipath_start_job",
-    description: "Start a new job for a process/release in UiPath Orchestrator.",
+    name: "uipath_set_release_version",
+    description: "Upgrade or roll back a release to a specific package version. The version must exist in the feed. Returns the previous and new versions.",
     inputSchema: {
       type: "object" as const,
       properties: {
-        processName: { type: "string", description: "Name of the process to start" },
-        folderId: { type: "number", description: "Folder ID where the process exists" },
-        inputArguments: { type: "object", description: "Input arguments for the job" },
-        jobsCount: { type: "number", description: "Number of jobs to start (default 1)" },
+        processName: { type: "string", description: "Name or key of the release to change" },
+        releaseId: { type: "number", description: "ID of the release to change (instead of processName)" },
+        version: { type: "string", description: "Package version to pin the release to" },
+        folderId: { type: "number", description: "Folder ID where the release exists" },
       },
-      required: ["processName"],
+      required: ["version"],
     },
   },
   {
-    name: "uipath_stop_job",
-    description: "Stop a running job in UiPath Orchestrator.",
+    name: "uipath_create_release",
+    description: "Create a release (process) in a folder from a package version, with optional description, default input arguments, environment and priority. Use dryRun to see the exact payload without creating anything.",
     inputSchema: {
       type: "object" as const,
       properties: {
-        jobId: { type: "number", description: "The ID of the job to stop" },
-        folderId: { type: "number", description: "Folder ID where the job exists" },
-        force: { type: "boolean", description: "Force kill instead of soft stop (default false)" },
+        packageId: { type: "string", description: "Package ID in the feed" },
+        folderId: { type: "number", description: "Folder to create the release in" },
+        name: { type: "string", description: "Release name (default: the package ID)" },
+        version: { type: "string", description: "Package version (default: latest)" },
+        entryPointPath: { type: "string", description: "Workflow to run, e.g. Main.xaml (default: the first entry point)" },
+        description: { type: "string", description: "Release description" },
+        inputArguments: { type: "object", description: "Default input argument values, checked against the entry point's arguments" },
+        environmentName: { type: "string", description: "Environment (classic folders only)" },
+        priority: { type: "string", enum: ["Low", "Normal", "High"], description: "Default job priority" },
+        specificPriorityValue: { type: "number", description: "Exact default priority from 1 (lowest) to 100 (highest); overrides priority" },
+        dryRun: { type: "boolean", description: "Validate and return the request without sending it (default false)" },
       },
-      required: ["jobId"],
+      required: ["packageId", "folderId"],
     },
   },
   {
-    name: "uipath_get_job_stats",
-    description: "Get overall job statistics including counts by state and success rate.",
+    name: "uipath_update_release",
+    description: "Change a release's description, default input arguments, environment or priority. Only the given settings are sent; input argument defaults are merged into the existing ones. Use dryRun to see the exact payload first.",
     inputSchema: {
       type: "object" as const,
       properties: {
-        folderId: { type: "number", description: "Folder ID to get job statistics for" },
+        processName: { type: "string", description: "Name or key of the release to change" },
+        releaseId: { type: "number", description: "ID of the release to change (instead of processName)" },
+        folderId: { type: "number", description: "Folder ID where the release exists" },
+        description: { type: ["string", "null"], description: "New description; null clears it" },
+        inputArguments: { type: "object", description: "Default input argument values to set; a null value removes that default" },
+        environmentName: { type: ["string", "null"], description: "Environment (classic folders only); null clears it" },
+        priority: { type: "string", enum: ["Low", "Normal", "High"], description: "Default job priority" },
+        specificPriorityValue: { type: "number", description: "Exact default priority from 1 (lowest) to 100 (highest); overrides priority" },
+        dryRun: { type: "boolean", description: "Validate and return the request without sending it (default false)" },
       },
       required: [],
     },
   },
-
-  // Release tools
   {
-    name: "uipath_get_releases",
-    description: "Get available releases/processes from UiPath Orchestrator.",
+    name: "uipath_delete_release",
+    description: "Delete a release (process) from a folder. Use dryRun to confirm which release would be deleted without deleting it.",
     inputSchema: {
       type: "object" as const,
       properties: {
-        folderId: { type: "number", description: "Folder ID to filter releases" },
-        processKey: { type: "string", description: "Filter by process key" },
+        processName: { type: "string", description: "Name or key of the release to delete" },
+        releaseId: { type: "number", description: "ID of the release to delete (instead of processName)" },
+        folderId: { type: "number", description: "Folder ID where the release exists" },
+        dryRun: { type: "boolean", description: "Check the release exists and return the request without sending it (default false)" },
       },
       required: [],
     },
   },
 
+
+
   // Dashboard tools
   {
     name: "uipath_get_dashboard_summary",
@@ -485,6 +1368,8 @@ export const tools = [
         state: { type: "string", description: "Filter by session state (Available, Busy, Disconnected)" },
         limit: { type: "number", description: "Maximum items to return (default 50)" },
         skip: { type: "number", description: "Number of items to skip (default 0)" },
+        fetchAll: { type: "boolean", description: "Page through every matching record instead of returning a single page (default false)" },
+        maxItems: { type: "number", description: "Upper bound on records returned when fetchAll is true (default 1000)" },
       },
       required: [],
     },
@@ -500,10 +1385,101 @@ export const tools = [
         folderId: { type: "number", description: "Folder ID to list assets for" },
         limit: { type: "number", description: "Maximum items to return (default 50)" },
         skip: { type: "number", description: "Number of items to skip (default 0)" },
+        fetchAll: { type: "boolean", description: "Page through every matching record instead of returning a single page (default false)" },
+        maxItems: { type: "number", description: "Upper bound on records returned when fetchAll is true (default 1000)" },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "uipath_create_asset",
+    description: "Create a Text, Integer, Boolean, KeyValueList or Credential asset, optionally with per-robot values. Credential passwords are sent to Orchestrator but never returned, and sensitive values are masked in the response.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: { type: "string", description: "Asset name" },
+        folderId: { type: "number", description: "Folder to create the asset in" },
+        valueType: { type: "string", enum: [...WRITABLE_ASSET_TYPES], description: "Asset type" },
+        value: { type: ["string", "number", "boolean", "object"], description: "Value for Text, Integer, Boolean or KeyValueList (object of strings) assets; the default for other robots when robotValues is given" },
+        username: { type: "string", description: "Credential username" },
+        password: { type: "string", description: "Credential password; never returned" },
+        description: { type: "string", description: "Asset description" },
+        robotValues: {
+          type: "array",
+          description: "Per-robot values, making the asset PerRobot",
+          items: {
+            type: "object",
+            properties: {
+              robotName: { type: "string" },
+              value: { type: ["string", "number", "boolean", "object"] },
+              username: { type: "string" },
+              password: { type: "string" },
+            },
+            required: ["robotName"],
+          },
+        },
+      },
+      required: ["name", "folderId", "valueType"],
+    },
+  },
+  {
+    name: "uipath_update_asset",
+    description: "Change an asset's value, per-robot values or description. Returns the before and after of non-secret fields; for credentials and sensitive assets only the names of changed secret fields are reported. A credential's username and password must be given together.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: { type: "string", description: "Name of the asset to change" },
+        assetId: { type: "number", description: "ID of the asset to change (instead of name)" },
+        folderId: { type: "number", description: "Folder ID where the asset exists" },
+        value: { type: ["string", "number", "boolean", "object"], description: "New value for Text, Integer, Boolean or KeyValueList assets" },
+        username: { type: "string", description: "New credential username" },
+        password: { type: "string", description: "New credential password; never returned" },
+        description: { type: "string", description: "New description" },
+        robotValues: {
+          type: "array",
+          description: "Per-robot values to set; merged with the existing ones",
+          items: {
+            type: "object",
+            properties: {
+              robotName: { type: "string" },
+              value: { type: ["string", "number", "boolean", "object"] },
+              username: { type: "string" },
+              password: { type: "string" },
+            },
+            required: ["robotName"],
+          },
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "uipath_delete_asset",
+    description: "Delete an asset from a folder.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: { type: "string", description: "Name of the asset to delete" },
+        assetId: { type: "number", description: "ID of the asset to delete (instead of name)" },
+        folderId: { type: "number", description: "Folder ID where the asset exists" },
       },
       required: [],
     },
   },
+  {
+    name: "uipath_compare_assets",
+    description: "Compare the assets of two folders by name, optionally across tenants of the organization: assets missing on either side, type mismatches and differing non-sensitive values. Use it to check that UAT and Production are configured consistently before a release.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        sourceFolderId: { type: "number", description: "Reference folder, e.g. UAT" },
+        targetFolderId: { type: "number", description: "Folder to check against it, e.g. Production" },
+        sourceTenantName: { type: "string", description: "Tenant of the source folder (default: the connected tenant)" },
+        targetTenantName: { type: "string", description: "Tenant of the target folder (default: the connected tenant)" },
+      },
+      required: ["sourceFolderId", "targetFolderId"],
+    },
+  },
 
   // Schedule tools
   {
@@ -516,6 +1492,8 @@ export const tools = [
         enabled: { type: "boolean", description: "Filter by enabled/disabled status" },
         limit: { type: "number", description: "Maximum items to return (default 50)" },
         skip: { type: "number", description: "Number of items to skip (default 0)" },
+        fetchAll: { type: "boolean", description: "Page through every matching record instead of returning a single page (default false)" },
+        maxItems: { type: "number", description: "Upper bound on records returned when fetchAll is true (default 1000)" },
       },
       required: [],
     },
@@ -535,6 +1513,8 @@ export const tools = [
         endTime: { type: "string", description: "Filter by end time (ISO 8601)" },
         limit: { type: "number", description: "Maximum items to return (default 50)" },
         skip: { type: "number", description: "Number of items to skip (default 0)" },
+        fetchAll: { type: "boolean", description: "Page through every matching record instead of returning a single page (default false)" },
+        maxItems: { type: "number", description: "Upper bound on records returned when fetchAll is true (default 1000)" },
       },
       required: [],
     },
@@ -556,9 +1536,57 @@ export const tools = [
       required: [],
     },
   },
+  {
+    name: "uipath_get_faulted_job_clusters",
+    description: "Group faulted jobs by error signature (exception type plus message with ids, timestamps, paths and numbers stripped). Returns each cluster's count, share, affected processes and machines, first/last seen and a representative example, largest first. Use to find the root causes behind many failures.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder ID to analyze" },
+        releaseName: { type: "string", description: "Only jobs of this process/release" },
+        startTime: { type: "string", description: "Only faulted jobs after this time (ISO 8601)" },
+        endTime: { type: "string", description: "Only faulted jobs before this time (ISO 8601)" },
+        maxJobs: { type: "number", description: "Upper bound on faulted jobs analyzed, newest first (default 500, max 5000)" },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "uipath_get_job_trends",
+    description: "Bucket jobs by hour, day or week over a date range. Each bucket has job counts by state, success rate and p50/p90/p99 durations, overall and per process. Use to chart volume and reliability over time.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        startTime: { type: "string", description: "Range start (ISO 8601); defaults to 7 days before endTime" },
+        endTime: { type: "string", description: "Range end (ISO 8601); defaults to now" },
+        granularity: { type: "string", enum: ["hour", "day", "week"], description: "Bucket size (default day); at most 500 buckets" },
+        releaseName: { type: "string", description: "Only jobs of this process/release" },
+        folderId: { type: "number", description: "Folder ID to analyze" },
+        maxJobs: { type: "number", description: "Upper bound on jobs fetched, newest first (default 5000)" },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "uipath_compare_job_periods",
+    description: "Compare job success rate and durations between two periods (default: the last 7 days vs the 7 days before), overall and per process, and flag statistically significant regressions (p < 0.05).",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        currentStart: { type: "string", description: "Current period start (ISO 8601); defaults to 7 days before currentEnd" },
+        currentEnd: { type: "string", description: "Current period end (ISO 8601); defaults to now" },
+        previousStart: { type: "string", description: "Previous period start; defaults to a period of equal length before currentStart" },
+        previousEnd: { type: "string", description: "Previous period end; defaults to currentStart" },
+        releaseName: { type: "string", description: "Only jobs of this process/release" },
+        folderId: { type: "number", description: "Folder ID to analyze" },
+        maxJobs: { type: "number", description: "Upper bound on jobs fetched per period (default 5000)" },
+      },
+      required: [],
+    },
+  },
   {
     name: "uipath_get_process_performance",
-    description: "Get performance analytics for a specific process/automation. Returns success rate, average execution duration, min/max times, and recent execution history.",
+    description: "Get performance analytics for a specific process/automation. Returns success rate, average/min/max and p50/p90/p95/p99 execution durations with standard deviation, Running jobs that exceed the historical p95 (likely hung), durations per host machine, and recent execution history.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -580,6 +1608,19 @@ export const tools = [
       required: ["folderId"],
     },
   },
+  {
+    name: "uipath_get_fleet_health",
+    description: "Per-machine fleet health joining robot sessions, machines, runtime licenses and running jobs: online state, unresponsive sessions, last report time, runtime slots vs executing count, license status and running jobs. Flags licensed machines that have been disconnected or unresponsive longer than staleAfterMinutes.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        folderId: { type: "number", description: "Folder scope for sessions and running jobs (license data is tenant-wide)" },
+        runtimeTypes: { type: "array", items: { type: "string", enum: [...RUNTIME_TYPES] }, description: "Runtime license types to read (default: Unattended)" },
+        staleAfterMinutes: { type: "number", description: "Minutes without a report before a licensed machine is flagged (default 10)" },
+      },
+      required: [],
+    },
+  },
 
   // Licensing & consumption stats tools
   {
@@ -666,6 +1707,31 @@ export const tools = [
       required: [],
     },
   },
+
+  // Generic query tools
+  {
+    name: "uipath_odata_query",
+    description: "Run a read-only OData query against an Orchestrator entity set not covered by a dedicated tool (Buckets, Calendars, Webhooks, Users, Roles, Environments, TestSets, ...). Supports $filter, $select, $expand, $orderby, $top and $skip.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        entitySet: {
+          type: "string",
+          enum: [...ODATA_QUERY_ENTITY_SETS],
+          description: "Orchestrator OData entity set to query",
+        },
+        folderId: { type: "number", description: "Folder ID to scope the query to" },
+        filter: { type: "string", description: "OData $filter expression, e.g. \"Name eq 'Invoices'\"" },
+        select: { type: "string", description: "Comma-separated fields for $select" },
+        expand: { type: "string", description: "Comma-separated navigation properties for $expand" },
+        orderBy: { type: "string", description: "OData $orderby expression, e.g. 'CreationTime desc'" },
+        top: { type: "number", description: "Maximum items to return (default 50, max 1000)" },
+        skip: { type: "number", description: "Number of items to skip" },
+        count: { type: "boolean", description: "Include the total count of matching records (default false)" },
+      },
+      required: ["entitySet"],
+    },
+  },
 ]
 
 /** MCP resource definitions (read-only URIs exposing Orchestrator data). */
@@ -694,6 +1760,12 @@ export const resources = [
     description: "List of all queue definitions in UiPath Orchestrator",
     mimeType: "application/json",
   },
+  {
+    uri: "uipath://queues/sla",
+    name: "Queue SLA Report",
+    description: "SLA and aging report for every queue in the default folder, most at-risk first (200 items sampled per queue)",
+    mimeType: "application/json",
+  },
   {
     uri: "uipath://jobs/recent",
     name: "Recent Jobs",
@@ -734,9 +1806,75 @@ export const resources = [
 
 type ToolArgs = Record<string, unknown> | undefined
 
-/** Normalize an error into a serializable object with message and type. */
+/** Per-call hooks supplied by the transport for long-running tools. */
+interface ToolContext {
+  onProgress?: (progress: number, total: number, message: string) => Promise<void>
+  signal?: AbortSignal
+}
+
+/** Release ID from an explicit ID or by looking the release up by name or key. */
+async function resolveReleaseId(
+  client: UiPathClient,
+  target: { releaseId?: number; processName?: string; folderId?: number }
+): Promise<number> {
+  if (target.releaseId !== undefined) {
+    return target.releaseId
+  }
+  const release = await client.findReleaseByNameOrKey(target.processName as string, target.folderId)
+  if (!release) {
+    throw new NotFoundError(`No release found for process: ${target.processName}`)
+  }
+  return release.Id
+}
+
+/** Asset ID from an explicit ID or by looking the asset up by name. */
+async function resolveAssetId(
+  client: UiPathClient,
+  target: { assetId?: number; name?: string; folderId?: number }
+): Promise<number> {
+  if (target.assetId !== undefined) {
+    return target.assetId
+  }
+  const asset = await client.getAssetByName(target.name as string, target.folderId)
+  if (!asset) {
+    throw new NotFoundError(`Asset not found: ${target.name}`)
+  }
+  return asset.Id
+}
+
+/**
+ * Normalize an error into a serializable object. UiPath errors carry their
+ * taxonomy code, HTTP status, Orchestrator errorCode, trace id and a
+ * remediation hint so the assistant can explain the failure.
+ */
 function formatError(error: unknown) {
   const message = error instanceof Error ? error.message : "Unknown error"
+  if (error instanceof UiPathError) {
+    return {
+      error: {
+        message,
+        type: "uipath_mcp_error",
+        code: error.code,
+        status: error.status,
+        errorCode: error.errorCode,
+        traceId: error.traceId,
+        missingScope: error instanceof PermissionError ? error.missingScope : undefined,
+        retryAfterMs: error instanceof RateLimitError ? error.retryAfterMs : undefined,
+        fieldErrors: error instanceof SchemaValidationError ? error.fieldErrors : undefined,
+        hint: error.hint,
+      },
+    }
+  }
+  if (error instanceof ZodError) {
+    return {
+      error: {
+        message: error.issues.map(issue => `${issue.path.join(".") || "arguments"}: ${issue.message}`).join("; "),
+        type: "uipath_mcp_error",
+        code: "invalid_arguments",
+        hint: "Check the tool's input schema and correct the listed arguments.",
+      },
+    }
+  }
   return { error: { message, type: "uipath_mcp_error" } }
 }
 
@@ -746,13 +1884,18 @@ function formatError(error: unknown) {
  * @param name - MCP tool name (e.g. "uipath_get_jobs").
  * @param args - Raw arguments from the MCP request.
  * @param client - Authenticated UiPath client instance.
+ * @param context - Progress reporting and cancellation for long-running tools.
  * @throws {Error} For unknown tool names or API failures.
  */
-async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
+async function executeTool(name: string, args: ToolArgs, client: UiPathClient, context: ToolContext = {}) {
   switch (name) {
     // Folder tools
     case "uipath_get_folders": {
       const parsed = schemas.getFolders.parse(args)
+      if (parsed.fetchAll) {
+        const { items: folders, truncated } = await collectUpTo(client.iterateFolders({ maxItems: parsed.maxItems + 1 }), parsed.maxItems)
+        return { folders, totalCount: folders.length, truncated }
+      }
       const { folders, count } = await client.getFolders({
         top: parsed.limit,
         skip: parsed.skip,
@@ -781,15 +1924,61 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
       return { machines, totalCount: count }
     }
 
+    case "uipath_set_robot_enabled": {
+      const parsed = schemas.setRobotEnabled.parse(args)
+      const robotId = parsed.robotId ?? (await client.getRobotsByName([parsed.robotName as string], parsed.folderId))[0].Id
+      return client.setRobotEnabled(robotId, parsed.enabled, { folderId: parsed.folderId, confirm: parsed.confirm })
+    }
+
+    case "uipath_update_machine_slots": {
+      const parsed = schemas.updateMachineSlots.parse(args)
+      const machineId = parsed.machineId ?? (await client.getMachinesByName([parsed.machineName as string]))[0].Id
+      return client.updateMachineSlots(machineId, {
+        UnattendedSlots: parsed.unattendedSlots,
+        NonProductionSlots: parsed.nonProductionSlots,
+        TestAutomationSlots: parsed.testAutomationSlots,
+        HeadlessSlots: parsed.headlessSlots,
+      }, { confirm: parsed.confirm })
+    }
+
+    case "uipath_assign_machines": {
+      const parsed = schemas.assignMachines.parse(args)
+      const machines = await client.getMachinesByName(parsed.machineNames)
+      return client.assignMachinesToFolder(parsed.folderId, machines, { confirm: parsed.confirm })
+    }
+
+    case "uipath_unassign_machines": {
+      const parsed = schemas.assignMachines.parse(args)
+      const machines = await client.getMachinesByName(parsed.machineNames)
+      return client.removeMachinesFromFolder(parsed.folderId, machines, { confirm: parsed.confirm })
+    }
+
+    case "uipath_delete_machine": {
+      const parsed = schemas.deleteMachine.parse(args)
+      const machineId = parsed.machineId ?? (await client.getMachinesByName([parsed.machineName as string]))[0].Id
+      return client.deleteMachine(machineId, { confirm: parsed.confirm })
+    }
+
     // Asset tools
     case "uipath_get_robot_asset": {
       const parsed = schemas.getRobotAsset.parse(args)
-      return client.getRobotAsset(parsed.robotId, parsed.assetName)
+      return maskAsset(await client.getRobotAsset(parsed.robotId, parsed.assetName))
     }
 
     // Log tools
     case "uipath_get_robot_logs": {
       const parsed = schemas.getRobotLogs.parse(args)
+      if (parsed.fetchAll) {
+        const { items: logs, truncated } = await collectUpTo(client.iterateRobotLogs({
+          folderId: parsed.folderId,
+          jobKey: parsed.jobKey,
+          startTime: parsed.startTime,
+          endTime: parsed.endTime,
+          level: parsed.level,
+          maxItems: parsed.maxItems + 1,
+        }), parsed.maxItems)
+        return { logs, totalCount: logs.length, truncated }
+      }
       const { logs, count } = await client.getRobotLogs({
         folderId: parsed.folderId,
         jobKey: parsed.jobKey,
@@ -808,6 +1997,43 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
       return client.getQueueDefinitions(parsed.folderId)
     }
 
+    case "uipath_create_queue": {
+      const parsed = schemas.createQueue.parse(args)
+      return client.createQueueDefinition(parsed.name, {
+        Description: parsed.description,
+        MaxNumberOfRetries: parsed.maxNumberOfRetries,
+        AcceptAutomaticallyRetry: parsed.acceptAutomaticallyRetry,
+        EnforceUniqueReference: parsed.enforceUniqueReference,
+        SpecificDataJsonSchema: parsed.specificDataJsonSchema && JSON.stringify(parsed.specificDataJsonSchema),
+      }, parsed.folderId)
+    }
+
+    case "uipath_update_queue": {
+      const parsed = schemas.updateQueue.parse(args)
+      const queue = await client.getQueueDefinitionByName(parsed.queueName, parsed.folderId)
+      if (!queue) {
+        throw new NotFoundError(`Queue not found: ${parsed.queueName}`)
+      }
+      return client.updateQueueDefinition(queue.Id, {
+        Name: parsed.newName,
+        Description: parsed.description,
+        MaxNumberOfRetries: parsed.maxNumberOfRetries,
+        AcceptAutomaticallyRetry: parsed.acceptAutomaticallyRetry,
+        EnforceUniqueReference: parsed.enforceUniqueReference,
+        SpecificDataJsonSchema: parsed.specificDataJsonSchema && JSON.stringify(parsed.specificDataJsonSchema),
+      }, parsed.folderId)
+    }
+
+    case "uipath_delete_queue": {
+      const parsed = schemas.deleteQueue.parse(args)
+      const queue = await client.getQueueDefinitionByName(parsed.queueName, parsed.folderId)
+      if (!queue) {
+        throw new NotFoundError(`Queue not found: ${parsed.queueName}`)
+      }
+      await client.deleteQueueDefinition(queue.Id, parsed.folderId)
+      return { success: true, message: `Queue ${queue.Name} (${queue.Id}) deleted` }
+    }
+
     case "uipath_get_queue_items": {
       const parsed = schemas.getQueueItems.parse(args)
       let queueId = parsed.queueId
@@ -816,11 +2042,21 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
       if (parsed.queueName && !queueId) {
         const queue = await client.getQueueDefinitionByName(parsed.queueName, parsed.folderId)
         if (!queue) {
-          throw new Error(`Queue not found: ${parsed.queueName}`)
+          throw new NotFoundError(`Queue not found: ${parsed.queueName}`)
         }
         queueId = queue.Id
       }
 
+      if (parsed.fetchAll) {
+        const { items, truncated } = await collectUpTo(client.iterateQueueItems({
+          queueId,
+          status: parsed.status as QueueItemStatus | undefined,
+          folderId: parsed.folderId,
+          maxItems: parsed.maxItems + 1,
+        }), parsed.maxItems)
+        return { items, totalCount: items.length, truncated }
+      }
+
       const { items, count } = await client.getQueueItems({
         queueId,
         status: parsed.status as QueueItemStatus | undefined,
@@ -830,6 +2066,11 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
       return { items, totalCount: count }
     }
 
+    case "uipath_get_queue_item_details": {
+      const parsed = schemas.getQueueItemDetails.parse(args)
+      return client.getQueueItemDetails(parsed.itemId, parsed.folderId)
+    }
+
     case "uipath_add_queue_item": {
       const parsed = schemas.addQueueItem.parse(args)
       return client.addQueueItem(parsed.queueName, parsed.data, {
@@ -839,11 +2080,74 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
       })
     }
 
+    case "uipath_bulk_add_queue_items": {
+      const parsed = schemas.bulkAddQueueItems.parse(args)
+      return client.bulkAddQueueItems(
+        parsed.queueName,
+        parsed.items.map(item => ({
+          SpecificContent: item.data,
+          Reference: item.reference,
+          Priority: item.priority,
+          DeferDate: item.deferDate,
+          DueDate: item.dueDate,
+        })),
+        { commitType: parsed.commitType, folderId: parsed.folderId }
+      )
+    }
+
+    case "uipath_retry_queue_items": {
+      const parsed = schemas.retryQueueItems.parse(args)
+      return client.retryQueueItems(parsed.itemIds, parsed.folderId)
+    }
+
+    case "uipath_delete_queue_items": {
+      const parsed = schemas.deleteQueueItems.parse(args)
+      return client.deleteQueueItems(parsed.itemIds, parsed.folderId)
+    }
+
+    case "uipath_update_queue_item": {
+      const parsed = schemas.updateQueueItem.parse(args)
+      return client.updateQueueItem(parsed.itemId, {
+        priority: parsed.priority,
+        deferDate: parsed.deferDate,
+        dueDate: parsed.dueDate,
+      }, parsed.folderId)
+    }
+
+    case "uipath_set_queue_item_review": {
+      const parsed = schemas.setQueueItemReview.parse(args)
+      const result: Record<string, unknown> = {}
+      if (parsed.reviewerUserId !== undefined) {
+        result.reviewer = await client.setQueueItemReviewer(parsed.itemIds, parsed.reviewerUserId, parsed.folderId)
+      }
+      if (parsed.reviewStatus) {
+        result.reviewStatus = await client.setQueueItemReviewStatus(parsed.itemIds, parsed.reviewStatus, parsed.folderId)
+      }
+      return result
+    }
+
+    case "uipath_get_queue_schema": {
+      const parsed = schemas.getQueueSchema.parse(args)
+      return client.getQueueSchema(parsed.queueName, parsed.folderId)
+    }
+
+    case "uipath_get_queue_sla_report": {
+      const parsed = schemas.getQueueSlaReport.parse(args)
+      if (!parsed.queueName) {
+        return client.getQueueSlaReports({ folderId: parsed.folderId, windowHours: parsed.windowHours })
+      }
+      const queue = await client.getQueueDefinitionByName(parsed.queueName, parsed.folderId)
+      if (!queue) {
+        throw new NotFoundError(`Queue not found: ${parsed.queueName}`)
+      }
+      return client.getQueueSlaReport(queue, { folderId: parsed.folderId, windowHours: parsed.windowHours })
+    }
+
     case "uipath_get_queue_stats": {
       const parsed = schemas.getQueueStats.parse(args)
       const queue = await client.getQueueDefinitionByName(parsed.queueName, parsed.folderId)
       if (!queue) {
-        throw new Error(`Queue not found: ${parsed.queueName}`)
+        throw new NotFoundError(`Queue not found: ${parsed.queueName}`)
       }
       return client.getQueueStats(queue.Id, queue.Name, parsed.folderId)
     }
@@ -851,9 +2155,22 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
     // Job tools
     case "uipath_get_jobs": {
       const parsed = schemas.getJobs.parse(args)
+      if (parsed.fetchAll) {
+        const { items: jobs, truncated } = await collectUpTo(client.iterateJobs({
+          state: parsed.state as JobState | undefined,
+          releaseName: parsed.releaseName,
+          startTime: parsed.startTime,
+          endTime: parsed.endTime,
+          folderId: parsed.folderId,
+          maxItems: parsed.maxItems + 1,
+        }), parsed.maxItems)
+        return { jobs, totalCount: jobs.length, truncated }
+      }
       const { jobs, count } = await client.getJobs({
         state: parsed.state as JobState | undefined,
         releaseName: parsed.releaseName,
+        startTime: parsed.startTime,
+        endTime: parsed.endTime,
         folderId: parsed.folderId,
         top: parsed.limit,
       })
@@ -865,20 +2182,85 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
       return client.getJobById(parsed.jobId, parsed.folderId)
     }
 
+    case "uipath_get_job_logs": {
+      const parsed = schemas.getJobLogs.parse(args)
+      return client.getJobLogs(parsed.jobId, {
+        folderId: parsed.folderId,
+        maxLines: parsed.maxLines,
+        collapse: parsed.collapse,
+      })
+    }
+
     case "uipath_start_job": {
       const parsed = schemas.startJob.parse(args)
 
       // Find the release key by process name
       const release = await client.findReleaseByNameOrKey(parsed.processName, parsed.folderId)
       if (!release) {
-        throw new Error(`No release found for process: ${parsed.processName}`)
+        throw new NotFoundError(`No release found for process: ${parsed.processName}`)
       }
 
-      return client.startJob(release.Key, {
-        inputArguments: parsed.inputArguments,
+      // Reject unknown, missing or mistyped arguments before anything is started
+      const inputArguments = client.prepareInputArguments(release, parsed.inputArguments)
+      const target = parsed.robotNames || parsed.machineNames || parsed.runtimeType
+        ? await client.resolveJobTarget({
+          robotNames: parsed.robotNames,
+          machineNames: parsed.machineNames,
+          runtimeType: parsed.runtimeType,
+          folderId: parsed.folderId,
+        })
+        : undefined
+      const jobs = await client.startJob(release.Key, {
+        inputArguments: parsed.inputArguments ? inputArguments : undefined,
         jobsCount: parsed.jobsCount,
+        priority: parsed.priority,
+        specificPriorityValue: parsed.specificPriorityValue,
+        runAsMe: parsed.runAsMe,
+        // A resolved target replaces manual pairs; the schema rejects passing both
+        machineRobots: target ? target.machineRobots : parsed.machineRobots?.map(pair => ({
+          MachineId: pair.machineId,
+          RobotId: pair.robotId,
+          SessionId: pair.sessionId,
+        })),
+        robotIds: target?.robotIds,
+        runtimeType: target?.runtimeType,
+        strategy: target?.strategy,
         folderId: parsed.folderId,
       })
+      if (!parsed.waitForCompletion) {
+        return target ? { target, jobs } : jobs
+      }
+
+      // Jobs run concurrently, so they share one deadline; progress is measured
+      // against it so it keeps increasing from one job to the next
+      const timeoutMs = parsed.timeoutSeconds * 1000
+      const deadline = Date.now() + timeoutMs
+      const results = []
+      for (const job of jobs) {
+        results.push(await client.waitForJob(job.Id, {
+          folderId: parsed.folderId,
+          timeoutMs: Math.max(0, deadline - Date.now()),
+          signal: context.signal,
+          onPoll: current => {
+            const elapsedMs = timeoutMs - (deadline - Date.now())
+            return context.onProgress?.(
+              elapsedMs / 1000,
+              parsed.timeoutSeconds,
+              `Job ${current.Id} is ${current.State} (${Math.round(elapsedMs / 1000)}s elapsed)`
+            )
+          },
+        }))
+      }
+      return target ? { target, jobs: results } : results
+    }
+
+    case "uipath_get_process_arguments": {
+      const parsed = schemas.getProcessArguments.parse(args)
+      const release = await client.findReleaseByNameOrKey(parsed.processName, parsed.folderId)
+      if (!release) {
+        throw new NotFoundError(`No release found for process: ${parsed.processName}`)
+      }
+      return client.getProcessArguments(release)
     }
 
     case "uipath_stop_job": {
@@ -887,6 +2269,34 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
       return { success: true, message: `Job ${parsed.jobId} stop requested` }
     }
 
+    case "uipath_stop_jobs": {
+      const parsed = schemas.stopJobs.parse(args)
+      let jobIds = parsed.jobIds ?? []
+      if (parsed.releaseName) {
+        const jobs = await collect(client.iterateJobs({
+          releaseName: parsed.releaseName,
+          state: parsed.state,
+          folderId: parsed.folderId,
+          maxItems: parsed.maxJobs,
+        }))
+        if (jobs.length === 0) {
+          return { succeeded: [], failed: [], message: `No ${parsed.state} jobs found for ${parsed.releaseName}` }
+        }
+        jobIds = jobs.map(job => job.Id)
+      }
+      return client.stopJobs(jobIds, parsed.force ? "Kill" : "SoftStop", parsed.folderId)
+    }
+
+    case "uipath_restart_job": {
+      const parsed = schemas.restartJob.parse(args)
+      return client.restartJob(parsed.jobId, parsed.folderId)
+    }
+
+    case "uipath_resume_jobs": {
+      const parsed = schemas.resumeJobs.parse(args)
+      return client.resumeJobs(parsed.jobIds, parsed.folderId)
+    }
+
     case "uipath_get_job_stats": {
       const parsed = schemas.getJobStats.parse(args)
       return client.getJobStats(parsed.folderId)
@@ -898,6 +2308,40 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
       return client.getReleases(parsed.processKey, parsed.folderId)
     }
 
+    case "uipath_get_package_catalog": {
+      const parsed = schemas.getPackageCatalog.parse(args)
+      return client.getPackageCatalog(parsed)
+    }
+
+    case "uipath_get_package_entry_points": {
+      const parsed = schemas.getPackageEntryPoints.parse(args)
+      return client.getPackageEntryPoints(parsed.packageId, parsed.version)
+    }
+
+    case "uipath_set_release_version": {
+      const parsed = schemas.setReleaseVersion.parse(args)
+      return client.setReleaseVersion(await resolveReleaseId(client, parsed), parsed.version, parsed.folderId)
+    }
+
+    case "uipath_create_release": {
+      const parsed = schemas.createRelease.parse(args)
+      const { packageId, ...options } = parsed
+      return client.createRelease(packageId, options)
+    }
+
+    case "uipath_update_release": {
+      const parsed = schemas.updateRelease.parse(args)
+      return client.updateRelease(await resolveReleaseId(client, parsed), parsed)
+    }
+
+    case "uipath_delete_release": {
+      const parsed = schemas.deleteRelease.parse(args)
+      return client.deleteRelease(await resolveReleaseId(client, parsed), {
+        folderId: parsed.folderId,
+        dryRun: parsed.dryRun,
+      })
+    }
+
     // Dashboard tools
     case "uipath_get_dashboard_summary": {
       const parsed = schemas.getDashboardSummary.parse(args)
@@ -907,6 +2351,14 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
     // Session tools
     case "uipath_get_sessions": {
       const parsed = schemas.getSessions.parse(args)
+      if (parsed.fetchAll) {
+        const { items: sessions, truncated } = await collectUpTo(client.iterateSessions({
+          folderId: parsed.folderId,
+          state: parsed.state,
+          maxItems: parsed.maxItems + 1,
+        }), parsed.maxItems)
+        return { sessions, totalCount: sessions.length, truncated }
+      }
       const { sessions, count } = await client.getSessions({
         folderId: parsed.folderId,
         state: parsed.state,
@@ -919,17 +2371,57 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
     // Asset tools
     case "uipath_get_assets": {
       const parsed = schemas.getAssets.parse(args)
+      if (parsed.fetchAll) {
+        const { items: assets, truncated } = await collectUpTo(client.iterateAssets({
+          folderId: parsed.folderId,
+          maxItems: parsed.maxItems + 1,
+        }), parsed.maxItems)
+        return { assets: assets.map(maskAsset), totalCount: assets.length, truncated }
+      }
       const { assets, count } = await client.getAssets({
         folderId: parsed.folderId,
         top: parsed.limit,
         skip: parsed.skip,
       })
-      return { assets, totalCount: count }
+      return { assets: assets.map(maskAsset), totalCount: count }
+    }
+
+    case "uipath_create_asset": {
+      const parsed = schemas.createAsset.parse(args)
+      const { name, ...options } = parsed
+      return client.createAsset(name, options)
+    }
+
+    case "uipath_update_asset": {
+      const parsed = schemas.updateAsset.parse(args)
+      return client.updateAsset(await resolveAssetId(client, parsed), parsed)
+    }
+
+    case "uipath_delete_asset": {
+      const parsed = schemas.deleteAsset.parse(args)
+      const asset = await client.deleteAsset(await resolveAssetId(client, parsed), { folderId: parsed.folderId })
+      return { deleted: true, asset }
+    }
+
+    case "uipath_compare_assets": {
+      const parsed = schemas.compareAssets.parse(args)
+      return client.compareAssets(parsed.sourceFolderId, parsed.targetFolderId, {
+        sourceTenantName: parsed.sourceTenantName,
+        targetTenantName: parsed.targetTenantName,
+      })
     }
 
     // Schedule tools
     case "uipath_get_schedules": {
       const parsed = schemas.getProcessSchedules.parse(args)
+      if (parsed.fetchAll) {
+        const { items: schedules, truncated } = await collectUpTo(client.iterateProcessSchedules({
+          folderId: parsed.folderId,
+          enabled: parsed.enabled,
+          maxItems: parsed.maxItems + 1,
+        }), parsed.maxItems)
+        return { schedules, totalCount: schedules.length, truncated }
+      }
       const { schedules, count } = await client.getProcessSchedules({
         folderId: parsed.folderId,
         enabled: parsed.enabled,
@@ -942,6 +2434,17 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
     // Audit log tools
     case "uipath_get_audit_logs": {
       const parsed = schemas.getAuditLogs.parse(args)
+      if (parsed.fetchAll) {
+        const { items: logs, truncated } = await collectUpTo(client.iterateAuditLogs({
+          action: parsed.action,
+          userName: parsed.userName,
+          component: parsed.component,
+          startTime: parsed.startTime,
+          endTime: parsed.endTime,
+          maxItems: parsed.maxItems + 1,
+        }), parsed.maxItems)
+        return { logs, totalCount: logs.length, truncated }
+      }
       const { logs, count } = await client.getAuditLogs({
         action: parsed.action,
         userName: parsed.userName,
@@ -966,6 +2469,27 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
       })
     }
 
+    case "uipath_get_faulted_job_clusters": {
+      const parsed = schemas.getFaultedJobClusters.parse(args)
+      return client.getFaultedJobClusters({
+        folderId: parsed.folderId,
+        releaseName: parsed.releaseName,
+        startTime: parsed.startTime,
+        endTime: parsed.endTime,
+        maxJobs: parsed.maxJobs,
+      })
+    }
+
+    case "uipath_get_job_trends": {
+      const parsed = schemas.getJobTrends.parse(args)
+      return client.getJobTrends(parsed)
+    }
+
+    case "uipath_compare_job_periods": {
+      const parsed = schemas.compareJobPeriods.parse(args)
+      return client.compareJobPeriods(parsed)
+    }
+
     case "uipath_get_process_performance": {
       const parsed = schemas.getProcessPerformance.parse(args)
       return client.getProcessPerformance(parsed.processName, {
@@ -979,6 +2503,11 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
       return client.getFolderOverview(parsed.folderId)
     }
 
+    case "uipath_get_fleet_health": {
+      const parsed = schemas.getFleetHealth.parse(args)
+      return client.getFleetHealth(parsed)
+    }
+
     // Licensing & consumption stats tools
     case "uipath_get_consumption_license_stats": {
       const parsed = schemas.getConsumptionLicenseStats.parse(args)
@@ -1010,6 +2539,22 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
       return client.getSessionsStats()
     }
 
+    // Generic query tools
+    case "uipath_odata_query": {
+      const parsed = schemas.odataQuery.parse(args)
+      const { items, count } = await client.queryEntitySet(parsed.entitySet, {
+        filter: parsed.filter,
+        select: parsed.select,
+        expand: parsed.expand,
+        orderBy: parsed.orderBy,
+        top: parsed.top,
+        skip: parsed.skip,
+        count: parsed.count,
+        folderId: parsed.folderId,
+      })
+      return { entitySet: parsed.entitySet, items, totalCount: count }
+    }
+
     default:
       throw new Error(`Unknown tool: ${name}`)
   }
@@ -1018,9 +2563,13 @@ async function executeTool(name: string, args: ToolArgs, client: UiPathClient) {
 /**
  * Create and configure the MCP server with tool and resource handlers.
  * @param client - Authenticated UiPath client to back all operations.
+ * @param redaction - Secrets to strip from tool results and resources (default: from the environment).
  * @returns Configured MCP Server instance (not yet connected to a transport).
  */
-export function createServer(client: UiPathClient) {
+export function createServer(
+  client: UiPathClient,
+  redaction: RedactionPolicy = resolveRedactionPolicy(loadRedactionConfig())
+) {
   const server = new Server(
     {
       name: "uipath-mcp-server",
@@ -1064,10 +2613,14 @@ export function createServer(client: UiPathClient) {
         case "uipath://queues":
           content = await client.getQueueDefinitions()
           break
-        case "uipath://jobs/recent":
+        case "uipath://queues/sla":
+          content = await client.getQueueSlaReports({ maxItems: SLA_RESOURCE_MAX_ITEMS })
+          break
+        case "uipath://jobs/recent": {
           const { jobs } = await client.getJobs({ top: 20 })
           content = jobs
           break
+        }
         case "uipath://releases":
           content = await client.getReleases()
           break
@@ -1079,6 +2632,7 @@ export function createServer(client: UiPathClient) {
           break
         case "uipath://assets":
           content = await client.getAssets({ top: 100 })
+            .then(({ assets, count }) => ({ assets: assets.map(maskAsset), count }))
           break
         case "uipath://schedules":
           content = await client.getProcessSchedules({ top: 100 })
@@ -1092,28 +2646,37 @@ export function createServer(client: UiPathClient) {
           {
             uri,
             mimeType: "application/json",
-            text: JSON.stringify(content, null, 2),
+            text: JSON.stringify(redact(content, redaction), null, 2),
           },
         ],
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error"
-      throw new Error(`Failed to read resource ${uri}: ${message}`)
+      throw new Error(`Failed to read resource ${uri}: ${redact(message, redaction)}`)
     }
   })
 
   // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params
+    const progressToken = request.params._meta?.progressToken
 
     try {
-      const result = await executeTool(name, args, client)
+      const result = await executeTool(name, args, client, {
+        signal: extra.signal,
+        onProgress: progressToken === undefined
+          ? undefined
+          : (progress, total, message) => extra.sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, progress, total, message },
+            }),
+      })
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(redact(result, redaction), null, 2),
           },
         ],
       }
@@ -1122,7 +2685,7 @@ export function createServer(client: UiPathClient) {
         content: [
           {
             type: "text",
-            text: JSON.stringify(formatError(error)),
+            text: JSON.stringify(redact(formatError(error), redaction)),
           },
         ],
         isError: true,
@@ -1143,6 +2706,7 @@ function generateSessionId(): string {
 async function main() {
   // Check if running in SSE mode (via environment variable or argument)
   const isSSE = process.env.MCP_TRANSPORT === "sse" || process.argv.includes("--sse")
+  const redaction = resolveRedactionPolicy(loadRedactionConfig())
 
   if (isSSE) {
     const app = express()
@@ -1187,11 +2751,18 @@ async function main() {
         const toolName = req.params.toolName
         const args = (req.body && (req.body.arguments as ToolArgs)) || (req.body as ToolArgs)
         const result = await executeTool(toolName, args, client)
-        res.json(result)
+        res.json(redact(result, redaction))
       } catch (error) {
         const message = error instanceof Error ? error.message : "Unknown error"
-        const status = message.includes("Missing UiPath credentials") ? 401 : 500
-        res.status(status).json(formatError(error))
+        let status = 500
+        if (message.includes("Missing UiPath credentials")) {
+          status = 401
+        } else if (error instanceof ZodError) {
+          status = 400
+        } else if (error instanceof UiPathError && error.status) {
+          status = error.status
+        }
+        res.status(status).json(redact(formatError(error), redaction))
       }
     })
 
@@ -1228,7 +2799,7 @@ async function main() {
 
       const sessionId = generateSessionId()
       const client = new UiPathClient(config)
-      const server = createServer(client)
+      const server = createServer(client, redaction)
       const transport = new SSEServerTransport(`/messages?sessionId=${sessionId}`, res)
 
       // Store session with transport
@@ -1272,7 +2843,7 @@ async function main() {
     // Default to stdio - uses environment variables
     const config = loadConfig()
     const client = new UiPathClient(config)
-    const server = createServer(client)
+    const server = createServer(client, redaction)
     const transport = new StdioServerTransport()
     await server.connect(transport)
     console.error("UiPath MCP Server running on stdio")
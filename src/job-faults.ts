@@ -0,0 +1,102 @@
+import { parseJobError } from "./job-logs.js"
+import type { FaultedJobCluster, Job } from "./types.js"
+
+/**
+ * Grouping of faulted jobs by the shape of their error, so that many failures
+ * with the same cause (a selector timeout, a missing file) read as one cluster
+ * rather than as a long list of slightly different messages.
+ */
+
+const VOLATILE_PATTERNS: Array<[RegExp, string]> = [
+  [/\bhttps?:\/\/\S+/gi, "<url>"],
+  [/[\w.+-]+@[\w-]+\.[\w.-]+/g, "<email>"],
+  [/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<id>"],
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g, "<time>"],
+  [/\b\d{1,4}[./-]\d{1,2}[./-]\d{2,4}( \d{1,2}:\d{2}(:\d{2})?( ?[AP]M)?)?/gi, "<time>"],
+  [/\b\d{1,2}:\d{2}(:\d{2})?\b/g, "<time>"],
+  // Windows drive and UNC paths, then Unix paths with at least two segments
+  [/(?:[a-z]:|\\\\[\w.$-]+)(?:\\[^\\\s"'<>|:]+)+\\?/gi, "<path>"],
+  [/(?:\/[\w.-]+){2,}\/?/g, "<path>"],
+  [/\b0x[0-9a-f]+\b/gi, "<hex>"],
+  [/\b\d+(\.\d+)?\b/g, "#"],
+]
+
+/**
+ * Reduce an error message to its signature: the first meaningful line with
+ * ids, timestamps, paths, URLs and numbers replaced by placeholders.
+ */
+export function normalizeErrorMessage(message: string): string {
+  let text = message.split(/\r?\n/).find(line => line.trim()) ?? ""
+  for (const [pattern, placeholder] of VOLATILE_PATTERNS) {
+    text = text.replace(pattern, placeholder)
+  }
+  return text.replace(/\s+/g, " ").trim().slice(0, 300)
+}
+
+function increment(counts: Map<string, number>, key: string | null | undefined): void {
+  const name = key || "(unknown)"
+  counts.set(name, (counts.get(name) ?? 0) + 1)
+}
+
+function ranked(counts: Map<string, number>): Array<{ name: string; count: number }> {
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+}
+
+/**
+ * Cluster faulted jobs by exception type and normalized message, largest
+ * cluster first. The representative example is the most recent job.
+ */
+export function clusterFaultedJobs(jobs: Job[]): FaultedJobCluster[] {
+  const groups = new Map<string, {
+    exceptionType: string | null
+    message: string
+    jobs: Job[]
+    processes: Map<string, number>
+    machines: Map<string, number>
+  }>()
+
+  for (const job of jobs) {
+    const error = parseJobError(job.JobError) ?? parseJobError(job.Info)
+    const exceptionType = error?.exceptionType ?? null
+    const message = normalizeErrorMessage(error?.message || "(no error message)")
+    const signature = exceptionType ? `${exceptionType}: ${message}` : message
+
+    let group = groups.get(signature)
+    if (!group) {
+      group = { exceptionType, message, jobs: [], processes: new Map(), machines: new Map() }
+      groups.set(signature, group)
+    }
+    group.jobs.push(job)
+    increment(group.processes, job.ReleaseName)
+    increment(group.machines, job.HostMachineName)
+  }
+
+  const seenAt = (job: Job) => job.EndTime ?? job.StartTime ?? job.CreationTime
+  return [...groups.entries()]
+    .map(([signature, group]) => {
+      const times = group.jobs.map(seenAt).sort()
+      const latest = group.jobs.reduce((a, b) => (seenAt(b) > seenAt(a) ? b : a))
+      return {
+        signature,
+        exceptionType: group.exceptionType,
+        count: group.jobs.length,
+        percentage: Math.round((group.jobs.length / jobs.length) * 1000) / 10,
+        processes: ranked(group.processes),
+        machines: ranked(group.machines),
+        firstSeen: times[0],
+        lastSeen: times[times.length - 1],
+        jobIds: group.jobs.map(job => job.Id).slice(0, 20),
+        example: {
+          jobId: latest.Id,
+          jobKey: latest.Key,
+          releaseName: latest.ReleaseName,
+          hostMachineName: latest.HostMachineName,
+          time: seenAt(latest),
+          error: (latest.JobError || latest.Info || "").slice(0, 2000),
+        },
+      }
+    })
+    .sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen))
+}
@@ -0,0 +1,74 @@
+import type { JobErrorDetails, JobLogLine, RobotLog } from "./types.js"
+
+/**
+ * Condensing of a job's robot log for diagnosis: repeated lines (loops that log
+ * the same message with a changing counter or ID) are folded into one entry,
+ * and the exception behind a fault is pulled out of the job's error text.
+ */
+
+const ERROR_LEVELS = new Set(["Error", "Fatal"])
+
+/** Messages that differ only in numbers, GUIDs or timestamps count as the same line. */
+function template(message: string): string {
+  return message
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<id>")
+    .replace(/\d+([.:,/-]\d+)*/g, "#")
+}
+
+/**
+ * Fold consecutive log lines with the same level and message template into one
+ * entry carrying a repeat count. Logs must already be in chronological order.
+ */
+export function collapseLogLines(logs: RobotLog[]): JobLogLine[] {
+  const lines: JobLogLine[] = []
+  let previousKey: string | undefined
+  for (const log of logs) {
+    const key = `${log.Level}|${template(log.Message ?? "")}`
+    const last = lines[lines.length - 1]
+    if (last && key === previousKey) {
+      last.repeat++
+      last.lastTimeStamp = log.TimeStamp
+      continue
+    }
+    lines.push({ timeStamp: log.TimeStamp, level: log.Level, message: log.Message ?? "", repeat: 1 })
+    previousKey = key
+  }
+  return lines
+}
+
+/** The first Error or Fatal line, or null when the job logged none. */
+export function findFirstError(logs: RobotLog[]): JobLogLine | null {
+  const log = logs.find(entry => ERROR_LEVELS.has(entry.Level))
+  return log ? { timeStamp: log.TimeStamp, level: log.Level, message: log.Message ?? "", repeat: 1 } : null
+}
+
+/**
+ * Split a job's error text into exception type, message and stack frames.
+ * Orchestrator reports either plain "Type: message\n   at ..." text or a JSON
+ * object with Title/Details; both are accepted.
+ */
+export function parseJobError(text: string | null | undefined): JobErrorDetails | null {
+  if (!text || !text.trim()) return null
+
+  let body = text
+  try {
+    const parsed = JSON.parse(text)
+    if (parsed && typeof parsed === "object") {
+      body = [parsed.Title, parsed.Details].filter(part => typeof part === "string" && part).join("\n") || text
+    }
+  } catch {
+    // Plain text
+  }
+
+  const lines = body.split(/\r?\n/)
+  const stack = lines.filter(line => /^\s*at /.test(line)).map(line => line.trim())
+  const messageLines = lines.filter(line => !/^\s*at /.test(line) && line.trim() && !/^\s*---/.test(line))
+  const first = messageLines[0]?.trim() ?? ""
+  const match = /^([\w.`]+(?:Exception|Error))\s*:\s*(.*)$/.exec(first)
+
+  return {
+    exceptionType: match ? match[1] : null,
+    message: (match ? [match[2], ...messageLines.slice(1)] : messageLines).map(line => line.trim()).join("\n").trim(),
+    stack,
+  }
+}
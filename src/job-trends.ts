@@ -0,0 +1,220 @@
+import type {
+  Job,
+  JobPeriodStats,
+  JobState,
+  JobTrendBucket,
+  ProcessPeriodComparison,
+  TrendGranularity,
+} from "./types.js"
+
+/**
+ * Time-bucketed job statistics and period-over-period comparison. Buckets are
+ * aligned to UTC hours, days and ISO weeks (starting Monday) and keyed by job
+ * creation time, matching the CreationTime filter used to fetch the jobs.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const BUCKET_MS: Record<TrendGranularity, number> = { hour: HOUR_MS, day: 24 * HOUR_MS, week: 7 * 24 * HOUR_MS }
+
+/** Significance level for flagging regressions. */
+const ALPHA = 0.05
+/** Minimum completed jobs per period before a difference is tested. */
+const MIN_SAMPLE = 5
+
+/** Start of the UTC bucket containing `time`. */
+export function bucketStart(time: number, granularity: TrendGranularity): number {
+  const date = new Date(time)
+  if (granularity === "hour") {
+    date.setUTCMinutes(0, 0, 0)
+  } else {
+    date.setUTCHours(0, 0, 0, 0)
+    if (granularity === "week") {
+      date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7))
+    }
+  }
+  return date.getTime()
+}
+
+/** Number of buckets between two times, for checking a range before fetching. */
+export function countBuckets(start: number, end: number, granularity: TrendGranularity): number {
+  return Math.floor((bucketStart(end, granularity) - bucketStart(start, granularity)) / BUCKET_MS[granularity]) + 1
+}
+
+/** Percentile by linear interpolation between closest ranks; null for no values. */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+/** Whole seconds between two timestamps; null when either is missing or unparseable. */
+export function computeDuration(startTime: string | null, endTime: string | null): number | null {
+  if (!startTime || !endTime) return null
+  const start = new Date(startTime).getTime()
+  const end = new Date(endTime).getTime()
+  if (isNaN(start) || isNaN(end)) return null
+  return Math.round((end - start) / 1000)
+}
+
+/** Durations of successful jobs, the ones comparable run to run. */
+function successfulDurations(jobs: Job[]): number[] {
+  return jobs
+    .filter(job => job.State === "Successful")
+    .map(job => computeDuration(job.StartTime, job.EndTime))
+    .filter((d): d is number => d !== null)
+}
+
+const round = (value: number | null) => (value === null ? null : Math.round(value))
+
+/** State counts, success rate and duration percentiles for a set of jobs. */
+export function summarizeJobs(jobs: Job[]): JobPeriodStats {
+  const states: Partial<Record<JobState, number>> = {}
+  for (const job of jobs) {
+    states[job.State] = (states[job.State] ?? 0) + 1
+  }
+  const successful = states.Successful ?? 0
+  const completed = successful + (states.Faulted ?? 0)
+  const durations = successfulDurations(jobs)
+  return {
+    total: jobs.length,
+    states,
+    successRate: completed > 0 ? Math.round((successful / completed) * 1000) / 10 : null,
+    p50DurationSeconds: round(percentile(durations, 50)),
+    p90DurationSeconds: round(percentile(durations, 90)),
+    p99DurationSeconds: round(percentile(durations, 99)),
+  }
+}
+
+export function groupByProcess(jobs: Job[]): Map<string, Job[]> {
+  const groups = new Map<string, Job[]>()
+  for (const job of jobs) {
+    const group = groups.get(job.ReleaseName)
+    if (group) group.push(job)
+    else groups.set(job.ReleaseName, [job])
+  }
+  return groups
+}
+
+/**
+ * Split jobs into consecutive buckets covering [start, end], including empty
+ * ones, each with overall and per-process statistics.
+ */
+export function buildTrendBuckets(jobs: Job[], start: number, end: number, granularity: TrendGranularity): JobTrendBucket[] {
+  const byBucket = new Map<number, Job[]>()
+  for (const job of jobs) {
+    const key = bucketStart(Date.parse(job.CreationTime), granularity)
+    const group = byBucket.get(key)
+    if (group) group.push(job)
+    else byBucket.set(key, [job])
+  }
+
+  const buckets: JobTrendBucket[] = []
+  for (let time = bucketStart(start, granularity); time <= end; time = nextBucket(time, granularity)) {
+    const bucketJobs = byBucket.get(time) ?? []
+    buckets.push({
+      start: new Date(time).toISOString(),
+      end: new Date(nextBucket(time, granularity)).toISOString(),
+      ...summarizeJobs(bucketJobs),
+      processes: [...groupByProcess(bucketJobs).entries()]
+        .map(([processName, processJobs]) => ({ processName, ...summarizeJobs(processJobs) }))
+        .sort((a, b) => b.total - a.total),
+    })
+  }
+  return buckets
+}
+
+function nextBucket(time: number, granularity: TrendGranularity): number {
+  // UTC has no daylight saving shifts, so buckets have a fixed length
+  return time + BUCKET_MS[granularity]
+}
+
+/** Standard normal CDF (Abramowitz and Stegun 7.1.26, error < 1.5e-7). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+const twoSided = (z: number) => 2 * (1 - normalCdf(Math.abs(z)))
+
+/** Two-proportion z-test; null when either sample is too small or there is no variance. */
+export function proportionPValue(successA: number, totalA: number, successB: number, totalB: number): number | null {
+  if (totalA < MIN_SAMPLE || totalB < MIN_SAMPLE) return null
+  const pooled = (successA + successB) / (totalA + totalB)
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB))
+  if (se === 0) return null
+  return twoSided((successA / totalA - successB / totalB) / se)
+}
+
+/**
+ * Mann-Whitney U test (normal approximation, average ranks for ties), which
+ * suits skewed duration distributions better than a t-test.
+ */
+export function rankSumPValue(a: number[], b: number[]): number | null {
+  if (a.length < MIN_SAMPLE || b.length < MIN_SAMPLE) return null
+  const all = [...a.map(value => ({ value, first: true })), ...b.map(value => ({ value, first: false }))]
+    .sort((x, y) => x.value - y.value)
+  let rankSumA = 0
+  for (let i = 0; i < all.length;) {
+    let j = i
+    while (j + 1 < all.length && all[j + 1].value === all[i].value) j++
+    const averageRank = (i + j) / 2 + 1
+    for (let k = i; k <= j; k++) {
+      if (all[k].first) rankSumA += averageRank
+    }
+    i = j + 1
+  }
+  const u = rankSumA - (a.length * (a.length + 1)) / 2
+  const mean = (a.length * b.length) / 2
+  const sd = Math.sqrt((a.length * b.length * (a.length + b.length + 1)) / 12)
+  return sd === 0 ? null : twoSided((u - mean) / sd)
+}
+
+const roundP = (p: number | null) => (p === null ? null : Math.round(p * 10000) / 10000)
+
+/**
+ * Compare one process (or all jobs) across two periods and flag changes for
+ * the worse that are significant at the 5% level: a lower success rate or
+ * longer successful-run durations.
+ */
+export function comparePeriods(processName: string, current: Job[], previous: Job[]): ProcessPeriodComparison {
+  const currentStats = summarizeJobs(current)
+  const previousStats = summarizeJobs(previous)
+  const completed = (stats: JobPeriodStats) => (stats.states.Successful ?? 0) + (stats.states.Faulted ?? 0)
+
+  const successRatePValue = proportionPValue(
+    currentStats.states.Successful ?? 0, completed(currentStats),
+    previousStats.states.Successful ?? 0, completed(previousStats)
+  )
+  const durationPValue = rankSumPValue(successfulDurations(current), successfulDurations(previous))
+
+  const successRateChange = currentStats.successRate !== null && previousStats.successRate !== null
+    ? Math.round((currentStats.successRate - previousStats.successRate) * 10) / 10
+    : null
+  const p50DurationChangePercent = currentStats.p50DurationSeconds !== null && previousStats.p50DurationSeconds
+    ? Math.round(((currentStats.p50DurationSeconds - previousStats.p50DurationSeconds) / previousStats.p50DurationSeconds) * 1000) / 10
+    : null
+
+  const regressions: string[] = []
+  if (successRatePValue !== null && successRatePValue < ALPHA && successRateChange !== null && successRateChange < 0) {
+    regressions.push(`Success rate fell from ${previousStats.successRate}% to ${currentStats.successRate}% (p=${roundP(successRatePValue)})`)
+  }
+  if (durationPValue !== null && durationPValue < ALPHA && p50DurationChangePercent !== null && p50DurationChangePercent > 0) {
+    regressions.push(`Median duration rose from ${previousStats.p50DurationSeconds}s to ${currentStats.p50DurationSeconds}s (p=${roundP(durationPValue)})`)
+  }
+
+  return {
+    processName,
+    current: currentStats,
+    previous: previousStats,
+    successRateChange,
+    p50DurationChangePercent,
+    successRatePValue: roundP(successRatePValue),
+    durationPValue: roundP(durationPValue),
+    regressions,
+  }
+}
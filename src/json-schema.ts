@@ -0,0 +1,65 @@
+import AjvModule from "ajv"
+import addFormatsModule from "ajv-formats"
+import type { ErrorObject, ValidateFunction } from "ajv"
+
+/**
+ * JSON Schema validation for payloads that Orchestrator validates only after
+ * the fact (queue item SpecificContent), so the assistant gets field-level
+ * errors before anything is sent.
+ */
+
+// ajv and ajv-formats are CommonJS; under NodeNext the default export is nested
+const Ajv = AjvModule.default
+const addFormats = addFormatsModule.default
+
+export interface FieldError {
+  /** Dotted path of the offending field ("" for the payload itself). */
+  field: string
+  message: string
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false })
+addFormats(ajv)
+
+const compiled = new Map<string, ValidateFunction>()
+
+/**
+ * Compile a schema from its JSON text, caching by text. Orchestrator schemas
+ * often declare draft-04 in `$schema`, which Ajv does not load; the
+ * declaration is dropped and the keywords are checked with the default draft.
+ * @returns The validator, or null when the text is not a usable schema.
+ */
+export function compileSchema(schemaText: string): ValidateFunction | null {
+  const cached = compiled.get(schemaText)
+  if (cached) return cached
+  try {
+    const schema = JSON.parse(schemaText)
+    if (!schema || typeof schema !== "object" || Array.isArray(schema)) return null
+    delete schema.$schema
+    delete schema.id
+    const validate = ajv.compile(schema)
+    compiled.set(schemaText, validate)
+    return validate
+  } catch {
+    return null
+  }
+}
+
+function toFieldError(error: ErrorObject): FieldError {
+  const segments = error.instancePath.split("/").slice(1).map(s => s.replace(/~1/g, "/").replace(/~0/g, "~"))
+  if (error.keyword === "required") {
+    segments.push(String(error.params.missingProperty))
+  } else if (error.keyword === "additionalProperties") {
+    segments.push(String(error.params.additionalProperty))
+  }
+  return { field: segments.join("."), message: error.message ?? "is invalid" }
+}
+
+/**
+ * Validate a value against a compiled schema.
+ * @returns Field errors; an empty array when the value is valid.
+ */
+export function validateAgainst(validate: ValidateFunction, value: unknown): FieldError[] {
+  if (validate(value)) return []
+  return (validate.errors ?? []).map(toFieldError)
+}
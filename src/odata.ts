@@ -0,0 +1,284 @@
+import { ValidationError } from "./errors.js"
+
+/**
+ * Typed builder for OData query options used against the Orchestrator API.
+ *
+ * Filters are composed from small helpers (`eq`, `and`, `contains`, ...) that
+ * quote and escape literals consistently, so callers never concatenate raw
+ * user input into a `$filter` clause. Percent-encoding is left to the HTTP
+ * layer: the strings produced here are the decoded query option values.
+ */
+
+/** A raw OData literal that is emitted verbatim (e.g. a DateTimeOffset). */
+export class ODataLiteral {
+  constructor(readonly text: string) {}
+
+  toString(): string {
+    return this.text
+  }
+}
+
+/** A composed boolean `$filter` expression. */
+export class ODataFilter {
+  constructor(readonly expression: string) {}
+
+  toString(): string {
+    return this.expression
+  }
+}
+
+export type ODataValue = string | number | boolean | null | Date | ODataLiteral
+
+export type OrderDirection = "asc" | "desc"
+
+export type OrderByOption = string | Array<[field: string, direction?: OrderDirection]>
+
+export interface ODataQueryOptions {
+  filter?: ODataFilter
+  select?: string[]
+  expand?: string[]
+  orderBy?: OrderByOption
+  top?: number
+  skip?: number
+  count?: boolean
+}
+
+type FieldOf<T> = Extract<keyof T, string>
+
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\/[A-Za-z_][A-Za-z0-9_]*)*$/
+
+function field(name: string): string {
+  if (!FIELD_PATTERN.test(name)) {
+    throw new ValidationError(`Invalid OData field name: ${name}`)
+  }
+  return name
+}
+
+/** Quote a string literal, doubling embedded single quotes. */
+export function escapeString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+/**
+ * Build a DateTimeOffset literal from a Date or any string `Date` can parse.
+ * @throws {ValidationError} If the value is not a valid date.
+ */
+export function dateTimeOffset(value: string | Date): ODataLiteral {
+  const date = value instanceof Date ? value : new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid DateTimeOffset value: ${String(value)}`)
+  }
+  return new ODataLiteral(date.toISOString())
+}
+
+/** Format a value as an OData literal. Dates become DateTimeOffset literals. */
+export function formatLiteral(value: ODataValue): string {
+  if (value instanceof ODataLiteral) return value.text
+  if (value instanceof Date) return dateTimeOffset(value).text
+  if (value === null) return "null"
+  if (typeof value === "string") return escapeString(value)
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new ValidationError(`Invalid OData numeric literal: ${value}`)
+    }
+    return String(value)
+  }
+  return value ? "true" : "false"
+}
+
+function compare<T>(operator: string, name: FieldOf<T>, value: ODataValue): ODataFilter {
+  return new ODataFilter(`${field(name)} ${operator} ${formatLiteral(value)}`)
+}
+
+export function eq<T = Record<string, unknown>>(name: FieldOf<T>, value: ODataValue): ODataFilter {
+  return compare<T>("eq", name, value)
+}
+
+export function ne<T = Record<string, unknown>>(name: FieldOf<T>, value: ODataValue): ODataFilter {
+  return compare<T>("ne", name, value)
+}
+
+export function gt<T = Record<string, unknown>>(name: FieldOf<T>, value: ODataValue): ODataFilter {
+  return compare<T>("gt", name, value)
+}
+
+export function ge<T = Record<string, unknown>>(name: FieldOf<T>, value: ODataValue): ODataFilter {
+  return compare<T>("ge", name, value)
+}
+
+export function lt<T = Record<string, unknown>>(name: FieldOf<T>, value: ODataValue): ODataFilter {
+  return compare<T>("lt", name, value)
+}
+
+export function le<T = Record<string, unknown>>(name: FieldOf<T>, value: ODataValue): ODataFilter {
+  return compare<T>("le", name, value)
+}
+
+/**
+ * Membership test. Emitted as a chain of `eq` clauses joined by `or`, which
+ * every Orchestrator version accepts (the `in` operator is OData 4.01 only).
+ * @throws {ValidationError} If `values` is empty.
+ */
+export function isIn<T = Record<string, unknown>>(name: FieldOf<T>, values: ODataValue[]): ODataFilter {
+  if (values.length === 0) {
+    throw new ValidationError(`OData 'in' filter on ${name} requires at least one value`)
+  }
+  if (values.length === 1) {
+    return eq<T>(name, values[0])
+  }
+  return or(...values.map(value => eq<T>(name, value)))
+}
+
+export function contains<T = Record<string, unknown>>(name: FieldOf<T>, value: string): ODataFilter {
+  return new ODataFilter(`contains(${field(name)},${escapeString(value)})`)
+}
+
+export function startswith<T = Record<string, unknown>>(name: FieldOf<T>, value: string): ODataFilter {
+  return new ODataFilter(`startswith(${field(name)},${escapeString(value)})`)
+}
+
+function join(operator: "and" | "or", filters: Array<ODataFilter | undefined>): ODataFilter | undefined {
+  const present = filters.filter((f): f is ODataFilter => f !== undefined)
+  if (present.length === 0) return undefined
+  if (present.length === 1) return present[0]
+  return new ODataFilter(present.map(f => `(${f.expression})`).join(` ${operator} `))
+}
+
+/** Combine filters with `and`. Undefined entries are skipped, so optional clauses compose cleanly. */
+export function and(...filters: Array<ODataFilter | undefined>): ODataFilter | undefined {
+  return join("and", filters)
+}
+
+/** Combine filters with `or`. Undefined entries are skipped. */
+export function or(...filters: Array<ODataFilter | undefined>): ODataFilter {
+  const combined = join("or", filters)
+  if (!combined) {
+    throw new ValidationError("OData 'or' filter requires at least one clause")
+  }
+  return combined
+}
+
+export function not(filter: ODataFilter): ODataFilter {
+  return new ODataFilter(`not (${filter.expression})`)
+}
+
+const MAX_FILTER_LENGTH = 2000
+
+/**
+ * Wrap a caller-supplied `$filter` expression after structural checks:
+ * bounded length, no control characters, balanced string literals and
+ * balanced parentheses outside literals. The server remains the authority on
+ * semantics; this only rejects input that is malformed before it is sent.
+ * @throws {ValidationError} Describing the first problem found.
+ */
+export function parseFilter(raw: string): ODataFilter {
+  const expression = raw.trim()
+  if (expression.length === 0) {
+    throw new ValidationError("OData $filter must not be empty")
+  }
+  if (expression.length > MAX_FILTER_LENGTH) {
+    throw new ValidationError(`OData $filter exceeds ${MAX_FILTER_LENGTH} characters`)
+  }
+  if (/\p{Cc}/u.test(expression)) {
+    throw new ValidationError("OData $filter must not contain control characters")
+  }
+
+  let depth = 0
+  let inString = false
+  for (let i = 0; i < expression.length; i++) {
+    const ch = expression[i]
+    if (inString) {
+      if (ch === "'") {
+        if (expression[i + 1] === "'") {
+          i++
+        } else {
+          inString = false
+        }
+      }
+    } else if (ch === "'") {
+      inString = true
+    } else if (ch === "(") {
+      depth++
+    } else if (ch === ")") {
+      depth--
+      if (depth < 0) {
+        throw new ValidationError("OData $filter has an unmatched ')'")
+      }
+    }
+  }
+  if (inString) {
+    throw new ValidationError("OData $filter has an unterminated string literal")
+  }
+  if (depth !== 0) {
+    throw new ValidationError("OData $filter has an unmatched '('")
+  }
+  return new ODataFilter(expression)
+}
+
+/**
+ * Parse a comma-separated field list such as "Id,Name,Robot/Name".
+ * @throws {ValidationError} If any entry is not a valid field path.
+ */
+export function parseFieldList(raw: string): string[] {
+  return raw
+    .split(",")
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .map(field)
+}
+
+/**
+ * Parse an $orderby string such as "CreationTime desc, Id".
+ * @throws {ValidationError} If any clause is not `field [asc|desc]`.
+ */
+export function parseOrderBy(raw: string): Array<[string, OrderDirection?]> {
+  return raw
+    .split(",")
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .map(part => {
+      const [name, direction, ...rest] = part.split(/\s+/)
+      if (rest.length > 0 || (direction !== undefined && direction !== "asc" && direction !== "desc")) {
+        throw new ValidationError(`Invalid OData $orderby clause: ${part}`)
+      }
+      return [field(name), direction as OrderDirection | undefined]
+    })
+}
+
+/** Format an $orderby value from either a raw string or field/direction pairs. */
+export function formatOrderBy(orderBy: OrderByOption): string {
+  if (typeof orderBy === "string") return orderBy
+  return orderBy
+    .map(([name, direction]) => (direction ? `${field(name)} ${direction}` : field(name)))
+    .join(",")
+}
+
+/**
+ * Convert query options into the parameter map accepted by `UiPathClient.request`.
+ * Options that are undefined or empty are omitted.
+ */
+export function buildQuery(options: ODataQueryOptions): Record<string, string> {
+  const params: Record<string, string> = {}
+  if (options.filter) {
+    params.$filter = options.filter.expression
+  }
+  if (options.select && options.select.length > 0) {
+    params.$select = options.select.map(field).join(",")
+  }
+  if (options.expand && options.expand.length > 0) {
+    params.$expand = options.expand.map(field).join(",")
+  }
+  if (options.orderBy && options.orderBy.length > 0) {
+    params.$orderby = formatOrderBy(options.orderBy)
+  }
+  if (options.top !== undefined) {
+    params.$top = String(options.top)
+  }
+  if (options.skip !== undefined) {
+    params.$skip = String(options.skip)
+  }
+  if (options.count) {
+    params.$count = "true"
+  }
+  return params
+}
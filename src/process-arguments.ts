@@ -0,0 +1,167 @@
+import type { FieldError } from "./json-schema.js"
+import type { ProcessArgument } from "./types.js"
+
+/**
+ * Validation and coercion of job input arguments against the argument
+ * definitions Orchestrator stores on a release (`Arguments.Input`), so typos
+ * and wrong types are caught before a job is started rather than when it faults.
+ */
+
+export type ArgumentKind = "string" | "integer" | "number" | "boolean" | "datetime" | "array" | "object" | "unknown"
+
+export interface ArgumentDefinition {
+  name: string
+  kind: ArgumentKind
+  /** The .NET type as reported by Orchestrator, e.g. "System.Int32". */
+  type: string
+  required: boolean
+  hasDefault: boolean
+}
+
+const TYPE_KINDS: Array<[RegExp, ArgumentKind]> = [
+  [/\[\]$|^System\.Collections\.Generic\.(List|IEnumerable)/, "array"],
+  [/^System\.Collections\.Generic\.Dictionary|^Newtonsoft\.Json\.Linq\.JObject|^System\.Data\.DataTable/, "object"],
+  [/^System\.String$/, "string"],
+  [/^System\.(Int16|Int32|Int64|UInt16|UInt32|UInt64|Byte)$/, "integer"],
+  [/^System\.(Double|Single|Decimal)$/, "number"],
+  [/^System\.Boolean$/, "boolean"],
+  [/^System\.(DateTime|DateTimeOffset)$/, "datetime"],
+]
+
+function kindOf(type: string): ArgumentKind {
+  // Strip the assembly qualification: "System.Int32, System.Private.CoreLib, ..."
+  const name = type.split(",")[0].trim()
+  return TYPE_KINDS.find(([pattern]) => pattern.test(name))?.[1] ?? "unknown"
+}
+
+/**
+ * Parse the JSON argument list Orchestrator stores in `Release.Arguments.Input`
+ * or `.Output`. Unparseable or empty text yields no definitions.
+ */
+export function parseArgumentDefinitions(text: string | null | undefined): ArgumentDefinition[] {
+  if (!text) return []
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return []
+  }
+  if (!Array.isArray(raw)) return []
+  return (raw as ProcessArgument[])
+    .filter(arg => arg && typeof arg.name === "string")
+    .map(arg => ({
+      name: arg.name,
+      kind: kindOf(arg.type ?? ""),
+      type: (arg.type ?? "").split(",")[0].trim(),
+      required: Boolean(arg.required),
+      hasDefault: Boolean(arg.hasDefault),
+    }))
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const current = previous[j]
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      diagonal = current
+    }
+  }
+  return previous[b.length]
+}
+
+/** Closest known argument name, if one is plausibly what was meant. */
+function suggest(name: string, known: string[]): string | undefined {
+  const lower = name.toLowerCase()
+  let best: { name: string; distance: number } | undefined
+  for (const candidate of known) {
+    const distance = editDistance(lower, candidate.toLowerCase())
+    if (!best || distance < best.distance) {
+      best = { name: candidate, distance }
+    }
+  }
+  if (!best) return undefined
+  return best.distance <= Math.max(2, Math.floor(best.name.length / 3)) ? best.name : undefined
+}
+
+function coerce(value: unknown, kind: ArgumentKind): { value?: unknown; error?: string } {
+  if (value === null) return { value }
+  switch (kind) {
+    case "string":
+      if (typeof value === "string") return { value }
+      if (typeof value === "number" || typeof value === "boolean") return { value: String(value) }
+      return { error: "must be a string" }
+    case "integer":
+    case "number": {
+      const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value
+      if (typeof number !== "number" || !Number.isFinite(number)) return { error: `must be ${kind === "integer" ? "an integer" : "a number"}` }
+      if (kind === "integer" && !Number.isInteger(number)) return { error: "must be an integer" }
+      return { value: number }
+    }
+    case "boolean":
+      if (typeof value === "boolean") return { value }
+      if (value === "true" || value === "false") return { value: value === "true" }
+      return { error: "must be a boolean" }
+    case "datetime":
+      if (typeof value === "string" && !isNaN(Date.parse(value))) return { value }
+      return { error: "must be an ISO 8601 date/time" }
+    case "array":
+      return Array.isArray(value) ? { value } : { error: "must be an array" }
+    case "object":
+      return typeof value === "object" && !Array.isArray(value) ? { value } : { error: "must be an object" }
+    default:
+      return { value }
+  }
+}
+
+/**
+ * Check provided input arguments against a release's definitions: unknown
+ * names (with a suggestion), missing required arguments and values that cannot
+ * be coerced to the declared type. Numeric strings and "true"/"false" are
+ * converted where the type calls for it.
+ * @param options.requireAll - Report missing required arguments (default true);
+ *   off for partial sets such as release defaults.
+ * @returns The coerced arguments and any field errors.
+ */
+export function validateInputArguments(
+  definitions: ArgumentDefinition[],
+  provided: Record<string, unknown>,
+  options: { requireAll?: boolean } = {}
+): { arguments: Record<string, unknown>; errors: FieldError[] } {
+  const byName = new Map(definitions.map(def => [def.name, def]))
+  const names = definitions.map(def => def.name)
+  const coerced: Record<string, unknown> = {}
+  const errors: FieldError[] = []
+
+  for (const [name, value] of Object.entries(provided)) {
+    const definition = byName.get(name)
+    if (!definition) {
+      const suggestion = suggest(name, names)
+      errors.push({
+        field: name,
+        message: suggestion ? `is not an input argument; did you mean ${suggestion}?` : "is not an input argument",
+      })
+      continue
+    }
+    const result = coerce(value, definition.kind)
+    if (result.error) {
+      errors.push({ field: name, message: `${result.error} (${definition.type})` })
+    } else {
+      coerced[name] = result.value
+    }
+  }
+
+  for (const definition of options.requireAll === false ? [] : definitions) {
+    if (definition.required && !definition.hasDefault && !(definition.name in provided)) {
+      errors.push({ field: definition.name, message: `is required (${definition.type})` })
+    }
+  }
+
+  return { arguments: coerced, errors }
+}
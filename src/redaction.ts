@@ -0,0 +1,202 @@
+import type { RedactionConfig, RedactionDetector } from "./types.js"
+
+/**
+ * Redaction of secrets from everything the server returns to the model. Tool
+ * results and resources pass through `redact`, which walks the value and
+ * replaces values of sensitive assets, values under sensitive field names
+ * (also inside JSON strings such as InputArguments), and matches of value
+ * detectors (emails, card numbers, bearer tokens) in any string.
+ */
+
+export const REDACTED = "[REDACTED]"
+
+export interface RedactionPolicy {
+  enabled: boolean
+  sensitiveAssetTypes: Set<string>
+  /** Normalized (lowercase, no separators) trailing key segments, e.g. "apikey". */
+  sensitiveKeys: string[]
+  /** Replacements applied in order to every string. */
+  textRules: Array<{ pattern: RegExp; replace: (match: string, ...groups: string[]) => string }>
+}
+
+export const DEFAULT_SENSITIVE_ASSET_TYPES = ["Credential", "WindowsCredential", "Secret"]
+
+export const DEFAULT_SENSITIVE_KEYS = [
+  "password",
+  "passwd",
+  "pwd",
+  "secret",
+  "token",
+  "apikey",
+  "accesskey",
+  "privatekey",
+  "authorization",
+  "cookie",
+  "connectionstring",
+]
+
+export const REDACTION_DETECTORS = ["email", "cardNumber", "bearerToken"] as const satisfies readonly RedactionDetector[]
+
+/** Asset fields that hold a value, as opposed to metadata such as the name. */
+const ASSET_VALUE_FIELDS = new Set(["StringValue", "IntValue", "BoolValue", "Value", "KeyValueList", "CredentialPassword"])
+
+/** Keys of the server's own output that name secret fields but hold no secret. */
+const METADATA_KEYS = new Set(["secretFieldsChanged"])
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_.-]/g, "")
+
+/** "in_ApiToken" -> ["in", "api", "token"] */
+const keySegments = (key: string) => key
+  .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+  .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+  .toLowerCase()
+  .split(/[\s_.-]+/)
+  .filter(Boolean)
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/** Luhn checksum, to tell card numbers from other long digit runs such as ids. */
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+const DETECTOR_RULES: Record<RedactionDetector, RedactionPolicy["textRules"][number]> = {
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replace: () => "[REDACTED:email]",
+  },
+  cardNumber: {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replace: match => (passesLuhn(match.replace(/\D/g, "")) ? "[REDACTED:card]" : match),
+  },
+  bearerToken: {
+    pattern: /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/gi,
+    replace: (_match, scheme) => `${scheme} ${REDACTED}`,
+  },
+}
+
+/**
+ * Fill unset fields of a redaction config with defaults. Lists replace the
+ * defaults rather than extending them, so a default can be dropped.
+ * @throws {SyntaxError} When a custom pattern is not a valid regular expression.
+ */
+export function resolveRedactionPolicy(config: RedactionConfig = {}): RedactionPolicy {
+  const sensitiveKeys = (config.sensitiveKeys ?? DEFAULT_SENSITIVE_KEYS).map(normalizeKey).filter(Boolean)
+  const textRules: RedactionPolicy["textRules"] = []
+
+  for (const detector of config.detectors ?? REDACTION_DETECTORS) {
+    textRules.push(DETECTOR_RULES[detector])
+  }
+  if (sensitiveKeys.length > 0) {
+    // key=value and key: value pairs in free text such as log messages, for keys ending in a
+    // sensitive key; "apikey" also matches "api_key" and "TokenCount=3" is left alone.
+    // Runs after the detectors so "Authorization: Bearer <token>" loses the token too
+    const keys = sensitiveKeys.map(key => [...key].map(escapeRegExp).join("[_-]?")).join("|")
+    textRules.push({
+      pattern: new RegExp(`\\b([\\w-]*?(?:${keys}))(["']?\\s*[:=]\\s*)("[^"]*"|'[^']*'|[^\\s,;&"']+)`, "gi"),
+      replace: (_match, key, separator) => `${key}${separator}${REDACTED}`,
+    })
+  }
+  for (const source of config.customPatterns ?? []) {
+    textRules.push({ pattern: new RegExp(source, "g"), replace: () => REDACTED })
+  }
+
+  return {
+    enabled: config.enabled ?? true,
+    sensitiveAssetTypes: new Set(config.sensitiveAssetTypes ?? DEFAULT_SENSITIVE_ASSET_TYPES),
+    sensitiveKeys,
+    textRules,
+  }
+}
+
+/**
+ * True when the key ends in whole sensitive segments: "db_password" and
+ * "clientSecret" are sensitive, "TokenCount" and "passwordPolicy" are not.
+ */
+function isSensitiveKey(key: string, policy: RedactionPolicy): boolean {
+  if (METADATA_KEYS.has(key)) return false
+  const segments = keySegments(key)
+  for (let start = segments.length - 1; start >= 0; start--) {
+    const tail = segments.slice(start).join("")
+    if (policy.sensitiveKeys.includes(tail)) return true
+  }
+  return false
+}
+
+function redactText(text: string, policy: RedactionPolicy): string {
+  const trimmed = text.trim()
+  if ((trimmed.startsWith("{") && trimmed.endsWith("}")) || (trimmed.startsWith("[") && trimmed.endsWith("]"))) {
+    try {
+      // Arguments and queue item content arrive as JSON strings; redact their fields too
+      return JSON.stringify(redactValue(JSON.parse(trimmed), policy, new WeakSet()))
+    } catch {
+      // Not JSON after all; fall through to the text rules
+    }
+  }
+  let result = text
+  for (const rule of policy.textRules) {
+    rule.pattern.lastIndex = 0
+    result = result.replace(rule.pattern, rule.replace as (match: string, ...args: unknown[]) => string)
+  }
+  return result
+}
+
+/** `seen` holds the objects on the current path, so shared (non-circular) references are kept. */
+function redactValue(value: unknown, policy: RedactionPolicy, seen: WeakSet<object>): unknown {
+  if (typeof value === "string") {
+    return redactText(value, policy)
+  }
+  if (value === null || typeof value !== "object") {
+    return value
+  }
+  if (seen.has(value)) {
+    return "[Circular]"
+  }
+  seen.add(value)
+  const result = redactObject(value, policy, seen)
+  seen.delete(value)
+  return result
+}
+
+function redactObject(value: object, policy: RedactionPolicy, seen: WeakSet<object>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, policy, seen))
+  }
+
+  const record = value as Record<string, unknown>
+  const sensitiveAsset = typeof record.ValueType === "string" &&
+    (record.Sensitive === true || policy.sensitiveAssetTypes.has(record.ValueType))
+  const result: Record<string, unknown> = {}
+  for (const [key, field] of Object.entries(record)) {
+    if (field === null || field === undefined || (typeof field === "boolean" && !sensitiveAsset)) {
+      result[key] = field
+    } else if (
+      (sensitiveAsset && ASSET_VALUE_FIELDS.has(key)) ||
+      (typeof field !== "object" && isSensitiveKey(key, policy))
+    ) {
+      result[key] = REDACTED
+    } else {
+      result[key] = redactValue(field, policy, seen)
+    }
+  }
+  return result
+}
+
+/**
+ * Copy of `value` with secrets replaced by "[REDACTED]" (detector matches by
+ * "[REDACTED:email]" and "[REDACTED:card]"). Returns `value` unchanged when
+ * redaction is disabled.
+ */
+export function redact<T>(value: T, policy: RedactionPolicy): T {
+  if (!policy.enabled) return value
+  return redactValue(value, policy, new WeakSet()) as T
+}
@@ -0,0 +1,141 @@
+import { CircuitOpenError } from "./errors.js"
+import type { RetryConfig, CircuitBreakerConfig } from "./types.js"
+
+/**
+ * Retry and circuit-breaker primitives for Orchestrator HTTP calls.
+ *
+ * The client retries transient failures (429 and gateway errors by default)
+ * with exponential backoff, honors Retry-After, and only retries requests
+ * that are safe to repeat. A per-client circuit breaker fails fast once the
+ * tenant has returned repeated server errors.
+ */
+
+export type RetryPolicy = Required<RetryConfig>
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  jitter: 0.5,
+  retryableStatuses: [429, 502, 503, 504],
+}
+
+/** Fill unset (or explicitly undefined) fields of a retry config with defaults. */
+export function resolveRetryPolicy(config: RetryConfig = {}): RetryPolicy {
+  return {
+    maxAttempts: Math.max(1, config.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts),
+    baseDelayMs: config.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: config.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitter: config.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+    retryableStatuses: config.retryableStatuses ?? DEFAULT_RETRY_POLICY.retryableStatuses,
+  }
+}
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"])
+
+/** Whether an HTTP method can be repeated without side effects. */
+export function isIdempotent(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase())
+}
+
+/**
+ * Decide whether a failed response may be retried. Non-idempotent requests
+ * (e.g. POST StartJobs, AddQueueItem) are retried only on 429, where the
+ * server rejected the call before processing it.
+ */
+export function isRetryableStatus(status: number, idempotent: boolean, policy: RetryPolicy): boolean {
+  if (!policy.retryableStatuses.includes(status)) return false
+  return idempotent || status === 429
+}
+
+/**
+ * Exponential backoff for the given attempt (1-based) with proportional jitter.
+ * A jitter of 0.5 spreads the delay uniformly over [50%, 100%] of the base value.
+ */
+export function computeBackoff(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1)
+  return Math.round(exponential * (1 - jitter * random()))
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ * @returns The delay, or null when the header is absent or unparseable.
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null
+  const trimmed = header.trim()
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000
+  }
+  const date = Date.parse(trimmed)
+  if (isNaN(date)) return null
+  return Math.max(0, date - now)
+}
+
+/** Resolve after `ms`, or reject with the signal's reason as soon as it aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Consecutive-failure circuit breaker. Opens after `failureThreshold` failures,
+ * rejects calls for `resetTimeoutMs`, then lets a single trial call through
+ * (half-open). A success closes the circuit; a failure re-opens it.
+ */
+export class CircuitBreaker {
+  private failures = 0
+  private openedAt: number | null = null
+  private trialInFlight = false
+  private readonly failureThreshold: number
+  private readonly resetTimeoutMs: number
+
+  constructor(config: CircuitBreakerConfig = {}, private readonly now: () => number = Date.now) {
+    this.failureThreshold = config.failureThreshold ?? 5
+    this.resetTimeoutMs = config.resetTimeoutMs ?? 30_000
+  }
+
+  get state(): "closed" | "open" | "half-open" {
+    if (this.openedAt === null) return "closed"
+    return this.now() - this.openedAt >= this.resetTimeoutMs ? "half-open" : "open"
+  }
+
+  /** @throws {CircuitOpenError} If calls are currently being rejected. */
+  assertCanRequest(): void {
+    const state = this.state
+    if (state === "closed") return
+    if (state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true
+      return
+    }
+    throw new CircuitOpenError(new Date((this.openedAt ?? this.now()) + this.resetTimeoutMs))
+  }
+
+  recordSuccess(): void {
+    this.failures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+  }
+
+  recordFailure(): void {
+    this.failures += 1
+    if (this.trialInFlight || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now()
+    }
+    this.trialInFlight = false
+  }
+}
@@ -7,6 +7,36 @@ export interface UiPathConfig {
   clientSecret: string
   defaultFolderId?: number
   disableSslVerify?: boolean
+  retry?: RetryConfig
+  circuitBreaker?: CircuitBreakerConfig
+}
+
+export interface RetryConfig {
+  maxAttempts?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  jitter?: number
+  retryableStatuses?: number[]
+}
+
+export interface CircuitBreakerConfig {
+  failureThreshold?: number
+  resetTimeoutMs?: number
+}
+
+export type RedactionDetector = "email" | "cardNumber" | "bearerToken"
+
+/** What the server redacts from tool results and resources; unset fields use defaults. */
+export interface RedactionConfig {
+  enabled?: boolean
+  /** Asset types whose values are always redacted, e.g. Credential. */
+  sensitiveAssetTypes?: string[]
+  /** Case-insensitive trailing field-name segments whose values are redacted, e.g. "password" or "apikey". */
+  sensitiveKeys?: string[]
+  /** Built-in detectors applied to every string. */
+  detectors?: RedactionDetector[]
+  /** Additional regular expressions whose matches are redacted from every string. */
+  customPatterns?: string[]
 }
 
 export interface TokenResponse {
@@ -19,9 +49,16 @@ export interface TokenResponse {
 export interface ODataResponse<T> {
   "@odata.context"?: string
   "@odata.count"?: number
+  "@odata.nextLink"?: string
   value: T[]
 }
 
+// Pagination Types
+export interface PaginationOptions {
+  pageSize?: number
+  maxItems?: number
+}
+
 // Folder / Robot / Machine / Asset / Log Types
 export interface Folder {
   Id: number
@@ -55,6 +92,28 @@ export interface Machine {
   Key: string | null
   LicenseKey: string | null
   Version: string | null
+  UnattendedSlots?: number
+  NonProductionSlots?: number
+  TestAutomationSlots?: number
+  HeadlessSlots?: number
+}
+
+/** Runtime slots of a machine (template); unset fields are left unchanged. */
+export type MachineSlots = Partial<Pick<Machine, "UnattendedSlots" | "NonProductionSlots" | "TestAutomationSlots" | "HeadlessSlots">>
+
+/** A robot or machine change, applied only when confirmed. */
+export interface FleetChangeResult<T> {
+  /** False for a preview (or when nothing needs to change); call again with confirm to apply. */
+  applied: boolean
+  summary: string
+  /** Requests sent, or that would be sent for a preview. */
+  requests: PlannedRequest[]
+  before: T
+  /**
+   * State after an applied change, or the current state when nothing needed to
+   * change; null for previews, deletions and folder assignments.
+   */
+  after: T | null
 }
 
 export interface AssetValue {
@@ -89,8 +148,18 @@ export interface QueueDefinition {
   EnforceUniqueReference: boolean
   CreationTime: string
   SpecificDataJsonSchema?: string
+  OutputDataJsonSchema?: string
+  AnalyticsDataJsonSchema?: string
+  SlaInMinutes?: number | null
+  RiskSlaInMinutes?: number | null
 }
 
+/** Writable queue definition settings accepted on create and update. */
+export type QueueDefinitionSettings = Partial<Pick<
+  QueueDefinition,
+  "Description" | "MaxNumberOfRetries" | "AcceptAutomaticallyRetry" | "EnforceUniqueReference" | "SpecificDataJsonSchema"
+>>
+
 export type QueueItemStatus = 
   | "New" 
   | "InProgress" 
@@ -117,17 +186,109 @@ export interface QueueItem {
   DueDate: string | null
   ExceptionType: string | null
   ExceptionReason: string | null
+  ReviewStatus?: QueueItemReviewStatus
+  ReviewerUserId?: number | null
+  RowVersion?: string
+  Key?: string
+  AncestorId?: number | null
+  Robot?: { Id: number; Name: string; MachineName?: string | null } | null
+  ProcessingException?: QueueItemProcessingException | null
+}
+
+export interface QueueItemProcessingException {
+  Reason: string | null
+  Details: string | null
+  Type: "ApplicationException" | "BusinessException" | string | null
+  CreationTime: string | null
+}
+
+export interface QueueItemEvent {
+  Id: number
+  QueueItemId: number
+  Timestamp: string
+  Action: string
+  Status: QueueItemStatus | null
+  ReviewStatus: QueueItemReviewStatus | null
+  UserName: string | null
+  ReviewerUserName: string | null
+  ExternalClientId: string | null
+  Data: string | null
+}
+
+export interface QueueItemTimelineEntry {
+  timestamp: string
+  queueItemId: number
+  attempt: number
+  kind: "event" | "started" | "completed" | "exception"
+  description: string
+}
+
+/** One processing attempt of a queue item: the original or one of its retries. */
+export interface QueueItemAttempt {
+  queueItemId: number
+  attempt: number
+  status: QueueItemStatus
+  robotName: string | null
+  startProcessing: string | null
+  endProcessing: string | null
+  exception: QueueItemProcessingException | null
+  job: Pick<Job, "Id" | "Key" | "State" | "ReleaseName" | "StartTime" | "EndTime" | "HostMachineName"> | null
+}
+
+export interface QueueItemDetails {
+  item: QueueItem
+  summary: string
+  attempts: QueueItemAttempt[]
+  timeline: QueueItemTimelineEntry[]
+}
+
+export type QueueItemReviewStatus = "None" | "InReview" | "Verified" | "Retried"
+
+export interface QueueItemData {
+  Name: string
+  Priority?: "Low" | "Normal" | "High"
+  SpecificContent: Record<string, unknown>
+  Reference?: string
+  DeferDate?: string
+  DueDate?: string
 }
 
 export interface AddQueueItemRequest {
-  itemData: {
-    Name: string
-    Priority?: "Low" | "Normal" | "High"
-    SpecificContent: Record<string, unknown>
-    Reference?: string
-    DeferDate?: string
-    DueDate?: string
-  }
+  itemData: QueueItemData
+}
+
+export type BulkAddCommitType = "ProcessAllIndependently" | "AllOrNothing" | "StopOnFirstFailure"
+
+export interface BulkAddQueueItemsRequest {
+  queueName: string
+  commitType: BulkAddCommitType
+  queueItems: Omit<QueueItemData, "Name">[]
+}
+
+export interface BulkOperationResponse<T> {
+  Success: boolean
+  FailedItems: Array<{
+    Body?: T
+    ErrorCode?: number | string
+    ErrorMessage?: string
+  }>
+}
+
+/** Per-item outcome of a bulk operation on queue items or jobs. */
+export interface BulkItemResult {
+  succeeded: number[]
+  failed: Array<{ id: number; error: string }>
+}
+
+export interface BulkAddQueueItemsResult {
+  success: boolean
+  added: number
+  failed: Array<{
+    index: number | null
+    reference: string | null
+    errorCode: number | string | null
+    error: string
+  }>
 }
 
 // Job Types
@@ -161,6 +322,14 @@ export interface Job {
   OutputArguments: string | null
 }
 
+export type JobPriority = "Low" | "Normal" | "High"
+
+export interface MachineRobotPair {
+  MachineId: number
+  RobotId?: number
+  SessionId?: number
+}
+
 export interface StartJobRequest {
   startInfo: {
     ReleaseKey: string
@@ -168,21 +337,199 @@ export interface StartJobRequest {
     JobsCount?: number
     RobotIds?: number[]
     InputArguments?: string
+    JobPriority?: JobPriority
+    SpecificPriorityValue?: number
+    RunAsMe?: boolean
+    MachineRobots?: MachineRobotPair[]
+    RuntimeType?: RobotType
   }
 }
 
+/** A robot log line, or a run of consecutive near-identical lines folded into one. */
+export interface JobLogLine {
+  timeStamp: string
+  level: string
+  message: string
+  /** Number of lines this entry stands for; 1 when nothing was folded. */
+  repeat: number
+  /** Time of the last folded line, when repeat > 1. */
+  lastTimeStamp?: string
+}
+
+export interface JobErrorDetails {
+  /** e.g. "System.NullReferenceException" or "UiPath.Core.SelectorNotFoundException". */
+  exceptionType: string | null
+  message: string
+  stack: string[]
+}
+
+/** A job's full robot log, condensed for diagnosis. */
+export interface JobLogReport {
+  job: Pick<Job, "Id" | "Key" | "State" | "ReleaseName" | "HostMachineName" | "StartTime" | "EndTime">
+  totalLines: number
+  /** True when the job logged more than maxLines and the tail was not fetched. */
+  truncated: boolean
+  levelCounts: Record<string, number>
+  firstError: JobLogLine | null
+  /** Exception parsed from the job's JobError, falling back to Info. */
+  error: JobErrorDetails | null
+  lines: JobLogLine[]
+}
+
+/** Where a job will run, resolved from robot names, machine names and a runtime type. */
+export interface JobTarget {
+  strategy: StartJobRequest["startInfo"]["Strategy"]
+  /** Set for robot-only targets (Specific strategy). */
+  robotIds?: number[]
+  /** Set when machines are named; pairs robots with machines when both are. */
+  machineRobots?: MachineRobotPair[]
+  runtimeType?: RobotType
+  robots: string[]
+  machines: string[]
+  /** Non-fatal findings, e.g. a busy robot the job will wait for. */
+  warnings: string[]
+}
+
 export interface StopJobRequest {
   strategy: "SoftStop" | "Kill"
 }
 
+/** Outcome of waiting for a job to reach a terminal state. */
+export interface JobCompletionResult {
+  job: Job
+  /** True when the job reached Successful, Faulted, Stopped or Terminated. */
+  finished: boolean
+  timedOut: boolean
+  durationSeconds: number | null
+  outputArguments: Record<string, unknown> | null
+  /** Most recent robot log lines of the job, oldest first. */
+  logs: RobotLog[]
+}
+
+export interface StopJobsRequest {
+  strategy: "SoftStop" | "Kill"
+  jobIds: number[]
+}
+
 // Release Types
 export interface Release {
+  Id: number
   Key: string
   ProcessKey: string
   ProcessVersion: string
   Name: string
   Description: string | null
   IsLatestVersion: boolean
+  EntryPointId?: number | null
+  EntryPointPath?: string | null
+  OrganizationUnitId?: number | null
+  OrganizationUnitFullyQualifiedName?: string | null
+  /** JSON object of default input argument values. */
+  InputArguments?: string | null
+  JobPriority?: JobPriority | null
+  SpecificPriorityValue?: number | null
+  /** Classic folders only. */
+  EnvironmentId?: number | null
+  EnvironmentName?: string | null
+  Arguments?: {
+    /** JSON array of ProcessArgument entries. */
+    Input: string | null
+    Output: string | null
+  } | null
+}
+
+/** A package version in the tenant or folder feed (/odata/Processes). */
+export interface ProcessPackage {
+  /** Package ID, e.g. "InvoiceProcessor". Releases reference it as ProcessKey. */
+  Id: string
+  /** "<Id>:<Version>" */
+  Key: string
+  Version: string
+  Title: string | null
+  Description: string | null
+  IsLatestVersion: boolean
+  Published: string | null
+  Authors: string | null
+}
+
+export interface PackageEntryPoint {
+  Id: number
+  UniqueId: string
+  /** Workflow file, e.g. "Main.xaml". */
+  Path: string
+  /** JSON array of ProcessArgument entries. */
+  InputArguments: string | null
+  OutputArguments: string | null
+}
+
+/** A release (process) in a folder and the package version it is pinned to. */
+export interface ReleaseDeployment {
+  folderId: number
+  folderName: string
+  releaseId: number
+  releaseKey: string
+  releaseName: string
+  packageId: string
+  processVersion: string
+  isLatestVersion: boolean
+  entryPointPath: string | null
+}
+
+export interface PackageCatalogEntry {
+  packageId: string
+  title: string | null
+  latestVersion: string
+  /** Newest first. */
+  versions: Array<{ version: string; published: string | null }>
+  deployments: ReleaseDeployment[]
+}
+
+export interface PackageCatalog {
+  packages: PackageCatalogEntry[]
+  /** Folders whose releases could not be read, e.g. for lack of permission. */
+  skippedFolders: Array<{ folderId: number; folderName: string; error: string }>
+}
+
+/** Release properties that can be set on create and changed on update. */
+export interface ReleaseSettings {
+  description?: string | null
+  /** Default input argument values; on update, merged into the existing defaults (null removes one). */
+  inputArguments?: Record<string, unknown>
+  /** Classic folders only; null clears it. */
+  environmentName?: string | null
+  priority?: JobPriority
+  /** 1 (lowest) to 100 (highest); overrides priority. */
+  specificPriorityValue?: number
+}
+
+/** An Orchestrator write request, as sent or, in dry-run mode, as it would be sent. */
+export interface PlannedRequest {
+  method: "POST" | "PATCH" | "PUT" | "DELETE"
+  endpoint: string
+  folderId: number | null
+  body: unknown
+}
+
+export interface ReleaseWriteResult {
+  dryRun: boolean
+  request: PlannedRequest
+  /** The release after the change, or before it for dry runs; null for a dry-run create and after a delete. */
+  release: Release | null
+}
+
+export interface ReleaseVersionChange {
+  release: Release
+  previousVersion: string
+  newVersion: string
+  direction: "upgrade" | "rollback" | "unchanged"
+}
+
+/** Argument definition as serialized in Release.Arguments.Input/Output. */
+export interface ProcessArgument {
+  name: string
+  type: string
+  required: boolean
+  hasDefault: boolean
 }
 
 // Session Types
@@ -215,6 +562,93 @@ export interface Asset {
   Description: string | null
   CanBeDeleted: boolean
   FolderId: number | null
+  /** Set by Orchestrator for values that must not be displayed. */
+  Sensitive?: boolean
+  CredentialUsername?: string | null
+  /** Write-only; never returned by Orchestrator and never echoed by this server. */
+  CredentialPassword?: string | null
+  KeyValueList?: Array<{ Key: string; Value: string | null }> | null
+  RobotValues?: AssetRobotValue[] | null
+}
+
+/** A per-robot value of a PerRobot asset. */
+export interface AssetRobotValue {
+  RobotId: number
+  RobotName?: string | null
+  ValueType: string
+  StringValue?: string | null
+  BoolValue?: boolean | null
+  IntValue?: number | null
+  CredentialUsername?: string | null
+  CredentialPassword?: string | null
+  KeyValueList?: Array<{ Key: string; Value: string | null }> | null
+}
+
+export type WritableAssetType = "Text" | "Integer" | "Boolean" | "Credential" | "KeyValueList"
+
+/** A value to store in an asset, interpreted according to the asset's type. */
+export interface AssetValueInput {
+  /** Text, Integer, Boolean or KeyValueList (an object of string values) value. */
+  value?: string | number | boolean | Record<string, string>
+  /** Credential assets only. */
+  username?: string
+  /** Credential assets only; sent to Orchestrator and never returned. */
+  password?: string
+}
+
+export interface AssetRobotValueInput extends AssetValueInput {
+  robotName: string
+}
+
+/** A non-secret asset field that changed; secret fields are only listed by name. */
+export interface AssetFieldChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+export interface AssetWriteResult {
+  /** The asset as stored, with sensitive values masked. */
+  asset: Asset
+  changes: AssetFieldChange[]
+  /** Secret fields that were set, e.g. CredentialPassword; their values are never returned. */
+  secretFieldsChanged: string[]
+}
+
+export interface AssetTypeMismatch {
+  name: string
+  sourceType: string
+  targetType: string
+}
+
+/** A field of a same-named, same-typed asset whose value differs between the two sides. */
+export interface AssetValueDifference {
+  name: string
+  valueType: string
+  field: string
+  source: unknown
+  target: unknown
+}
+
+export interface AssetComparisonSide {
+  tenantName: string
+  folderId: number
+  assetCount: number
+}
+
+export interface AssetComparison {
+  source: AssetComparisonSide
+  target: AssetComparisonSide
+  /** Asset names present only in the source folder. */
+  missingInTarget: string[]
+  /** Asset names present only in the target folder. */
+  missingInSource: string[]
+  typeMismatches: AssetTypeMismatch[]
+  valueDifferences: AssetValueDifference[]
+  /** Assets on both sides with secrets (sensitive values, credential passwords) that could not be compared. */
+  valuesNotCompared: string[]
+  /** Assets present on both sides with nothing to report. */
+  matchingCount: number
 }
 
 // ProcessSchedule Types
@@ -293,6 +727,56 @@ export interface LicenseRuntimeDto {
   MachineScope: string
 }
 
+/** A job currently running on a machine, as shown in fleet health. */
+export interface FleetRunningJob {
+  jobId: number
+  jobKey: string
+  processName: string
+  hostMachineName: string | null
+  startTime: string | null
+}
+
+/** Sessions, license runtime and running jobs of one machine, joined. */
+export interface MachineHealth {
+  machineId: number
+  machineName: string
+  machineType: string | null
+  /** True when at least one robot session on the machine is connected. */
+  online: boolean
+  hosts: string[]
+  sessionCount: number
+  unresponsiveSessionCount: number
+  /** Latest ReportingTime of any session on the machine. */
+  lastReportingTime: string | null
+  minutesSinceLastReport: number | null
+  /** Licensed runtime slots; null when license data is unavailable. */
+  runtimeSlots: number | null
+  executingCount: number
+  /** False when the machine has no licensed runtime record; null when license data is unavailable. */
+  licensed: boolean | null
+  /** As for `licensed`, for whether any license record is enabled. */
+  licenseEnabled: boolean | null
+  runningJobs: FleetRunningJob[]
+  flags: string[]
+}
+
+export interface FleetHealthReport {
+  generatedAt: string
+  /** Folder the report is limited to; null for every machine of the tenant. */
+  folderId: number | null
+  staleAfterMinutes: number
+  summary: {
+    machines: number
+    online: number
+    flagged: number
+    runtimeSlots: number
+    executing: number
+  }
+  /** Flagged machines first, then by name. */
+  machines: MachineHealth[]
+  warnings: string[]
+}
+
 export interface CountStats {
   title: string
   count: number
@@ -340,6 +824,41 @@ export interface QueueStats {
   successRate: number | null
 }
 
+export type QueueAgeBucket = "<1h" | "1-4h" | "4-24h" | "1-7d" | ">7d"
+
+export interface QueueSlaReport {
+  queueId: number
+  queueName: string
+  generatedAt: string
+  windowHours: number
+  risk: "ok" | "at_risk" | "breached"
+  statusCounts: Omit<QueueStats, "queueId" | "queueName">
+  newItems: {
+    total: number
+    oldestAgeMinutes: number | null
+    ageBuckets: Record<QueueAgeBucket, number>
+    pastDue: number
+    deferElapsed: number
+    truncated: boolean
+  }
+  sla: {
+    slaMinutes: number | null
+    riskSlaMinutes: number | null
+    breached: number
+    atRisk: number
+  }
+  processed: {
+    total: number
+    successful: number
+    failed: number
+    avgProcessingSeconds: number | null
+    retryRate: number | null
+    throughputPerHour: number
+    hourly: Array<{ hour: string; count: number }>
+    truncated: boolean
+  }
+}
+
 export interface JobStats {
   totalJobs: number
   pendingJobs: number
@@ -365,6 +884,38 @@ export interface FaultedJobSummary {
   durationSeconds: number | null
 }
 
+/** Faulted jobs sharing one error signature. */
+export interface FaultedJobCluster {
+  /** Exception type and normalized message with ids, times, paths and numbers replaced. */
+  signature: string
+  exceptionType: string | null
+  count: number
+  /** Share of all analyzed faulted jobs, in percent. */
+  percentage: number
+  processes: Array<{ name: string; count: number }>
+  machines: Array<{ name: string; count: number }>
+  firstSeen: string
+  lastSeen: string
+  /** Up to 20 job IDs in the cluster, newest first. */
+  jobIds: number[]
+  /** The most recent job in the cluster with its raw error text. */
+  example: {
+    jobId: number
+    jobKey: string
+    releaseName: string
+    hostMachineName: string | null
+    time: string
+    error: string
+  }
+}
+
+export interface FaultedJobClusterReport {
+  totalFaulted: number
+  /** True when more faulted jobs matched than maxJobs and only the newest were analyzed. */
+  truncated: boolean
+  clusters: FaultedJobCluster[]
+}
+
 export interface ProcessPerformance {
   processName: string
   totalExecutions: number
@@ -377,7 +928,94 @@ export interface ProcessPerformance {
   avgDurationSeconds: number | null
   minDurationSeconds: number | null
   maxDurationSeconds: number | null
+  p50DurationSeconds: number | null
+  p90DurationSeconds: number | null
+  p95DurationSeconds: number | null
+  p99DurationSeconds: number | null
+  /** Sample standard deviation of successful durations. */
+  stdDevDurationSeconds: number | null
+  /** Running jobs already past the historical p95; empty with fewer than 5 successful runs. */
+  longRunningJobs: LongRunningJob[]
+  /** Duration statistics per host machine, slowest median first. */
+  machines: MachinePerformance[]
   recentJobs: Job[]
+  /** Set when the running jobs were cut off, so hung-job detection is incomplete. */
+  warnings: string[]
+}
+
+export interface LongRunningJob {
+  Id: number
+  Key: string
+  HostMachineName: string | null
+  StartTime: string
+  runningSeconds: number
+  /** Elapsed time as a multiple of the historical p95. */
+  timesP95: number
+}
+
+export interface MachinePerformance {
+  hostMachineName: string
+  executions: number
+  successful: number
+  faulted: number
+  successRate: number | null
+  avgDurationSeconds: number | null
+  p50DurationSeconds: number | null
+  p90DurationSeconds: number | null
+}
+
+export type TrendGranularity = "hour" | "day" | "week"
+
+/** Outcome counts and duration percentiles for a set of jobs. */
+export interface JobPeriodStats {
+  total: number
+  states: Partial<Record<JobState, number>>
+  /** Successful / (Successful + Faulted), in percent. */
+  successRate: number | null
+  /** Percentiles over successful runs only. */
+  p50DurationSeconds: number | null
+  p90DurationSeconds: number | null
+  p99DurationSeconds: number | null
+}
+
+export interface JobTrendBucket extends JobPeriodStats {
+  start: string
+  end: string
+  processes: Array<{ processName: string } & JobPeriodStats>
+}
+
+export interface JobTrendReport {
+  startTime: string
+  endTime: string
+  granularity: TrendGranularity
+  totalJobs: number
+  /** True when more jobs matched than maxJobs and the oldest were not fetched. */
+  truncated: boolean
+  buckets: JobTrendBucket[]
+}
+
+export interface ProcessPeriodComparison {
+  processName: string
+  current: JobPeriodStats
+  previous: JobPeriodStats
+  /** Percentage points; negative is worse. */
+  successRateChange: number | null
+  p50DurationChangePercent: number | null
+  /** Two-proportion z-test; null when either period has fewer than 5 completed jobs. */
+  successRatePValue: number | null
+  /** Mann-Whitney U test over successful durations; null for small samples. */
+  durationPValue: number | null
+  /** Significant (p < 0.05) changes for the worse. */
+  regressions: string[]
+}
+
+export interface JobPeriodComparison {
+  current: { startTime: string; endTime: string }
+  previous: { startTime: string; endTime: string }
+  truncated: boolean
+  overall: ProcessPeriodComparison
+  /** Processes with regressions first, then by job volume. */
+  processes: ProcessPeriodComparison[]
 }
 
 export interface FolderOverview {
@@ -2,24 +2,69 @@ import type {
   UiPathConfig,
   TokenResponse,
   ODataResponse,
+  PaginationOptions,
   QueueDefinition,
+  QueueDefinitionSettings,
   QueueItem,
+  QueueItemAttempt,
+  QueueItemDetails,
+  QueueItemEvent,
   QueueItemStatus,
+  QueueItemTimelineEntry,
   AddQueueItemRequest,
+  BulkAddCommitType,
+  BulkAddQueueItemsRequest,
+  BulkAddQueueItemsResult,
+  BulkOperationResponse,
+  BulkItemResult,
+  QueueItemData,
+  QueueItemReviewStatus,
   Folder,
   Robot,
   Machine,
+  MachineSlots,
+  FleetHealthReport,
+  FleetChangeResult,
   AssetValue,
   RobotLog,
   Job,
   JobState,
   StartJobRequest,
   StopJobRequest,
+  StopJobsRequest,
+  JobCompletionResult,
+  JobTarget,
+  JobLogReport,
+  FaultedJobClusterReport,
+  JobTrendReport,
+  JobPeriodComparison,
+  TrendGranularity,
+  LongRunningJob,
+  MachinePerformance,
+  JobPriority,
+  MachineRobotPair,
   Release,
+  ProcessPackage,
+  PackageEntryPoint,
+  PackageCatalog,
+  PackageCatalogEntry,
+  ReleaseDeployment,
+  ReleaseVersionChange,
+  ReleaseSettings,
+  ReleaseWriteResult,
+  PlannedRequest,
   QueueStats,
+  QueueAgeBucket,
+  QueueSlaReport,
   JobStats,
   Session,
   Asset,
+  AssetComparison,
+  AssetRobotValue,
+  AssetRobotValueInput,
+  AssetValueInput,
+  AssetWriteResult,
+  WritableAssetType,
   ProcessSchedule,
   AuditLog,
   FaultedJobSummary,
@@ -32,13 +77,126 @@ import type {
   CountStats,
   RobotType,
 } from "./types.js"
+import {
+  and,
+  buildQuery,
+  dateTimeOffset,
+  eq,
+  formatLiteral,
+  ge,
+  isIn,
+  le,
+  lt,
+  or,
+  parseFieldList,
+  parseFilter,
+  parseOrderBy,
+} from "./odata.js"
+import type { ODataFilter } from "./odata.js"
+import { compileSchema, validateAgainst } from "./json-schema.js"
+import { parseArgumentDefinitions, validateInputArguments } from "./process-arguments.js"
+import type { ArgumentDefinition } from "./process-arguments.js"
+import { collapseLogLines, findFirstError, parseJobError } from "./job-logs.js"
+import { clusterFaultedJobs } from "./job-faults.js"
+import { buildFleetHealth } from "./fleet-health.js"
+import { collect, collectUpTo, mapConcurrent } from "./async.js"
+import {
+  buildTrendBuckets,
+  comparePeriods,
+  computeDuration,
+  countBuckets,
+  groupByProcess,
+  percentile,
+} from "./job-trends.js"
+import type { FieldError } from "./json-schema.js"
+import {
+  assetValueFields,
+  compareAssetSets,
+  diffAssets,
+  isWritableAssetType,
+  maskAsset,
+  secretFieldNames,
+  writableAssetFields,
+  writableRobotValueFields,
+} from "./assets.js"
+import {
+  AuthError,
+  NotFoundError,
+  PermissionError,
+  SchemaValidationError,
+  ValidationError,
+  errorFromResponse,
+  isInvalidODataQuery,
+  parseErrorBody,
+} from "./errors.js"
+import {
+  CircuitBreaker,
+  computeBackoff,
+  isIdempotent,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  sleep,
+} from "./retry.js"
+import type { RetryPolicy } from "./retry.js"
+
+const DEFAULT_PAGE_SIZE = 100
+const DEFAULT_MAX_ITEMS = 10000
+const MAX_ODATA_QUERY_TOP = 1000
+const BULK_LOOKUP_CHUNK_SIZE = 50
+const REQUEST_CONCURRENCY = 4
+const FLEET_MAX_ITEMS = 5000
+const RUNNING_JOBS_MAX_ITEMS = 1000
+/** QueueDefinitionDto fields a PUT accepts; ids, creation time and OData annotations are server-set. */
+const QUEUE_DEFINITION_WRITABLE_FIELDS = [
+  "Name",
+  "Description",
+  "MaxNumberOfRetries",
+  "AcceptAutomaticallyRetry",
+  "EnforceUniqueReference",
+  "SpecificDataJsonSchema",
+  "OutputDataJsonSchema",
+  "AnalyticsDataJsonSchema",
+  "SlaInMinutes",
+  "RiskSlaInMinutes",
+] as const satisfies readonly (keyof QueueDefinition)[]
+const MACHINE_SLOT_FIELDS = ["UnattendedSlots", "NonProductionSlots", "TestAutomationSlots", "HeadlessSlots"] as const
+
+/** Entity sets reachable through the generic read-only OData query. */
+export const ODATA_QUERY_ENTITY_SETS = [
+  "AuditLogs",
+  "Buckets",
+  "Calendars",
+  "Environments",
+  "Folders",
+  "Jobs",
+  "Libraries",
+  "Machines",
+  "ProcessSchedules",
+  "Processes",
+  "QueueDefinitions",
+  "QueueItems",
+  "Releases",
+  "RobotLogs",
+  "Robots",
+  "Roles",
+  "Sessions",
+  "TestCaseExecutions",
+  "TestSetExecutions",
+  "TestSets",
+  "Users",
+  "Webhooks",
+] as const
+
+export type ODataQueryEntitySet = (typeof ODATA_QUERY_ENTITY_SETS)[number]
 
 /**
  * Client for the UiPath Orchestrator REST API.
  *
  * Handles OAuth 2.0 client-credentials authentication, automatic token
- * refresh, OData query building, and folder-scoped requests. All public
- * methods correspond to Orchestrator API endpoints and return typed results.
+ * refresh, OData query building, folder-scoped requests, and retries with
+ * backoff behind a circuit breaker. All public methods correspond to
+ * Orchestrator API endpoints and return typed results.
  */
 export class UiPathClient {
   private config: UiPathConfig
@@ -46,6 +204,8 @@ export class UiPathClient {
   private tokenExpiresAt: Date | null = null
   private baseUrl: string
   private defaultFolderId?: number
+  private retryPolicy: RetryPolicy
+  private circuitBreaker: CircuitBreaker
 
   constructor(config: UiPathConfig) {
     this.config = config
@@ -54,16 +214,14 @@ export class UiPathClient {
     }
     this.defaultFolderId = config.defaultFolderId
     this.baseUrl = this.buildOrchestratorUrl()
+    this.retryPolicy = resolveRetryPolicy(config.retry)
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreaker)
   }
 
   private getFolderId(folderId?: number): number | undefined {
     return folderId ?? this.defaultFolderId
   }
 
-  private escapeODataString(value: string): string {
-    return value.replace(/'/g, "''")
-  }
-
   private buildOrchestratorUrl(): string {
     let base = this.config.baseUrl
     const tenant = this.config.tenantName
@@ -86,6 +244,22 @@ export class UiPathClient {
     return `${url.protocol}//${url.host}${orgPath}/identity_/connect/token`
   }
 
+  /**
+   * A client for another tenant of the same organization. External
+   * applications are registered per organization, so the credentials carry over.
+   * @param tenantName - Tenant to connect to.
+   */
+  forTenant(tenantName: string): UiPathClient {
+    const url = new URL(this.config.baseUrl)
+    const orgPath = url.pathname.split("/").filter(p => p)[0] ?? ""
+    return new UiPathClient({
+      ...this.config,
+      baseUrl: `${url.protocol}//${url.host}/${orgPath}`,
+      tenantName,
+      defaultFolderId: undefined,
+    })
+  }
+
   private async ensureToken(): Promise<string> {
     if (this.accessToken && this.tokenExpiresAt) {
       const now = new Date()
@@ -110,13 +284,18 @@ export class UiPathClient {
       console.error("DEBUG: Client Secret length:", this.config.clientSecret.length)
     }
 
-    const response = await fetch(identityUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
+    // Token requests have no side effects, so they are retried like a GET
+    const response = await this.fetchWithRetry(
+      identityUrl,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: body.toString(),
       },
-      body: body.toString(),
-    })
+      true
+    )
 
     if (!response.ok) {
       const error = await response.text()
@@ -124,7 +303,15 @@ export class UiPathClient {
         console.error('DEBUG: Auth failed. Response status:', response.status)
         console.error('DEBUG: Error:', error)
       }
-      throw new Error(`Failed to obtain access token: ${error}`)
+      if (response.status >= 500 || response.status === 429) {
+        throw errorFromResponse(response.status, error, { headers: response.headers })
+      }
+      const parsed = parseErrorBody(error)
+      throw new AuthError(`Failed to obtain access token: ${parsed.message ?? response.status}`, {
+        status: response.status,
+        errorCode: parsed.errorCode,
+        traceId: parsed.traceId,
+      })
     }
 
     const data = (await response.json()) as TokenResponse
@@ -145,6 +332,66 @@ export class UiPathClient {
     return headers
   }
 
+  /**
+   * Issue a fetch, retrying transient failures according to the retry policy.
+   * Non-idempotent requests are only retried on 429. Retry-After is honored
+   * when present; if it asks for longer than maxDelayMs the last response is
+   * returned instead of waiting. Final outcomes feed the circuit breaker:
+   * network errors and 5xx responses count as failures.
+   * @param url - Absolute request URL.
+   * @param init - Request options, reused for every attempt.
+   * @param idempotent - Whether the request is safe to repeat.
+   * @returns The last response received, which may be non-2xx.
+   * @throws {CircuitOpenError} If the circuit breaker is open.
+   */
+  private async fetchWithRetry(
+    url: string,
+    init: RequestInit,
+    idempotent: boolean
+  ): Promise<Response> {
+    this.circuitBreaker.assertCanRequest()
+    const policy = this.retryPolicy
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response
+      try {
+        response = await fetch(url, init)
+      } catch (error) {
+        if (idempotent && attempt < policy.maxAttempts) {
+          await sleep(computeBackoff(attempt, policy))
+          continue
+        }
+        this.circuitBreaker.recordFailure()
+        throw error
+      }
+
+      if (
+        !response.ok &&
+        attempt < policy.maxAttempts &&
+        isRetryableStatus(response.status, idempotent, policy)
+      ) {
+        const delay =
+          parseRetryAfter(response.headers.get("Retry-After")) ?? computeBackoff(attempt, policy)
+        if (delay <= policy.maxDelayMs) {
+          await response.body?.cancel()
+          await sleep(delay)
+          continue
+        }
+      }
+
+      if (response.status >= 500) {
+        this.circuitBreaker.recordFailure()
+      } else {
+        this.circuitBreaker.recordSuccess()
+      }
+      return response
+    }
+  }
+
+  /**
+   * Send an authenticated request to the Orchestrator API and parse the JSON body.
+   * @throws {UiPathError} Subclass matching the HTTP status for non-2xx responses.
+   */
   private async request<T>(
     method: string,
     endpoint: string,
@@ -152,33 +399,93 @@ export class UiPathClient {
     body?: unknown,
     folderId?: number
   ): Promise<T> {
-    const token = await this.ensureToken()
-    const headers = this.getHeaders(token, folderId)
-
-    let url = `${this.baseUrl}${endpoint}`
+    // Absolute endpoints come from @odata.nextLink and already carry their query
+    let url = /^https?:\/\//i.test(endpoint) ? endpoint : `${this.baseUrl}${endpoint}`
     if (params) {
       const searchParams = new URLSearchParams(params)
       const query = searchParams.toString().replace(/\+/g, "%20")
       url += `?${query}`
     }
 
+    const token = await this.ensureToken()
     const options: RequestInit = {
       method,
-      headers,
+      headers: this.getHeaders(token, folderId),
     }
-
     if (body) {
       options.body = JSON.stringify(body)
     }
 
-    const response = await fetch(url, options)
+    const response = await this.fetchWithRetry(url, options, isIdempotent(method))
 
     if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`API request failed (${response.status}): ${error}`)
+      throw errorFromResponse(response.status, await response.text(), {
+        headers: response.headers,
+        endpoint,
+        retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+      })
     }
 
-    return response.json() as T
+    // Action endpoints (StopJob, DeleteBulk, ...) may answer with an empty body
+    const text = await response.text()
+    return (text ? JSON.parse(text) : undefined) as T
+  }
+
+  /**
+   * Walk every page of an OData collection, yielding items one at a time.
+   * Follows @odata.nextLink when the server provides one, otherwise advances
+   * $skip until a short page is returned. Drops $orderby and retries if the
+   * server rejects the first page with an invalid OData query error.
+   * @param endpoint - OData entity set path (e.g. "/odata/Jobs").
+   * @param params - Query parameters other than $top/$skip.
+   * @param folderId - Folder scope.
+   * @param options.pageSize - Items requested per page (default 100).
+   * @param options.maxItems - Stop after this many items (default 10000).
+   */
+  private async *paginate<T>(
+    endpoint: string,
+    params: Record<string, string>,
+    folderId: number | undefined,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<T> {
+    const pageSize = options.pageSize || DEFAULT_PAGE_SIZE
+    const maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS
+    const queryParams = { ...params }
+    let skip = 0
+    let yielded = 0
+    let nextLink: string | undefined
+
+    while (yielded < maxItems) {
+      let data: ODataResponse<T>
+      let requested = pageSize
+      if (nextLink) {
+        data = await this.request<ODataResponse<T>>("GET", nextLink, undefined, undefined, folderId)
+      } else {
+        requested = Math.min(pageSize, maxItems - yielded)
+        const pageParams = () => ({ ...queryParams, ...buildQuery({ top: requested, skip }) })
+        try {
+          data = await this.request<ODataResponse<T>>("GET", endpoint, pageParams(), undefined, folderId)
+        } catch (error) {
+          if (yielded === 0 && queryParams.$orderby && isInvalidODataQuery(error)) {
+            delete queryParams.$orderby
+            data = await this.request<ODataResponse<T>>("GET", endpoint, pageParams(), undefined, folderId)
+          } else {
+            throw error
+          }
+        }
+      }
+
+      for (const item of data.value) {
+        if (yielded >= maxItems) return
+        yield item
+        yielded += 1
+      }
+
+      // Count nextLink pages too, so a later $skip request resumes after them
+      skip += data.value.length
+      nextLink = data["@odata.nextLink"]
+      if (!nextLink && (data.value.length === 0 || data.value.length < requested)) return
+    }
   }
 
   // ============ Queue Operations ============
@@ -211,13 +518,145 @@ export class UiPathClient {
     const data = await this.request<ODataResponse<QueueDefinition>>(
       "GET",
       "/odata/QueueDefinitions",
-      { $filter: `Name eq '${encodeURIComponent(name)}'` },
+      buildQuery({ filter: eq<QueueDefinition>("Name", name) }),
       undefined,
       effectiveFolderId
     )
     return data.value[0] || null
   }
 
+  /**
+   * Create a queue definition.
+   * @param name - Queue name, unique within the folder.
+   * @param settings - Retry, uniqueness and schema settings. Retries default to
+   *   1 with automatic retry on; unique references default to off.
+   * @param folderId - Folder to create the queue in.
+   * @returns The created queue definition.
+   */
+  async createQueueDefinition(
+    name: string,
+    settings: QueueDefinitionSettings = {},
+    folderId?: number
+  ): Promise<QueueDefinition> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    return this.request<QueueDefinition>(
+      "POST",
+      "/odata/QueueDefinitions",
+      undefined,
+      {
+        Name: name,
+        Description: settings.Description ?? null,
+        MaxNumberOfRetries: settings.MaxNumberOfRetries ?? 1,
+        AcceptAutomaticallyRetry: settings.AcceptAutomaticallyRetry ?? true,
+        EnforceUniqueReference: settings.EnforceUniqueReference ?? false,
+        SpecificDataJsonSchema: settings.SpecificDataJsonSchema,
+      },
+      effectiveFolderId
+    )
+  }
+
+  /**
+   * Change the settings of an existing queue definition. Unspecified settings
+   * keep their current values.
+   * @param queueId - Queue definition ID.
+   * @param changes - Settings to change, including a new Name.
+   * @param folderId - Folder scope.
+   * @returns The updated queue definition.
+   */
+  async updateQueueDefinition(
+    queueId: number,
+    changes: QueueDefinitionSettings & { Name?: string },
+    folderId?: number
+  ): Promise<QueueDefinition> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const endpoint = `/odata/QueueDefinitions(${queueId})`
+    const current = await this.request<QueueDefinition>("GET", endpoint, undefined, undefined, effectiveFolderId)
+    const requested: Record<string, unknown> = changes
+    const body: Record<string, unknown> = {}
+    for (const field of QUEUE_DEFINITION_WRITABLE_FIELDS) {
+      body[field] = requested[field] !== undefined ? requested[field] : current[field]
+    }
+    await this.request<void>("PUT", endpoint, undefined, body, effectiveFolderId)
+    return this.request<QueueDefinition>("GET", endpoint, undefined, undefined, effectiveFolderId)
+  }
+
+  /**
+   * Delete an empty queue definition.
+   * @param queueId - Queue definition ID.
+   * @param folderId - Folder scope.
+   * @throws {ValidationError} If the queue still has items in any status.
+   */
+  async deleteQueueDefinition(queueId: number, folderId?: number): Promise<void> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const { items, count } = await this.getQueueItems({ queueId, folderId: effectiveFolderId, top: 1 })
+    const itemCount = count ?? items.length
+    if (itemCount > 0) {
+      throw new ValidationError(`Queue ${queueId} still has ${itemCount} items; only empty queues can be deleted`)
+    }
+    await this.request<void>(
+      "DELETE",
+      `/odata/QueueDefinitions(${queueId})`,
+      undefined,
+      undefined,
+      effectiveFolderId
+    )
+  }
+
+  /**
+   * Get the JSON schemas a queue enforces on item content, output and analytics data.
+   * @param queueName - Queue name.
+   * @param folderId - Folder scope.
+   * @returns The parsed schemas (null when the queue defines none).
+   * @throws {NotFoundError} If the queue does not exist in the folder.
+   */
+  async getQueueSchema(queueName: string, folderId?: number): Promise<{
+    queueId: number
+    queueName: string
+    enforceUniqueReference: boolean
+    specificDataJsonSchema: unknown
+    outputDataJsonSchema: unknown
+    analyticsDataJsonSchema: unknown
+  }> {
+    const queue = await this.getQueueDefinitionByName(queueName, folderId)
+    if (!queue) {
+      throw new NotFoundError(`Queue not found: ${queueName}`)
+    }
+    const parse = (text: string | undefined | null) => {
+      if (!text) return null
+      try {
+        return JSON.parse(text)
+      } catch {
+        return text
+      }
+    }
+    return {
+      queueId: queue.Id,
+      queueName: queue.Name,
+      enforceUniqueReference: queue.EnforceUniqueReference,
+      specificDataJsonSchema: parse(queue.SpecificDataJsonSchema),
+      outputDataJsonSchema: parse(queue.OutputDataJsonSchema),
+      analyticsDataJsonSchema: parse(queue.AnalyticsDataJsonSchema),
+    }
+  }
+
+  /**
+   * Build a validator for a queue's SpecificDataJsonSchema. Queues without a
+   * schema, or with one that cannot be compiled, accept any content; the
+   * server stays the final authority.
+   * @throws {NotFoundError} If the queue does not exist in the folder.
+   */
+  private async queueContentValidator(
+    queueName: string,
+    folderId?: number
+  ): Promise<(content: Record<string, unknown>) => FieldError[]> {
+    const queue = await this.getQueueDefinitionByName(queueName, folderId)
+    if (!queue) {
+      throw new NotFoundError(`Queue not found: ${queueName}`)
+    }
+    const validate = queue.SpecificDataJsonSchema ? compileSchema(queue.SpecificDataJsonSchema) : null
+    return content => (validate ? validateAgainst(validate, content) : [])
+  }
+
   /**
    * Query queue items with optional filters for queue, status, and pagination.
    * Falls back to a simpler OData query if the server rejects $count or $orderby.
@@ -238,30 +677,14 @@ export class UiPathClient {
     orderBy?: string
   } = {}): Promise<{ items: QueueItem[]; count: number | null }> {
     const effectiveFolderId = this.getFolderId(options.folderId)
-    const buildParams = (includeCount: boolean, orderBy?: string) => {
-      const params: Record<string, string> = {
-        $top: String(options.top || 100),
-        $skip: String(options.skip || 0),
-      }
-      if (orderBy) {
-        params.$orderby = orderBy
-      }
-      if (includeCount) {
-        params.$count = "true"
-      }
-
-      const filters: string[] = []
-      if (options.queueId !== undefined) {
-        filters.push(`QueueDefinitionId eq ${options.queueId}`)
-      }
-      if (options.status) {
-        filters.push(`Status eq '${options.status}'`)
-      }
-      if (filters.length > 0) {
-        params.$filter = filters.join(" and ")
-      }
-      return params
-    }
+    const buildParams = (includeCount: boolean, orderBy?: string) =>
+      buildQuery({
+        top: options.top || 100,
+        skip: options.skip || 0,
+        orderBy,
+        count: includeCount,
+        filter: this.queueItemFilter(options),
+      })
 
     let data: ODataResponse<QueueItem>
     try {
@@ -273,7 +696,7 @@ export class UiPathClient {
         effectiveFolderId
       )
     } catch (error) {
-      if (error instanceof Error && error.message.includes("Invalid OData query options")) {
+      if (isInvalidODataQuery(error)) {
         data = await this.request<ODataResponse<QueueItem>>(
           "GET",
           "/odata/QueueItems",
@@ -291,6 +714,35 @@ export class UiPathClient {
     }
   }
 
+  /**
+   * Iterate over every queue item matching the filters, fetching pages on demand.
+   * @param options.queueId - Filter by queue definition ID.
+   * @param options.status - Filter by item status.
+   * @param options.folderId - Folder scope.
+   * @param options.orderBy - OData $orderby expression (default CreationTime desc).
+   * @param options.pageSize - Items per request (default 100).
+   * @param options.maxItems - Stop after this many items (default 10000).
+   */
+  iterateQueueItems(options: {
+    queueId?: number
+    status?: QueueItemStatus
+    folderId?: number
+    orderBy?: string
+  } & PaginationOptions = {}): AsyncGenerator<QueueItem> {
+    const params = buildQuery({
+      orderBy: options.orderBy || "CreationTime desc",
+      filter: this.queueItemFilter(options),
+    })
+    return this.paginate<QueueItem>("/odata/QueueItems", params, this.getFolderId(options.folderId), options)
+  }
+
+  private queueItemFilter(options: { queueId?: number; status?: QueueItemStatus }): ODataFilter | undefined {
+    return and(
+      options.queueId !== undefined ? eq<QueueItem>("QueueDefinitionId", options.queueId) : undefined,
+      options.status ? eq<QueueItem>("Status", options.status) : undefined
+    )
+  }
+
   /**
    * Add a new transaction item to a queue.
    * @param queueName - Name of the target queue.
@@ -300,7 +752,10 @@ export class UiPathClient {
    * @param options.deferDate - Earliest processing time (ISO 8601).
    * @param options.dueDate - Deadline for processing (ISO 8601).
    * @param options.folderId - Folder scope.
+   * @param options.validate - Check specificContent against the queue's
+   *   SpecificDataJsonSchema before sending (default true).
    * @returns The created queue item.
+   * @throws {SchemaValidationError} If the content does not match the queue's schema.
    */
   async addQueueItem(
     queueName: string,
@@ -311,9 +766,20 @@ export class UiPathClient {
       deferDate?: string
       dueDate?: string
       folderId?: number
+      validate?: boolean
     } = {}
   ): Promise<QueueItem> {
     const effectiveFolderId = this.getFolderId(options.folderId)
+    if (options.validate !== false) {
+      const validate = await this.queueContentValidator(queueName, effectiveFolderId)
+      const fieldErrors = validate(specificContent)
+      if (fieldErrors.length > 0) {
+        throw new SchemaValidationError(
+          `Queue item content does not match the schema of queue ${queueName}`,
+          fieldErrors
+        )
+      }
+    }
     const request: AddQueueItemRequest = {
       itemData: {
         Name: queueName,
@@ -335,150 +801,822 @@ export class UiPathClient {
   }
 
   /**
-   * Compute statistics for a single queue by counting items in each status.
-   * Issues one count query per status (New, InProgress, Successful, Failed, Abandoned).
-   * @param queueId - Queue definition ID.
-   * @param queueName - Queue name (included in the returned stats object).
-   * @param folderId - Folder scope.
-   * @returns Counts per status, total items, and success rate percentage.
+   * Add several items to a queue in one request.
+   * @param queueName - Name of the target queue.
+   * @param items - Items to add; each needs its SpecificContent.
+   * @param options.commitType - ProcessAllIndependently (default) adds every valid item;
+   *   AllOrNothing rejects the batch if any item fails; StopOnFirstFailure stops at the first failure.
+   * @param options.folderId - Folder scope.
+   * @param options.validate - Check each item against the queue's SpecificDataJsonSchema
+   *   (default true). With ProcessAllIndependently, invalid items are reported as
+   *   failed and the rest are sent; other commit types reject the whole batch.
+   * @returns Overall success, number of items added, and the failed items with their errors.
+   * @throws {SchemaValidationError} If items are invalid and the commit type is not ProcessAllIndependently.
    */
-  async getQueueStats(queueId: number, queueName: string, folderId?: number): Promise<QueueStats> {
-    const effectiveFolderId = this.getFolderId(folderId)
-    const stats: QueueStats = {
-      queueId,
-      queueName,
-      totalItems: 0,
-      newItems: 0,
-      inProgressItems: 0,
-      successfulItems: 0,
-      failedItems: 0,
-      abandonedItems: 0,
-      successRate: null,
-    }
-
-    const statuses: QueueItemStatus[] = [
-      "New",
-      "InProgress",
-      "Successful",
-      "Failed",
-      "Abandoned",
-    ]
-
-    for (const status of statuses) {
-      const { count } = await this.getQueueItems({
-        queueId,
-        status,
-        folderId: effectiveFolderId,
-        top: 1,
-      })
-      const itemCount = count || 0
-      stats.totalItems += itemCount
+  async bulkAddQueueItems(
+    queueName: string,
+    items: Omit<QueueItemData, "Name">[],
+    options: { commitType?: BulkAddCommitType; folderId?: number; validate?: boolean } = {}
+  ): Promise<BulkAddQueueItemsResult> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const commitType = options.commitType || "ProcessAllIndependently"
 
-      switch (status) {
-        case "New":
-          stats.newItems = itemCount
-          break
-        case "InProgress":
-          stats.inProgressItems = itemCount
-          break
-        case "Successful":
-          stats.successfulItems = itemCount
-          break
-        case "Failed":
-          stats.failedItems = itemCount
-          break
-        case "Abandoned":
-          stats.abandonedItems = itemCount
-          break
+    const invalid: BulkAddQueueItemsResult["failed"] = []
+    let toSend = items.map((item, index) => ({ item, index }))
+    if (options.validate !== false) {
+      const validate = await this.queueContentValidator(queueName, effectiveFolderId)
+      const fieldErrors: FieldError[] = []
+      for (const { item, index } of toSend) {
+        const errors = validate(item.SpecificContent)
+        fieldErrors.push(...errors.map(e => ({ field: e.field ? `[${index}].${e.field}` : `[${index}]`, message: e.message })))
+        if (errors.length > 0) {
+          invalid.push({
+            index,
+            reference: item.Reference ?? null,
+            errorCode: "schema_validation",
+            error: errors.map(e => (e.field ? `${e.field}: ${e.message}` : e.message)).join("; "),
+          })
+        }
+      }
+      if (invalid.length > 0 && commitType !== "ProcessAllIndependently") {
+        throw new SchemaValidationError(
+          `${invalid.length} of ${items.length} items do not match the schema of queue ${queueName}`,
+          fieldErrors
+        )
+      }
+      const invalidIndexes = new Set(invalid.map(failure => failure.index))
+      toSend = toSend.filter(({ index }) => !invalidIndexes.has(index))
+      if (toSend.length === 0) {
+        return { success: false, added: 0, failed: invalid }
       }
     }
 
-    const completed = stats.successfulItems + stats.failedItems
-    if (completed > 0) {
-      stats.successRate = (stats.successfulItems / completed) * 100
+    const request: BulkAddQueueItemsRequest = {
+      queueName,
+      commitType,
+      queueItems: toSend.map(({ item }) => ({ ...item, Priority: item.Priority || "Normal" })),
     }
 
-    return stats
-  }
-
-  // ============ Folder / Robot / Machine / Asset / Log Operations ============
-
-  /**
-   * List Orchestrator folders with pagination.
-   * @param options.top - Maximum folders to return (default 100).
-   * @param options.skip - Items to skip.
-   * @param options.orderBy - OData $orderby expression (default DisplayName asc).
-   * @returns Folders array and total count.
-   */
-  async getFolders(options: {
-    top?: number
-    skip?: number
-    orderBy?: string
-  } = {}): Promise<{ folders: Folder[]; count: number | null }> {
-    const params: Record<string, string> = {
-      $top: String(options.top || 100),
-      $skip: String(options.skip || 0),
-      $orderby: options.orderBy || "DisplayName asc",
-      $count: "true",
-    }
+    const response = await this.request<BulkOperationResponse<Omit<QueueItemData, "Name">>>(
+      "POST",
+      "/odata/Queues/UiPathODataSvc.BulkAddQueueItems",
+      undefined,
+      request,
+      effectiveFolderId
+    )
 
-    const data = await this.request<ODataResponse<Folder>>("GET", "/odata/Folders", params)
+    // Failures echo the item body but not its position, so each is matched to the
+    // first sent item with the same reference and content that is not yet claimed
+    const unclaimed = [...toSend]
+    const isSame = (item: Omit<QueueItemData, "Name">, body: Partial<Omit<QueueItemData, "Name">>) =>
+      (item.Reference ?? null) === (body.Reference ?? null) &&
+      (body.SpecificContent === undefined || JSON.stringify(item.SpecificContent) === JSON.stringify(body.SpecificContent))
+    const failedItems = response.FailedItems ?? []
+    const failed = failedItems.map(failure => {
+      const body = failure.Body
+      const position = body ? unclaimed.findIndex(({ item }) => isSame(item, body)) : -1
+      const sent = position >= 0 ? unclaimed.splice(position, 1)[0] : undefined
+      return {
+        index: sent?.index ?? null,
+        reference: body?.Reference ?? null,
+        errorCode: failure.ErrorCode ?? null,
+        error: failure.ErrorMessage || "Item was not added",
+      }
+    })
+    const rejectedAll = commitType === "AllOrNothing" && failed.length > 0
     return {
-      folders: data.value,
-      count: data["@odata.count"] ?? null,
+      success: response.Success && failed.length === 0 && invalid.length === 0,
+      added: rejectedAll ? 0 : Math.max(0, toSend.length - failed.length),
+      failed: [...invalid, ...failed],
     }
   }
 
   /**
-   * List robots, optionally filtered by folder.
-   * When a folderId is provided the folder-specific endpoint is used.
-   * @param options.folderId - Restrict to robots in this folder.
-   * @param options.top - Max items (default 100).
-   * @param options.skip - Pagination offset.
-   * @returns Robots array and total count.
+   * Retry Failed queue items. Each retried item is cloned by Orchestrator as a
+   * new item and the original is marked as Retried.
+   * @param itemIds - Queue item IDs; items that are not Failed are reported as failures.
+   * @param folderId - Folder scope.
+   * @returns IDs that were retried and per-item errors.
    */
-  async getRobots(options: {
-    folderId?: number
-    top?: number
-    skip?: number
-    orderBy?: string
-  } = {}): Promise<{ robots: Robot[]; count: number | null }> {
-    const effectiveFolderId = this.getFolderId(options.folderId)
-    const params: Record<string, string> = {
-      $top: String(options.top || 100),
-      $skip: String(options.skip || 0),
-      $orderby: options.orderBy || "Name asc",
-      $count: "true",
-    }
+  async retryQueueItems(itemIds: number[], folderId?: number): Promise<BulkItemResult> {
+    return this.setQueueItemReviewStatus(itemIds, "Retried", folderId)
+  }
 
-    const endpoint = effectiveFolderId
-      ? `/odata/Robots/UiPath.Server.Configuration.OData.GetRobotsFromFolder(folderId=${effectiveFolderId})`
-      : "/odata/Robots"
+  /**
+   * Delete queue items that have not been processed yet.
+   * @param itemIds - Queue item IDs; only items in New status can be deleted.
+   * @param folderId - Folder scope.
+   * @returns IDs that were deleted and per-item errors.
+   */
+  async deleteQueueItems(itemIds: number[], folderId?: number): Promise<BulkItemResult> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const { eligible, result } = await this.loadQueueItemsForBulk(
+      itemIds,
+      item => (item.Status === "New" ? null : `Only New items can be deleted (status: ${item.Status})`),
+      effectiveFolderId
+    )
+    if (eligible.length === 0) return result
 
-    const data = await this.request<ODataResponse<Robot>>("GET", endpoint, params)
-    return {
-      robots: data.value,
-      count: data["@odata.count"] ?? null,
-    }
+    const response = await this.request<BulkOperationResponse<unknown>>(
+      "POST",
+      "/odata/QueueItems/UiPathODataSvc.DeleteBulk",
+      undefined,
+      { queueItems: eligible.map(item => ({ Id: item.Id, RowVersion: item.RowVersion })) },
+      effectiveFolderId
+    )
+    return this.mergeBulkResponse(result, eligible, response)
   }
 
   /**
-   * List all registered machines.
-   * @param options.top - Max items (default 100).
-   * @param options.skip - Pagination offset.
-   * @returns Machines array and total count.
+   * Change the priority, defer date or due date of a queue item in New status.
+   * The current content and reference are kept.
+   * @param itemId - Queue item ID.
+   * @param changes.priority - Low, Normal or High.
+   * @param changes.deferDate - Earliest processing time (ISO 8601), or null to clear it.
+   * @param changes.dueDate - Deadline for processing (ISO 8601), or null to clear it.
+   * @param folderId - Folder scope.
+   * @returns The updated queue item.
+   * @throws {ValidationError} If the item is no longer New.
+   */
+  async updateQueueItem(
+    itemId: number,
+    changes: {
+      priority?: "Low" | "Normal" | "High"
+      deferDate?: string | null
+      dueDate?: string | null
+    },
+    folderId?: number
+  ): Promise<QueueItem> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const item = await this.request<QueueItem>(
+      "GET",
+      `/odata/QueueItems(${itemId})`,
+      undefined,
+      undefined,
+      effectiveFolderId
+    )
+    if (item.Status !== "New") {
+      throw new ValidationError(`Only New queue items can be updated (item ${itemId} is ${item.Status})`)
+    }
+    const queue = await this.request<QueueDefinition>(
+      "GET",
+      `/odata/QueueDefinitions(${item.QueueDefinitionId})`,
+      undefined,
+      undefined,
+      effectiveFolderId
+    )
+
+    const pick = (value: string | null | undefined, current: string | null) =>
+      value === undefined ? current ?? undefined : value ?? undefined
+    const itemData: QueueItemData = {
+      Name: queue.Name,
+      SpecificContent: item.SpecificContent ?? {},
+      Reference: item.Reference ?? undefined,
+      Priority: changes.priority ?? item.Priority,
+      DeferDate: pick(changes.deferDate, item.DeferDate),
+      DueDate: pick(changes.dueDate, item.DueDate),
+    }
+
+    await this.request<void>(
+      "PUT",
+      `/odata/QueueItems(${itemId})`,
+      undefined,
+      itemData,
+      effectiveFolderId
+    )
+    return this.request<QueueItem>(
+      "GET",
+      `/odata/QueueItems(${itemId})`,
+      undefined,
+      undefined,
+      effectiveFolderId
+    )
+  }
+
+  /**
+   * Set the review status of Failed queue items (None, InReview, Verified or Retried).
+   * @param itemIds - Queue item IDs; items that are not Failed are reported as failures.
+   * @param status - New review status. Retried clones each item for reprocessing.
+   * @param folderId - Folder scope.
+   * @returns IDs that were updated and per-item errors.
+   */
+  async setQueueItemReviewStatus(
+    itemIds: number[],
+    status: QueueItemReviewStatus,
+    folderId?: number
+  ): Promise<BulkItemResult> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const { eligible, result } = await this.loadQueueItemsForBulk(
+      itemIds,
+      item => (item.Status === "Failed" ? null : `Only Failed items can be reviewed or retried (status: ${item.Status})`),
+      effectiveFolderId
+    )
+    if (eligible.length === 0) return result
+
+    const response = await this.request<BulkOperationResponse<unknown>>(
+      "POST",
+      "/odata/QueueItems/UiPathODataSvc.SetItemReviewStatus",
+      undefined,
+      { queueItems: eligible.map(item => ({ Id: item.Id, RowVersion: item.RowVersion })), status },
+      effectiveFolderId
+    )
+    return this.mergeBulkResponse(result, eligible, response)
+  }
+
+  /**
+   * Assign a reviewer to Failed queue items, or clear it.
+   * @param itemIds - Queue item IDs; items that are not Failed are reported as failures.
+   * @param userId - Orchestrator user ID of the reviewer, or null to unassign.
+   * @param folderId - Folder scope.
+   * @returns IDs that were updated and per-item errors.
+   */
+  async setQueueItemReviewer(itemIds: number[], userId: number | null, folderId?: number): Promise<BulkItemResult> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const { eligible, result } = await this.loadQueueItemsForBulk(
+      itemIds,
+      item => (item.Status === "Failed" ? null : `Only Failed items can have a reviewer (status: ${item.Status})`),
+      effectiveFolderId
+    )
+    if (eligible.length === 0) return result
+
+    const queueItems = eligible.map(item => ({ Id: item.Id, RowVersion: item.RowVersion }))
+    const response = await this.request<BulkOperationResponse<unknown>>(
+      "POST",
+      userId === null
+        ? "/odata/QueueItems/UiPathODataSvc.UnsetItemReviewer"
+        : "/odata/QueueItems/UiPathODataSvc.SetItemReviewer",
+      undefined,
+      userId === null ? { queueItems } : { queueItems, userId },
+      effectiveFolderId
+    )
+    return this.mergeBulkResponse(result, eligible, response)
+  }
+
+  /**
+   * Fetch the items targeted by a bulk operation (bulk endpoints need each
+   * item's RowVersion) and split them into eligible items and per-item errors
+   * for IDs that are missing or fail the status check.
+   */
+  private async loadQueueItemsForBulk(
+    itemIds: number[],
+    reject: (item: QueueItem) => string | null,
+    folderId?: number
+  ): Promise<{ eligible: QueueItem[]; result: BulkItemResult }> {
+    const ids = [...new Set(itemIds)]
+    if (ids.length === 0) {
+      throw new ValidationError("At least one queue item ID is required")
+    }
+    const found = await this.fetchByIds<QueueItem>("/odata/QueueItems", ids, ["Id", "Status", "RowVersion"], folderId)
+
+    const byId = new Map(found.map(item => [item.Id, item]))
+    const eligible: QueueItem[] = []
+    const result: BulkItemResult = { succeeded: [], failed: [] }
+    for (const id of ids) {
+      const item = byId.get(id)
+      const error = item ? reject(item) : `Queue item not found: ${id}`
+      if (item && error === null) {
+        eligible.push(item)
+      } else if (error !== null) {
+        result.failed.push({ id, error })
+      }
+    }
+    return { eligible, result }
+  }
+
+  /**
+   * Fetch entities by ID, in chunks so the `Id eq ... or ...` filter keeps
+   * the URL within server limits.
+   */
+  private async fetchByIds<T extends { Id: number }>(
+    endpoint: string,
+    ids: number[],
+    select: string[],
+    folderId?: number
+  ): Promise<T[]> {
+    const found: T[] = []
+    for (let start = 0; start < ids.length; start += BULK_LOOKUP_CHUNK_SIZE) {
+      const chunk = ids.slice(start, start + BULK_LOOKUP_CHUNK_SIZE)
+      const data = await this.request<ODataResponse<T>>(
+        "GET",
+        endpoint,
+        buildQuery({ filter: isIn("Id", chunk), select, top: chunk.length }),
+        undefined,
+        folderId
+      )
+      found.push(...data.value)
+    }
+    return found
+  }
+
+  /** Fold a bulk endpoint response into a per-item result. */
+  private mergeBulkResponse(
+    result: BulkItemResult,
+    eligible: Array<{ Id: number }>,
+    response: BulkOperationResponse<unknown> | undefined
+  ): BulkItemResult {
+    const failedItems = response?.FailedItems ?? []
+    const failures = new Map<number, string>()
+    for (const failure of failedItems) {
+      const body = failure.Body as { Id?: number } | number | undefined
+      const id = typeof body === "number" ? body : body?.Id
+      if (id !== undefined) {
+        failures.set(id, failure.ErrorMessage || "Operation failed")
+      }
+    }
+    // A failed batch that does not identify its items failed as a whole
+    const batchError = response?.Success === false && failures.size === 0
+      ? failedItems[0]?.ErrorMessage || "Operation failed"
+      : undefined
+    for (const item of eligible) {
+      const error = failures.get(item.Id) ?? batchError
+      if (error) {
+        result.failed.push({ id: item.Id, error })
+      } else {
+        result.succeeded.push(item.Id)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Assemble the full history of a queue item: every retry linked through
+   * AncestorId, the robot and job that processed each attempt, exceptions, and
+   * the QueueItemEvents audit trail, merged into one chronological timeline.
+   * Jobs are matched by robot and processing window, since queue items do not
+   * reference the job that handled them.
+   * @param itemId - ID of any item in the retry chain.
+   * @param folderId - Folder scope.
+   * @returns The requested item, a one-line summary, per-attempt details and the timeline.
+   */
+  async getQueueItemDetails(itemId: number, folderId?: number): Promise<QueueItemDetails> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const item = await this.request<QueueItem>(
+      "GET",
+      `/odata/QueueItems(${itemId})`,
+      buildQuery({ expand: ["Robot"] }),
+      undefined,
+      effectiveFolderId
+    )
+
+    const rootId = item.AncestorId ?? item.Id
+    const chain = await this.request<ODataResponse<QueueItem>>(
+      "GET",
+      "/odata/QueueItems",
+      buildQuery({
+        filter: or(eq<QueueItem>("Id", rootId), eq<QueueItem>("AncestorId", rootId)),
+        expand: ["Robot"],
+        orderBy: [["CreationTime", "asc"]],
+        top: 100,
+      }),
+      undefined,
+      effectiveFolderId
+    )
+    const items = chain.value.length > 0 ? chain.value : [item]
+
+    let events: QueueItemEvent[] = []
+    try {
+      const history = await this.request<ODataResponse<QueueItemEvent>>(
+        "GET",
+        `/odata/QueueItemEvents/UiPath.Server.Configuration.OData.GetQueueItemEventsHistory(queueItemId=${rootId})`,
+        undefined,
+        undefined,
+        effectiveFolderId
+      )
+      events = history.value
+    } catch (error) {
+      // Event history needs the Queues.View permission on older tenants; the
+      // timeline is still useful without it
+      if (!(error instanceof PermissionError) && !(error instanceof NotFoundError)) throw error
+    }
+
+    const attempts: QueueItemAttempt[] = await mapConcurrent(items, REQUEST_CONCURRENCY, async (attemptItem, index) => ({
+      queueItemId: attemptItem.Id,
+      attempt: attemptItem.RetryNumber ?? index,
+      status: attemptItem.Status,
+      robotName: attemptItem.Robot?.Name ?? null,
+      startProcessing: attemptItem.StartProcessing,
+      endProcessing: attemptItem.EndProcessing,
+      exception: attemptItem.ProcessingException ?? null,
+      job: await this.findJobForQueueItem(attemptItem, effectiveFolderId),
+    }))
+
+    const attemptOf = new Map(attempts.map(a => [a.queueItemId, a.attempt]))
+    const timeline: QueueItemTimelineEntry[] = []
+    for (const event of events) {
+      const details = [event.Status, event.ReviewStatus && `review ${event.ReviewStatus}`].filter(Boolean).join(", ")
+      const actor = event.UserName ?? event.ExternalClientId
+      timeline.push({
+        timestamp: event.Timestamp,
+        queueItemId: event.QueueItemId,
+        attempt: attemptOf.get(event.QueueItemId) ?? 0,
+        kind: "event",
+        description: `${event.Action}${details ? ` (${details})` : ""}${actor ? ` by ${actor}` : ""}`,
+      })
+    }
+    for (const attempt of attempts) {
+      const base = { queueItemId: attempt.queueItemId, attempt: attempt.attempt }
+      if (attempt.startProcessing) {
+        const robot = attempt.robotName ? ` by robot ${attempt.robotName}` : ""
+        const job = attempt.job ? ` in job ${attempt.job.Key}` : ""
+        timeline.push({ ...base, timestamp: attempt.startProcessing, kind: "started", description: `Processing started${robot}${job}` })
+      }
+      if (attempt.exception) {
+        timeline.push({
+          ...base,
+          timestamp: attempt.exception.CreationTime ?? attempt.endProcessing ?? attempt.startProcessing ?? "",
+          kind: "exception",
+          description: `${attempt.exception.Type ?? "Exception"}: ${attempt.exception.Reason ?? "no reason given"}`,
+        })
+      }
+      if (attempt.endProcessing) {
+        timeline.push({ ...base, timestamp: attempt.endProcessing, kind: "completed", description: `Processing ended with status ${attempt.status}` })
+      }
+    }
+    // Entries without a usable timestamp sort first instead of breaking the order
+    timeline.sort((a, b) => (Date.parse(a.timestamp) || 0) - (Date.parse(b.timestamp) || 0))
+
+    const last = attempts[attempts.length - 1]
+    const tries = `${attempts.length} attempt${attempts.length === 1 ? "" : "s"}`
+    const reason = last.exception ? `: ${last.exception.Type ?? "Exception"} - ${last.exception.Reason ?? "no reason given"}` : ""
+    return {
+      item,
+      summary: `${last.status} after ${tries}${reason}`,
+      attempts,
+      timeline,
+    }
+  }
+
+  /**
+   * Find the job that ran on the item's robot while the item was being processed.
+   * Returns null when no job matches or the lookup is not permitted.
+   */
+  private async findJobForQueueItem(item: QueueItem, folderId?: number): Promise<QueueItemAttempt["job"]> {
+    if (!item.Robot || !item.StartProcessing) return null
+    const data = await this.request<ODataResponse<Job>>(
+      "GET",
+      "/odata/Jobs",
+      buildQuery({
+        filter: and(
+          eq("Robot/Id", item.Robot.Id),
+          le<Job>("StartTime", dateTimeOffset(item.StartProcessing)),
+          or(ge<Job>("EndTime", dateTimeOffset(item.StartProcessing)), eq<Job>("EndTime", null))
+        ),
+        select: ["Id", "Key", "State", "ReleaseName", "StartTime", "EndTime", "HostMachineName"],
+        orderBy: [["StartTime", "desc"]],
+        top: 1,
+      }),
+      undefined,
+      folderId
+    ).catch(error => {
+      if (error instanceof PermissionError || error instanceof ValidationError) return null
+      throw error
+    })
+    return data?.value[0] ?? null
+  }
+
+  /**
+   * Compute statistics for a single queue by counting items in each status.
+   * Issues one count query per status (New, InProgress, Successful, Failed, Abandoned) in parallel.
+   * @param queueId - Queue definition ID.
+   * @param queueName - Queue name (included in the returned stats object).
+   * @param folderId - Folder scope.
+   * @returns Counts per status, total items, and success rate percentage.
+   */
+  async getQueueStats(queueId: number, queueName: string, folderId?: number): Promise<QueueStats> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const stats: QueueStats = {
+      queueId,
+      queueName,
+      totalItems: 0,
+      newItems: 0,
+      inProgressItems: 0,
+      successfulItems: 0,
+      failedItems: 0,
+      abandonedItems: 0,
+      successRate: null,
+    }
+
+    const statuses: QueueItemStatus[] = [
+      "New",
+      "InProgress",
+      "Successful",
+      "Failed",
+      "Abandoned",
+    ]
+
+    const counts = await Promise.all(
+      statuses.map(status =>
+        this.getQueueItems({ queueId, status, folderId: effectiveFolderId, top: 1 }).then(({ count }) => count || 0)
+      )
+    )
+
+    for (const [index, status] of statuses.entries()) {
+      const itemCount = counts[index]
+      stats.totalItems += itemCount
+
+      switch (status) {
+        case "New":
+          stats.newItems = itemCount
+          break
+        case "InProgress":
+          stats.inProgressItems = itemCount
+          break
+        case "Successful":
+          stats.successfulItems = itemCount
+          break
+        case "Failed":
+          stats.failedItems = itemCount
+          break
+        case "Abandoned":
+          stats.abandonedItems = itemCount
+          break
+      }
+    }
+
+    const completed = stats.successfulItems + stats.failedItems
+    if (completed > 0) {
+      stats.successRate = (stats.successfulItems / completed) * 100
+    }
+
+    return stats
+  }
+
+  /**
+   * Build an SLA and aging report for a queue: age distribution of New items,
+   * items past their DueDate or whose DeferDate has elapsed, SLA breaches when
+   * the queue defines SlaInMinutes/RiskSlaInMinutes, and processing time,
+   * retry rate and hourly throughput of items completed within the window.
+   * @param queue - The queue definition (its SLA settings are used when present).
+   * @param options.folderId - Folder scope.
+   * @param options.windowHours - Lookback for processed items (default 24).
+   * @param options.maxItems - Cap on New and processed items read (default 10000 each).
+   * @param options.now - Reference time, for reproducible reports.
+   * @returns The report; `risk` is "breached" when any item is past due or past its SLA.
+   */
+  async getQueueSlaReport(
+    queue: Pick<QueueDefinition, "Id" | "Name" | "SlaInMinutes" | "RiskSlaInMinutes">,
+    options: { folderId?: number; windowHours?: number; maxItems?: number; now?: Date } = {}
+  ): Promise<QueueSlaReport> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const windowHours = options.windowHours ?? 24
+    const maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS
+    const now = options.now ?? new Date()
+    const since = new Date(now.getTime() - windowHours * 60 * 60 * 1000)
+
+    const processedParams = buildQuery({
+      filter: and(
+        eq<QueueItem>("QueueDefinitionId", queue.Id),
+        ge<QueueItem>("EndProcessing", dateTimeOffset(since))
+      ),
+      select: ["Id", "Status", "StartProcessing", "EndProcessing", "RetryNumber"],
+      orderBy: [["EndProcessing", "desc"]],
+    })
+    const [stats, newPage, processedPage] = await Promise.all([
+      this.getQueueStats(queue.Id, queue.Name, effectiveFolderId),
+      collectUpTo(
+        this.iterateQueueItems({ queueId: queue.Id, status: "New", folderId: effectiveFolderId, maxItems: maxItems + 1 }),
+        maxItems
+      ),
+      collectUpTo(
+        this.paginate<QueueItem>("/odata/QueueItems", processedParams, effectiveFolderId, { maxItems: maxItems + 1 }),
+        maxItems
+      ),
+    ])
+    const newItems = newPage.items
+    const processed = processedPage.items
+
+    const ageBuckets: Record<QueueAgeBucket, number> = { "<1h": 0, "1-4h": 0, "4-24h": 0, "1-7d": 0, ">7d": 0 }
+    let oldestAgeMinutes: number | null = null
+    let pastDue = 0
+    let deferElapsed = 0
+    let breached = 0
+    let atRisk = 0
+    for (const item of newItems) {
+      const ageMinutes = Math.max(0, (now.getTime() - Date.parse(item.CreationTime)) / 60_000)
+      oldestAgeMinutes = Math.max(oldestAgeMinutes ?? 0, Math.round(ageMinutes))
+      if (ageMinutes < 60) ageBuckets["<1h"] += 1
+      else if (ageMinutes < 240) ageBuckets["1-4h"] += 1
+      else if (ageMinutes < 1440) ageBuckets["4-24h"] += 1
+      else if (ageMinutes < 10_080) ageBuckets["1-7d"] += 1
+      else ageBuckets[">7d"] += 1
+
+      if (item.DueDate && Date.parse(item.DueDate) < now.getTime()) pastDue += 1
+      if (item.DeferDate && Date.parse(item.DeferDate) <= now.getTime()) deferElapsed += 1
+      if (queue.SlaInMinutes && ageMinutes > queue.SlaInMinutes) {
+        breached += 1
+      } else if (queue.RiskSlaInMinutes && ageMinutes > queue.RiskSlaInMinutes) {
+        atRisk += 1
+      }
+    }
+
+    const hourly = new Map<string, number>()
+    for (let t = Math.floor(since.getTime() / 3_600_000) * 3_600_000; t <= now.getTime(); t += 3_600_000) {
+      hourly.set(new Date(t).toISOString(), 0)
+    }
+    const durations: number[] = []
+    let successful = 0
+    let failed = 0
+    let retried = 0
+    for (const item of processed) {
+      if (item.Status === "Successful") successful += 1
+      if (item.Status === "Failed" || item.Status === "Abandoned") failed += 1
+      if (item.RetryNumber > 0) retried += 1
+      const duration = computeDuration(item.StartProcessing, item.EndProcessing)
+      if (duration !== null) durations.push(duration)
+      if (item.EndProcessing) {
+        const hour = new Date(Math.floor(Date.parse(item.EndProcessing) / 3_600_000) * 3_600_000).toISOString()
+        hourly.set(hour, (hourly.get(hour) ?? 0) + 1)
+      }
+    }
+
+    return {
+      queueId: queue.Id,
+      queueName: queue.Name,
+      generatedAt: now.toISOString(),
+      windowHours,
+      risk: pastDue > 0 || breached > 0 ? "breached" : atRisk > 0 ? "at_risk" : "ok",
+      statusCounts: {
+        totalItems: stats.totalItems,
+        newItems: stats.newItems,
+        inProgressItems: stats.inProgressItems,
+        successfulItems: stats.successfulItems,
+        failedItems: stats.failedItems,
+        abandonedItems: stats.abandonedItems,
+        successRate: stats.successRate,
+      },
+      newItems: {
+        total: newItems.length,
+        oldestAgeMinutes,
+        ageBuckets,
+        pastDue,
+        deferElapsed,
+        truncated: newPage.truncated,
+      },
+      sla: {
+        slaMinutes: queue.SlaInMinutes ?? null,
+        riskSlaMinutes: queue.RiskSlaInMinutes ?? null,
+        breached,
+        atRisk,
+      },
+      processed: {
+        total: processed.length,
+        successful,
+        failed,
+        avgProcessingSeconds: durations.length > 0
+          ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length)
+          : null,
+        retryRate: processed.length > 0 ? (retried / processed.length) * 100 : null,
+        throughputPerHour: windowHours > 0 ? processed.length / windowHours : 0,
+        hourly: [...hourly].map(([hour, count]) => ({ hour, count })),
+        truncated: processedPage.truncated,
+      },
+    }
+  }
+
+  /**
+   * Build SLA reports for every queue in a folder, most at-risk first.
+   * @param options - As for getQueueSlaReport.
+   */
+  async getQueueSlaReports(
+    options: { folderId?: number; windowHours?: number; maxItems?: number; now?: Date } = {}
+  ): Promise<QueueSlaReport[]> {
+    const queues = await this.getQueueDefinitions(options.folderId)
+    const reports = await mapConcurrent(queues, REQUEST_CONCURRENCY, queue => this.getQueueSlaReport(queue, options))
+    const rank = { breached: 0, at_risk: 1, ok: 2 }
+    return reports.sort((a, b) =>
+      rank[a.risk] - rank[b.risk] || (b.newItems.oldestAgeMinutes ?? 0) - (a.newItems.oldestAgeMinutes ?? 0)
+    )
+  }
+
+  // ============ Folder / Robot / Machine / Asset / Log Operations ============
+
+  /**
+   * List Orchestrator folders with pagination.
+   * @param options.top - Maximum folders to return (default 100).
+   * @param options.skip - Items to skip.
+   * @param options.orderBy - OData $orderby expression (default DisplayName asc).
+   * @returns Folders array and total count.
+   */
+  async getFolders(options: {
+    top?: number
+    skip?: number
+    orderBy?: string
+  } = {}): Promise<{ folders: Folder[]; count: number | null }> {
+    const params = buildQuery({
+      top: options.top || 100,
+      skip: options.skip || 0,
+      orderBy: options.orderBy || "DisplayName asc",
+      count: true,
+    })
+
+    const data = await this.request<ODataResponse<Folder>>("GET", "/odata/Folders", params)
+    return {
+      folders: data.value,
+      count: data["@odata.count"] ?? null,
+    }
+  }
+
+  /**
+   * Iterate over every folder visible to the client, fetching pages on demand.
+   * @param options.orderBy - OData $orderby expression (default DisplayName asc).
+   * @param options.pageSize - Items per request (default 100).
+   * @param options.maxItems - Stop after this many items (default 10000).
+   */
+  iterateFolders(options: { orderBy?: string } & PaginationOptions = {}): AsyncGenerator<Folder> {
+    const params = buildQuery({ orderBy: options.orderBy || "DisplayName asc" })
+    return this.paginate<Folder>("/odata/Folders", params, undefined, options)
+  }
+
+  /**
+   * List robots, optionally filtered by folder.
+   * When a folderId is provided the folder-specific endpoint is used.
+   * @param options.folderId - Restrict to robots in this folder.
+   * @param options.top - Max items (default 100).
+   * @param options.skip - Pagination offset.
+   * @returns Robots array and total count.
+   */
+  async getRobots(options: {
+    folderId?: number
+    top?: number
+    skip?: number
+    orderBy?: string
+  } = {}): Promise<{ robots: Robot[]; count: number | null }> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const params = buildQuery({
+      top: options.top || 100,
+      skip: options.skip || 0,
+      orderBy: options.orderBy || "Name asc",
+      count: true,
+    })
+
+    const endpoint = effectiveFolderId
+      ? `/odata/Robots/UiPath.Server.Configuration.OData.GetRobotsFromFolder(folderId=${effectiveFolderId})`
+      : "/odata/Robots"
+
+    const data = await this.request<ODataResponse<Robot>>("GET", endpoint, params)
+    return {
+      robots: data.value,
+      count: data["@odata.count"] ?? null,
+    }
+  }
+
+  /**
+   * Look robots up by name (case-insensitive), reading every page of robots once.
+   * @param names - Robot names.
+   * @param folderId - Restrict to robots in this folder.
+   * @returns The robots, in the order of `names`.
+   * @throws {NotFoundError} On the first name that matches no robot.
+   */
+  async getRobotsByName(names: string[], folderId?: number): Promise<Robot[]> {
+    const robots = await collect(this.iterateRobots({ folderId }))
+    return names.map(name => this.matchByName(robots, name, "Robot"))
+  }
+
+  /** The item named `name` (case-insensitive), or a NotFoundError listing known names. */
+  private matchByName<T extends { Name: string }>(candidates: T[], name: string, kind: string): T {
+    const match = candidates.find(c => c.Name.toLowerCase() === name.toLowerCase())
+    if (!match) {
+      const known = candidates.slice(0, 20).map(c => c.Name).join(", ")
+      throw new NotFoundError(`${kind} not found: ${name}`, {
+        hint: known ? `Known ${kind.toLowerCase()}s: ${known}` : `No ${kind.toLowerCase()}s are visible in this folder.`,
+      })
+    }
+    return match
+  }
+
+  /**
+   * Iterate over every robot, fetching pages on demand.
+   * @param options.folderId - Restrict to robots in this folder.
+   * @param options.orderBy - OData $orderby expression (default Name asc).
+   * @param options.pageSize - Items per request (default 100).
+   * @param options.maxItems - Stop after this many items (default 10000).
+   */
+  iterateRobots(options: { folderId?: number; orderBy?: string } & PaginationOptions = {}): AsyncGenerator<Robot> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const params = buildQuery({ orderBy: options.orderBy || "Name asc" })
+    const endpoint = effectiveFolderId
+      ? `/odata/Robots/UiPath.Server.Configuration.OData.GetRobotsFromFolder(folderId=${effectiveFolderId})`
+      : "/odata/Robots"
+    return this.paginate<Robot>(endpoint, params, undefined, options)
+  }
+
+  /**
+   * List all registered machines.
+   * @param options.top - Max items (default 100).
+   * @param options.skip - Pagination offset.
+   * @returns Machines array and total count.
    */
   async getMachines(options: {
     top?: number
     skip?: number
     orderBy?: string
   } = {}): Promise<{ machines: Machine[]; count: number | null }> {
-    const params: Record<string, string> = {
-      $top: String(options.top || 100),
-      $skip: String(options.skip || 0),
-      $orderby: options.orderBy || "Name asc",
-      $count: "true",
-    }
+    const params = buildQuery({
+      top: options.top || 100,
+      skip: options.skip || 0,
+      orderBy: options.orderBy || "Name asc",
+      count: true,
+    })
 
     const data = await this.request<ODataResponse<Machine>>(
       "GET",
@@ -491,6 +1629,28 @@ export class UiPathClient {
     }
   }
 
+  /**
+   * Look machines up by name (case-insensitive), reading every page of machines once.
+   * @param names - Machine names.
+   * @returns The machines, in the order of `names`.
+   * @throws {NotFoundError} On the first name that matches no machine.
+   */
+  async getMachinesByName(names: string[]): Promise<Machine[]> {
+    const machines = await collect(this.iterateMachines())
+    return names.map(name => this.matchByName(machines, name, "Machine"))
+  }
+
+  /**
+   * Iterate over every registered machine, fetching pages on demand.
+   * @param options.orderBy - OData $orderby expression (default Name asc).
+   * @param options.pageSize - Items per request (default 100).
+   * @param options.maxItems - Stop after this many items (default 10000).
+   */
+  iterateMachines(options: { orderBy?: string } & PaginationOptions = {}): AsyncGenerator<Machine> {
+    const params = buildQuery({ orderBy: options.orderBy || "Name asc" })
+    return this.paginate<Machine>("/odata/Machines", params, undefined, options)
+  }
+
   /**
    * Get the value of an asset scoped to a specific robot.
    * @param robotId - Robot ID.
@@ -498,8 +1658,8 @@ export class UiPathClient {
    * @returns The resolved asset value.
    */
   async getRobotAsset(robotId: number, assetName: string): Promise<AssetValue> {
-    const encodedName = encodeURIComponent(assetName)
-    const endpoint = `/odata/Assets/UiPath.Server.Configuration.OData.GetRobotAssetByRobotId(robotId=${robotId},assetName='${encodedName}')`
+    const encodedName = encodeURIComponent(formatLiteral(assetName))
+    const endpoint = `/odata/Assets/UiPath.Server.Configuration.OData.GetRobotAssetByRobotId(robotId=${robotId},assetName=${encodedName})`
     return this.request<AssetValue>("GET", endpoint)
   }
 
@@ -525,29 +1685,13 @@ export class UiPathClient {
     orderBy?: string
   } = {}): Promise<{ logs: RobotLog[]; count: number | null }> {
     const effectiveFolderId = this.getFolderId(options.folderId)
-    const params: Record<string, string> = {
-      $top: String(options.top || 100),
-      $skip: String(options.skip || 0),
-      $orderby: options.orderBy || "TimeStamp desc",
-      $count: "true",
-    }
-
-    const filters: string[] = []
-    if (options.jobKey) {
-      filters.push(`JobKey eq '${encodeURIComponent(options.jobKey)}'`)
-    }
-    if (options.level) {
-      filters.push(`Level eq '${encodeURIComponent(options.level)}'`)
-    }
-    if (options.startTime) {
-      filters.push(`TimeStamp ge ${options.startTime}`)
-    }
-    if (options.endTime) {
-      filters.push(`TimeStamp le ${options.endTime}`)
-    }
-    if (filters.length > 0) {
-      params.$filter = filters.join(" and ")
-    }
+    const params = buildQuery({
+      top: options.top || 100,
+      skip: options.skip || 0,
+      orderBy: options.orderBy || "TimeStamp desc",
+      count: true,
+      filter: this.robotLogFilter(options),
+    })
 
     const data = await this.request<ODataResponse<RobotLog>>(
       "GET",
@@ -562,6 +1706,208 @@ export class UiPathClient {
     }
   }
 
+  /**
+   * Iterate over every robot log line matching the filters, fetching pages on demand.
+   * @param options.folderId - Folder scope.
+   * @param options.jobKey - Filter logs for a specific job.
+   * @param options.startTime - Only logs after this time (ISO 8601).
+   * @param options.endTime - Only logs before this time (ISO 8601).
+   * @param options.level - Log level filter.
+   * @param options.orderBy - OData $orderby expression (default TimeStamp desc).
+   * @param options.pageSize - Items per request (default 100).
+   * @param options.maxItems - Stop after this many items (default 10000).
+   */
+  iterateRobotLogs(options: {
+    folderId?: number
+    jobKey?: string
+    startTime?: string
+    endTime?: string
+    level?: string
+    orderBy?: string
+  } & PaginationOptions = {}): AsyncGenerator<RobotLog> {
+    const params = buildQuery({
+      orderBy: options.orderBy || "TimeStamp desc",
+      filter: this.robotLogFilter(options),
+    })
+    return this.paginate<RobotLog>("/odata/RobotLogs", params, this.getFolderId(options.folderId), options)
+  }
+
+  private robotLogFilter(options: {
+    jobKey?: string
+    startTime?: string
+    endTime?: string
+    level?: string
+  }): ODataFilter | undefined {
+    return and(
+      options.jobKey ? eq<RobotLog>("JobKey", options.jobKey) : undefined,
+      options.level ? eq<RobotLog>("Level", options.level) : undefined,
+      options.startTime ? ge<RobotLog>("TimeStamp", dateTimeOffset(options.startTime)) : undefined,
+      options.endTime ? le<RobotLog>("TimeStamp", dateTimeOffset(options.endTime)) : undefined
+    )
+  }
+
+  // ============ Robot and Machine Management ============
+
+  /**
+   * Enable or disable a robot. A disabled robot finishes its current job but
+   * is not given new ones.
+   * @param robotId - Robot to change.
+   * @param enabled - Desired state.
+   * @param options.folderId - Folder scope.
+   * @param options.confirm - Apply the change; otherwise only preview it.
+   * @returns The requests and the robot before and after the change.
+   */
+  async setRobotEnabled(
+    robotId: number,
+    enabled: boolean,
+    options: { folderId?: number; confirm?: boolean } = {}
+  ): Promise<FleetChangeResult<Robot>> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const endpoint = `/odata/Robots(${robotId})`
+    const before = await this.request<Robot>("GET", endpoint, undefined, undefined, effectiveFolderId)
+    if (before.IsEnabled === enabled) {
+      const summary = `Robot ${before.Name} is already ${enabled ? "enabled" : "disabled"}`
+      return { applied: false, summary, requests: [], before, after: before }
+    }
+    return this.applyFleetChange(
+      enabled ? `Enable robot ${before.Name}` : `Disable robot ${before.Name}; it will not be given new jobs`,
+      [{ method: "PATCH", endpoint, folderId: effectiveFolderId ?? null, body: { IsEnabled: enabled } }],
+      before,
+      options.confirm,
+      () => this.request<Robot>("GET", endpoint, undefined, undefined, effectiveFolderId)
+    )
+  }
+
+  /**
+   * Change the runtime slots of a machine template. Orchestrator rejects slot
+   * counts the tenant's licenses cannot cover.
+   * @param machineId - Machine to change.
+   * @param slots - New slot counts; unset runtimes are left unchanged.
+   * @param options.confirm - Apply the change; otherwise only preview it.
+   * @returns The requests and the machine before and after the change.
+   */
+  async updateMachineSlots(
+    machineId: number,
+    slots: MachineSlots,
+    options: { confirm?: boolean } = {}
+  ): Promise<FleetChangeResult<Machine>> {
+    const endpoint = `/odata/Machines(${machineId})`
+    const before = await this.request<Machine>("GET", endpoint)
+    const body: MachineSlots = {}
+    const changes: string[] = []
+    for (const field of MACHINE_SLOT_FIELDS) {
+      const value = slots[field]
+      if (value === undefined || value === (before[field] ?? 0)) continue
+      body[field] = value
+      changes.push(`${field.replace(/Slots$/, "")} ${before[field] ?? 0} -> ${value}`)
+    }
+    if (changes.length === 0) {
+      return { applied: false, summary: `Machine ${before.Name} already has these slots`, requests: [], before, after: before }
+    }
+    return this.applyFleetChange(
+      `Change runtime slots of machine ${before.Name}: ${changes.join(", ")}`,
+      [{ method: "PATCH", endpoint, folderId: null, body }],
+      before,
+      options.confirm,
+      () => this.request<Machine>("GET", endpoint)
+    )
+  }
+
+  /**
+   * Make machines available to a folder, so its robots can run jobs on them.
+   * @param folderId - Folder to assign the machines to.
+   * @param machines - Machines to assign, as from getMachinesByName.
+   * @param options.confirm - Apply the change; otherwise only preview it.
+   * @returns The requests and the machines involved.
+   */
+  async assignMachinesToFolder(
+    folderId: number,
+    machines: Machine[],
+    options: { confirm?: boolean } = {}
+  ): Promise<FleetChangeResult<Machine[]>> {
+    const folder = await this.request<Folder>("GET", `/odata/Folders(${folderId})`)
+    const machineIds = machines.map(m => m.Id)
+    return this.applyFleetChange(
+      `Assign ${machines.map(m => m.Name).join(", ")} to folder ${folder.FullyQualifiedName ?? folder.DisplayName}`,
+      [{
+        method: "POST",
+        endpoint: "/odata/Folders/UiPath.Server.Configuration.OData.AssignMachines",
+        folderId: null,
+        body: { assignments: { MachineIds: machineIds, FolderIds: [folderId] } },
+      }],
+      machines,
+      options.confirm
+    )
+  }
+
+  /**
+   * Remove machines from a folder. Jobs already running on them are not stopped.
+   * @param folderId - Folder to remove the machines from.
+   * @param machines - Machines to remove, as from getMachinesByName.
+   * @param options.confirm - Apply the change; otherwise only preview it.
+   * @returns The requests and the machines involved.
+   */
+  async removeMachinesFromFolder(
+    folderId: number,
+    machines: Machine[],
+    options: { confirm?: boolean } = {}
+  ): Promise<FleetChangeResult<Machine[]>> {
+    const folder = await this.request<Folder>("GET", `/odata/Folders(${folderId})`)
+    const machineIds = machines.map(m => m.Id)
+    return this.applyFleetChange(
+      `Remove ${machines.map(m => m.Name).join(", ")} from folder ${folder.FullyQualifiedName ?? folder.DisplayName}`,
+      [{
+        method: "POST",
+        endpoint: `/odata/Folders(${folderId})/UiPath.Server.Configuration.OData.RemoveMachinesFromFolder`,
+        folderId: null,
+        body: { machineIds },
+      }],
+      machines,
+      options.confirm
+    )
+  }
+
+  /**
+   * Delete a machine that is no longer used. Online machines are refused, since
+   * a robot service is still connected with the machine's key.
+   * @param machineId - Machine to delete.
+   * @param options.confirm - Apply the change; otherwise only preview it.
+   * @returns The requests and the machine as it was before deletion.
+   * @throws {ValidationError} When the machine is online.
+   */
+  async deleteMachine(machineId: number, options: { confirm?: boolean } = {}): Promise<FleetChangeResult<Machine>> {
+    const endpoint = `/odata/Machines(${machineId})`
+    const before = await this.request<Machine>("GET", endpoint)
+    if (before.IsOnline) {
+      throw new ValidationError(`Machine ${before.Name} is online and cannot be deleted`, {
+        hint: "Disconnect the robot service on the machine first, or check that this is the machine you meant.",
+      })
+    }
+    return this.applyFleetChange(
+      `Delete machine ${before.Name}; robots using its key can no longer connect`,
+      [{ method: "DELETE", endpoint, folderId: null, body: null }],
+      before,
+      options.confirm
+    )
+  }
+
+  /** Send the planned requests when confirmed; otherwise return them as a preview. */
+  private async applyFleetChange<T>(
+    summary: string,
+    requests: PlannedRequest[],
+    before: T,
+    confirm: boolean | undefined,
+    reload?: () => Promise<T>
+  ): Promise<FleetChangeResult<T>> {
+    if (!confirm) {
+      return { applied: false, summary: `${summary} (not applied; call again with confirm: true)`, requests, before, after: null }
+    }
+    for (const request of requests) {
+      await this.request<void>(request.method, request.endpoint, undefined, request.body ?? undefined, request.folderId ?? undefined)
+    }
+    return { applied: true, summary, requests, before, after: reload ? await reload() : null }
+  }
+
   // ============ Session Operations ============
 
   /**
@@ -579,18 +1925,11 @@ export class UiPathClient {
     skip?: number
   } = {}): Promise<{ sessions: Session[]; count: number | null }> {
     const effectiveFolderId = this.getFolderId(options.folderId)
-    const params: Record<string, string> = {
-      $top: String(options.top || 100),
-      $skip: String(options.skip || 0),
-    }
-
-    const filters: string[] = []
-    if (options.state) {
-      filters.push(`State eq '${options.state}'`)
-    }
-    if (filters.length > 0) {
-      params.$filter = filters.join(" and ")
-    }
+    const params = buildQuery({
+      top: options.top || 100,
+      skip: options.skip || 0,
+      filter: options.state ? eq<Session>("State", options.state) : undefined,
+    })
 
     try {
       params.$count = "true"
@@ -603,7 +1942,7 @@ export class UiPathClient {
       )
       return { sessions: data.value, count: data["@odata.count"] ?? null }
     } catch (error) {
-      if (error instanceof Error && error.message.includes("Invalid OData")) {
+      if (isInvalidODataQuery(error)) {
         delete params.$count
         const data = await this.request<ODataResponse<Session>>(
           "GET",
@@ -618,6 +1957,31 @@ export class UiPathClient {
     }
   }
 
+  /**
+   * Iterate over every robot session, fetching pages on demand.
+   * @param options.folderId - Folder scope.
+   * @param options.state - Filter by state (Available, Busy, Disconnected).
+   * @param options.robotIds - Only sessions of these robots.
+   * @param options.machineIds - Only sessions on these machines.
+   * @param options.pageSize - Items per request (default 100).
+   * @param options.maxItems - Stop after this many items (default 10000).
+   */
+  iterateSessions(options: {
+    folderId?: number
+    state?: string
+    robotIds?: number[]
+    machineIds?: number[]
+  } & PaginationOptions = {}): AsyncGenerator<Session> {
+    const params = buildQuery({
+      filter: and(
+        options.state ? eq<Session>("State", options.state) : undefined,
+        options.robotIds ? isIn<Session>("RobotId", options.robotIds) : undefined,
+        options.machineIds ? isIn<Session>("MachineId", options.machineIds) : undefined
+      ),
+    })
+    return this.paginate<Session>("/odata/Sessions", params, this.getFolderId(options.folderId), options)
+  }
+
   // ============ Asset Operations ============
 
   /**
@@ -634,11 +1998,11 @@ export class UiPathClient {
     skip?: number
   } = {}): Promise<{ assets: Asset[]; count: number | null }> {
     const effectiveFolderId = this.getFolderId(options.folderId)
-    const params: Record<string, string> = {
-      $top: String(options.top || 100),
-      $skip: String(options.skip || 0),
-      $orderby: "Name asc",
-    }
+    const params = buildQuery({
+      top: options.top || 100,
+      skip: options.skip || 0,
+      orderBy: "Name asc",
+    })
 
     try {
       params.$count = "true"
@@ -651,7 +2015,7 @@ export class UiPathClient {
       )
       return { assets: data.value, count: data["@odata.count"] ?? null }
     } catch (error) {
-      if (error instanceof Error && error.message.includes("Invalid OData")) {
+      if (isInvalidODataQuery(error)) {
         delete params.$count
         const data = await this.request<ODataResponse<Asset>>(
           "GET",
@@ -666,6 +2030,204 @@ export class UiPathClient {
     }
   }
 
+  /**
+   * Iterate over every asset in a folder, fetching pages on demand.
+   * @param options.folderId - Folder scope.
+   * @param options.pageSize - Items per request (default 100).
+   * @param options.maxItems - Stop after this many items (default 10000).
+   */
+  iterateAssets(options: { folderId?: number } & PaginationOptions = {}): AsyncGenerator<Asset> {
+    const params = buildQuery({ orderBy: "Name asc" })
+    return this.paginate<Asset>("/odata/Assets", params, this.getFolderId(options.folderId), options)
+  }
+
+  /**
+   * Find an asset by exact name in a folder.
+   * @param name - Asset name.
+   * @param folderId - Folder scope.
+   * @returns The asset, or null when the folder has no asset of that name.
+   */
+  async getAssetByName(name: string, folderId?: number): Promise<Asset | null> {
+    const params = buildQuery({ filter: eq("Name", name), top: 1 })
+    const data = await this.request<ODataResponse<Asset>>(
+      "GET",
+      "/odata/Assets",
+      params,
+      undefined,
+      this.getFolderId(folderId)
+    )
+    return data.value[0] ?? null
+  }
+
+  /**
+   * Create a Text, Integer, Boolean, KeyValueList or Credential asset. With
+   * robotValues the asset is PerRobot and the top-level value, if any, becomes
+   * the default for other robots.
+   * @param name - Asset name.
+   * @param options.valueType - Asset type.
+   * @param options.value - Value for non-credential assets.
+   * @param options.username - Credential username.
+   * @param options.password - Credential password; sent to Orchestrator, never returned.
+   * @param options.robotValues - Per-robot values, by robot name.
+   * @param options.folderId - Folder to create the asset in; required.
+   * @returns The created asset with sensitive values masked.
+   * @throws {SchemaValidationError} When a value does not match the asset type.
+   * @throws {NotFoundError} When a robot name does not exist.
+   */
+  async createAsset(
+    name: string,
+    options: AssetValueInput & {
+      valueType: WritableAssetType
+      description?: string
+      robotValues?: AssetRobotValueInput[]
+      folderId?: number
+    }
+  ): Promise<AssetWriteResult> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    if (effectiveFolderId === undefined) {
+      throw new ValidationError("A folderId is required to create an asset")
+    }
+
+    const perRobot = (options.robotValues?.length ?? 0) > 0
+    const { fields, errors } = assetValueFields(options.valueType, options, "value", !perRobot)
+    const robotValues = perRobot
+      ? await this.assetRobotValues(options.valueType, options.robotValues ?? [], errors, effectiveFolderId)
+      : []
+    if (errors.length > 0) {
+      throw new SchemaValidationError(`Invalid value for ${options.valueType} asset ${name}`, errors)
+    }
+
+    const body: Record<string, unknown> = {
+      Name: name,
+      ValueType: options.valueType,
+      ValueScope: perRobot ? "PerRobot" : "Global",
+      Description: options.description ?? null,
+      HasDefaultValue: Object.keys(fields).length > 0,
+      ...fields,
+      ...(perRobot ? { RobotValues: robotValues } : {}),
+    }
+    const asset = await this.request<Asset>("POST", "/odata/Assets", undefined, body, effectiveFolderId)
+    return { asset: maskAsset(asset), changes: [], secretFieldsChanged: secretFieldNames(asset, fields, robotValues) }
+  }
+
+  /**
+   * Change an asset's value, per-robot values or description. Per-robot values
+   * are merged with the existing ones, and setting any makes the asset PerRobot.
+   * A credential is replaced as a whole, so username and password go together.
+   * @param assetId - Asset to change.
+   * @param options.folderId - Folder scope.
+   * @returns The asset after the change (masked), the before/after of non-secret
+   * fields, and the names of secret fields that were set.
+   * @throws {ValidationError} When nothing is given to change or the type cannot be written.
+   * @throws {SchemaValidationError} When a value does not match the asset type.
+   */
+  async updateAsset(
+    assetId: number,
+    options: AssetValueInput & {
+      description?: string
+      robotValues?: AssetRobotValueInput[]
+      folderId?: number
+    } = {}
+  ): Promise<AssetWriteResult> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const endpoint = `/odata/Assets(${assetId})`
+    const current = await this.request<Asset>("GET", endpoint, undefined, undefined, effectiveFolderId)
+    if (!isWritableAssetType(current.ValueType)) {
+      throw new ValidationError(`Assets of type ${current.ValueType} cannot be changed through this server`, {
+        hint: "Change the asset in Orchestrator instead.",
+      })
+    }
+
+    const { fields, errors } = assetValueFields(current.ValueType, options, "value", false)
+    const robotValues = options.robotValues?.length
+      ? await this.assetRobotValues(current.ValueType, options.robotValues, errors, effectiveFolderId)
+      : []
+    if (errors.length > 0) {
+      throw new SchemaValidationError(`Invalid value for ${current.ValueType} asset ${current.Name}`, errors)
+    }
+    if (Object.keys(fields).length === 0 && robotValues.length === 0 && options.description === undefined) {
+      throw new ValidationError("No asset changes given", {
+        hint: "Pass value (or username and password), robotValues or description.",
+      })
+    }
+
+    const merged = new Map((current.RobotValues ?? []).map(value => [value.RobotId, writableRobotValueFields(value)]))
+    for (const value of robotValues) {
+      merged.set(value.RobotId, writableRobotValueFields(value))
+    }
+    const body: Record<string, unknown> = {
+      ...writableAssetFields(current),
+      ...fields,
+      ...(options.description !== undefined ? { Description: options.description } : {}),
+      HasDefaultValue: current.HasDefaultValue || Object.keys(fields).length > 0,
+      ...(robotValues.length > 0 ? { ValueScope: "PerRobot", RobotValues: [...merged.values()] } : {}),
+    }
+    await this.request<void>("PUT", endpoint, undefined, body, effectiveFolderId)
+    const updated = await this.request<Asset>("GET", endpoint, undefined, undefined, effectiveFolderId)
+    return {
+      asset: maskAsset(updated),
+      changes: diffAssets(current, updated),
+      secretFieldsChanged: secretFieldNames(current, fields, robotValues),
+    }
+  }
+
+  /**
+   * Delete an asset.
+   * @param assetId - Asset to delete.
+   * @param options.folderId - Folder scope.
+   * @returns The asset as it was before deletion, with sensitive values masked.
+   */
+  async deleteAsset(assetId: number, options: { folderId?: number } = {}): Promise<Asset> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const endpoint = `/odata/Assets(${assetId})`
+    const current = await this.request<Asset>("GET", endpoint, undefined, undefined, effectiveFolderId)
+    await this.request<void>("DELETE", endpoint, undefined, undefined, effectiveFolderId)
+    return maskAsset(current)
+  }
+
+  /**
+   * Compare the assets of two folders by name, optionally in different tenants
+   * of the organization, e.g. to check UAT against Production before a release.
+   * @param sourceFolderId - Folder treated as the reference.
+   * @param targetFolderId - Folder compared against it.
+   * @param options.sourceTenantName - Tenant of the source folder (default: this client's).
+   * @param options.targetTenantName - Tenant of the target folder (default: this client's).
+   * @returns Missing assets, type mismatches and differing non-sensitive values.
+   */
+  async compareAssets(
+    sourceFolderId: number,
+    targetFolderId: number,
+    options: { sourceTenantName?: string; targetTenantName?: string } = {}
+  ): Promise<AssetComparison> {
+    const sourceClient = options.sourceTenantName ? this.forTenant(options.sourceTenantName) : this
+    const targetClient = options.targetTenantName ? this.forTenant(options.targetTenantName) : this
+    const [source, target] = await Promise.all([
+      collect(sourceClient.iterateAssets({ folderId: sourceFolderId })),
+      collect(targetClient.iterateAssets({ folderId: targetFolderId })),
+    ])
+    return {
+      source: { tenantName: sourceClient.config.tenantName, folderId: sourceFolderId, assetCount: source.length },
+      target: { tenantName: targetClient.config.tenantName, folderId: targetFolderId, assetCount: target.length },
+      ...compareAssetSets(source, target),
+    }
+  }
+
+  /** Resolve per-robot values by robot name, collecting value errors into `errors`. */
+  private async assetRobotValues(
+    valueType: WritableAssetType,
+    inputs: AssetRobotValueInput[],
+    errors: FieldError[],
+    folderId?: number
+  ): Promise<AssetRobotValue[]> {
+    const robots = await this.getRobotsByName(inputs.map(input => input.robotName), folderId)
+    return inputs.map((input, index) => {
+      const robot = robots[index]
+      const value = assetValueFields(valueType, input, `robotValues.${input.robotName}`)
+      errors.push(...value.errors)
+      return { RobotId: robot.Id, RobotName: robot.Name, ValueType: valueType, ...value.fields } as AssetRobotValue
+    })
+  }
+
   // ============ Schedule Operations ============
 
   /**
@@ -684,18 +2246,11 @@ export class UiPathClient {
     skip?: number
   } = {}): Promise<{ schedules: ProcessSchedule[]; count: number | null }> {
     const effectiveFolderId = this.getFolderId(options.folderId)
-    const params: Record<string, string> = {
-      $top: String(options.top || 100),
-      $skip: String(options.skip || 0),
-    }
-
-    const filters: string[] = []
-    if (options.enabled !== undefined) {
-      filters.push(`Enabled eq ${options.enabled}`)
-    }
-    if (filters.length > 0) {
-      params.$filter = filters.join(" and ")
-    }
+    const params = buildQuery({
+      top: options.top || 100,
+      skip: options.skip || 0,
+      filter: options.enabled !== undefined ? eq<ProcessSchedule>("Enabled", options.enabled) : undefined,
+    })
 
     try {
       params.$count = "true"
@@ -708,7 +2263,7 @@ export class UiPathClient {
       )
       return { schedules: data.value, count: data["@odata.count"] ?? null }
     } catch (error) {
-      if (error instanceof Error && error.message.includes("Invalid OData")) {
+      if (isInvalidODataQuery(error)) {
         delete params.$count
         const data = await this.request<ODataResponse<ProcessSchedule>>(
           "GET",
@@ -723,6 +2278,28 @@ export class UiPathClient {
     }
   }
 
+  /**
+   * Iterate over every process schedule, fetching pages on demand.
+   * @param options.folderId - Folder scope.
+   * @param options.enabled - Filter by enabled/disabled.
+   * @param options.pageSize - Items per request (default 100).
+   * @param options.maxItems - Stop after this many items (default 10000).
+   */
+  iterateProcessSchedules(options: {
+    folderId?: number
+    enabled?: boolean
+  } & PaginationOptions = {}): AsyncGenerator<ProcessSchedule> {
+    const params = buildQuery({
+      filter: options.enabled !== undefined ? eq<ProcessSchedule>("Enabled", options.enabled) : undefined,
+    })
+    return this.paginate<ProcessSchedule>(
+      "/odata/ProcessSchedules",
+      params,
+      this.getFolderId(options.folderId),
+      options
+    )
+  }
+
   // ============ Audit Log Operations ============
 
   /**
@@ -745,31 +2322,12 @@ export class UiPathClient {
     top?: number
     skip?: number
   } = {}): Promise<{ logs: AuditLog[]; count: number | null }> {
-    const params: Record<string, string> = {
-      $top: String(options.top || 100),
-      $skip: String(options.skip || 0),
-      $orderby: "ExecutionTime desc",
-    }
-
-    const filters: string[] = []
-    if (options.action) {
-      filters.push(`Action eq '${this.escapeODataString(options.action)}'`)
-    }
-    if (options.userName) {
-      filters.push(`UserName eq '${this.escapeODataString(options.userName)}'`)
-    }
-    if (options.component) {
-      filters.push(`Component eq '${this.escapeODataString(options.component)}'`)
-    }
-    if (options.startTime) {
-      filters.push(`ExecutionTime ge ${options.startTime}`)
-    }
-    if (options.endTime) {
-      filters.push(`ExecutionTime le ${options.endTime}`)
-    }
-    if (filters.length > 0) {
-      params.$filter = filters.join(" and ")
-    }
+    const params = buildQuery({
+      top: options.top || 100,
+      skip: options.skip || 0,
+      orderBy: "ExecutionTime desc",
+      filter: this.auditLogFilter(options),
+    })
 
     try {
       params.$count = "true"
@@ -780,7 +2338,7 @@ export class UiPathClient {
       )
       return { logs: data.value, count: data["@odata.count"] ?? null }
     } catch (error) {
-      if (error instanceof Error && error.message.includes("Invalid OData")) {
+      if (isInvalidODataQuery(error)) {
         delete params.$count
         delete params.$orderby
         const data = await this.request<ODataResponse<AuditLog>>(
@@ -794,6 +2352,46 @@ export class UiPathClient {
     }
   }
 
+  /**
+   * Iterate over every audit log entry matching the filters, fetching pages on demand.
+   * @param options.action - Filter by action type.
+   * @param options.userName - Filter by user name.
+   * @param options.component - Filter by component.
+   * @param options.startTime - Only entries after this time (ISO 8601).
+   * @param options.endTime - Only entries before this time (ISO 8601).
+   * @param options.pageSize - Items per request (default 100).
+   * @param options.maxItems - Stop after this many items (default 10000).
+   */
+  iterateAuditLogs(options: {
+    action?: string
+    userName?: string
+    component?: string
+    startTime?: string
+    endTime?: string
+  } & PaginationOptions = {}): AsyncGenerator<AuditLog> {
+    const params = buildQuery({
+      orderBy: "ExecutionTime desc",
+      filter: this.auditLogFilter(options),
+    })
+    return this.paginate<AuditLog>("/odata/AuditLogs", params, undefined, options)
+  }
+
+  private auditLogFilter(options: {
+    action?: string
+    userName?: string
+    component?: string
+    startTime?: string
+    endTime?: string
+  }): ODataFilter | undefined {
+    return and(
+      options.action ? eq<AuditLog>("Action", options.action) : undefined,
+      options.userName ? eq<AuditLog>("UserName", options.userName) : undefined,
+      options.component ? eq<AuditLog>("Component", options.component) : undefined,
+      options.startTime ? ge<AuditLog>("ExecutionTime", dateTimeOffset(options.startTime)) : undefined,
+      options.endTime ? le<AuditLog>("ExecutionTime", dateTimeOffset(options.endTime)) : undefined
+    )
+  }
+
   // ============ Job Operations ============
 
   /**
@@ -801,6 +2399,8 @@ export class UiPathClient {
    * Falls back to a simpler OData query if the server rejects $count or $orderby.
    * @param options.state - Filter by job state (Pending, Running, Successful, Faulted, Stopped, Terminated).
    * @param options.releaseName - Filter by process/release name.
+   * @param options.startTime - Only jobs created after this time (ISO 8601).
+   * @param options.endTime - Only jobs created before this time (ISO 8601).
    * @param options.folderId - Folder scope.
    * @param options.top - Max items (default 100).
    * @param options.skip - Pagination offset.
@@ -809,36 +2409,22 @@ export class UiPathClient {
   async getJobs(options: {
     state?: JobState
     releaseName?: string
+    startTime?: string
+    endTime?: string
     folderId?: number
     top?: number
     skip?: number
     orderBy?: string
   } = {}): Promise<{ jobs: Job[]; count: number | null }> {
     const effectiveFolderId = this.getFolderId(options.folderId)
-    const buildParams = (includeCount: boolean, orderBy?: string) => {
-      const params: Record<string, string> = {
-        $top: String(options.top || 100),
-        $skip: String(options.skip || 0),
-      }
-      if (orderBy) {
-        params.$orderby = orderBy
-      }
-      if (includeCount) {
-        params.$count = "true"
-      }
-
-      const filters: string[] = []
-      if (options.state) {
-        filters.push(`State eq '${options.state}'`)
-      }
-      if (options.releaseName) {
-        filters.push(`ReleaseName eq '${encodeURIComponent(options.releaseName)}'`)
-      }
-      if (filters.length > 0) {
-        params.$filter = filters.join(" and ")
-      }
-      return params
-    }
+    const buildParams = (includeCount: boolean, orderBy?: string) =>
+      buildQuery({
+        top: options.top || 100,
+        skip: options.skip || 0,
+        orderBy,
+        count: includeCount,
+        filter: this.jobFilter(options),
+      })
 
     let data: ODataResponse<Job>
     try {
@@ -850,7 +2436,7 @@ export class UiPathClient {
         effectiveFolderId
       )
     } catch (error) {
-      if (error instanceof Error && error.message.includes("Invalid OData query options")) {
+      if (isInvalidODataQuery(error)) {
         data = await this.request<ODataResponse<Job>>(
           "GET",
           "/odata/Jobs",
@@ -868,6 +2454,50 @@ export class UiPathClient {
     }
   }
 
+  /**
+   * Iterate over every job matching the filters, fetching pages on demand.
+   * @param options.state - Filter by job state.
+   * @param options.releaseName - Filter by process/release name.
+   * @param options.startTime - Only jobs created after this time (ISO 8601).
+   * @param options.endTime - Only jobs created before this time (ISO 8601).
+   * @param options.endExclusive - Leave out jobs created exactly at endTime, so adjacent ranges do not overlap.
+   * @param options.folderId - Folder scope.
+   * @param options.orderBy - OData $orderby expression (default CreationTime desc).
+   * @param options.pageSize - Items per request (default 100).
+   * @param options.maxItems - Stop after this many items (default 10000).
+   */
+  iterateJobs(options: {
+    state?: JobState
+    releaseName?: string
+    startTime?: string
+    endTime?: string
+    endExclusive?: boolean
+    folderId?: number
+    orderBy?: string
+  } & PaginationOptions = {}): AsyncGenerator<Job> {
+    const params = buildQuery({
+      orderBy: options.orderBy || "CreationTime desc",
+      filter: this.jobFilter(options),
+    })
+    return this.paginate<Job>("/odata/Jobs", params, this.getFolderId(options.folderId), options)
+  }
+
+  private jobFilter(options: {
+    state?: JobState
+    releaseName?: string
+    startTime?: string
+    endTime?: string
+    endExclusive?: boolean
+  }): ODataFilter | undefined {
+    const before = options.endExclusive ? lt<Job> : le<Job>
+    return and(
+      options.state ? eq<Job>("State", options.state) : undefined,
+      options.releaseName ? eq<Job>("ReleaseName", options.releaseName) : undefined,
+      options.startTime ? ge<Job>("CreationTime", dateTimeOffset(options.startTime)) : undefined,
+      options.endTime ? before("CreationTime", dateTimeOffset(options.endTime)) : undefined
+    )
+  }
+
   /**
    * Get full details for a single job by its numeric ID.
    * @param jobId - The job ID.
@@ -885,6 +2515,12 @@ export class UiPathClient {
    * @param options.inputArguments - Key-value input arguments passed to the process.
    * @param options.jobsCount - Number of jobs to create (default 1).
    * @param options.strategy - Allocation strategy (default ModernJobsCount).
+   * @param options.priority - Low, Normal or High job priority.
+   * @param options.specificPriorityValue - Exact priority from 1 (lowest) to 100 (highest); overrides priority.
+   * @param options.runAsMe - Run under the calling user's identity (attended/unattended user robots).
+   * @param options.machineRobots - Machine/robot/session pairs the job is restricted to.
+   * @param options.robotIds - Robots to run on, one job each; implies the Specific strategy.
+   * @param options.runtimeType - Runtime license the job consumes (e.g. Unattended, NonProduction).
    * @param options.folderId - Folder scope.
    * @returns Array of created job records.
    */
@@ -894,14 +2530,21 @@ export class UiPathClient {
       inputArguments?: Record<string, unknown>
       jobsCount?: number
       strategy?: "ModernJobsCount" | "Specific" | "JobsCount"
+      priority?: JobPriority
+      specificPriorityValue?: number
+      runAsMe?: boolean
+      machineRobots?: MachineRobotPair[]
+      robotIds?: number[]
+      runtimeType?: RobotType
       folderId?: number
     } = {}
   ): Promise<Job[]> {
     const effectiveFolderId = this.getFolderId(options.folderId)
+    const hasRobots = options.robotIds !== undefined && options.robotIds.length > 0
     const request: StartJobRequest = {
       startInfo: {
         ReleaseKey: releaseKey,
-        Strategy: options.strategy || "ModernJobsCount",
+        Strategy: options.strategy || (hasRobots ? "Specific" : "ModernJobsCount"),
         JobsCount: options.jobsCount || 1,
       },
     }
@@ -909,6 +2552,23 @@ export class UiPathClient {
     if (options.inputArguments) {
       request.startInfo.InputArguments = JSON.stringify(options.inputArguments)
     }
+    if (options.specificPriorityValue !== undefined) {
+      request.startInfo.SpecificPriorityValue = options.specificPriorityValue
+    } else if (options.priority) {
+      request.startInfo.JobPriority = options.priority
+    }
+    if (options.runAsMe !== undefined) {
+      request.startInfo.RunAsMe = options.runAsMe
+    }
+    if (options.machineRobots && options.machineRobots.length > 0) {
+      request.startInfo.MachineRobots = options.machineRobots
+    }
+    if (hasRobots) {
+      request.startInfo.RobotIds = options.robotIds
+    }
+    if (options.runtimeType) {
+      request.startInfo.RuntimeType = options.runtimeType
+    }
 
     const data = await this.request<ODataResponse<Job>>(
       "POST",
@@ -920,6 +2580,145 @@ export class UiPathClient {
     return data.value
   }
 
+  /**
+   * Resolve robot names, machine names and a runtime type to the IDs startJob
+   * needs, checking that each target has a connected session and a licensed
+   * runtime. Robots alone use the Specific strategy; once machines are named the
+   * job is pinned with machine/robot pairs instead.
+   * @param options.robotNames - Robots to run on (case-insensitive).
+   * @param options.machineNames - Machines to run on; with robotNames, restricts those robots to these machines.
+   * @param options.runtimeType - Runtime the job must use; sessions of other types do not count.
+   * @param options.folderId - Folder scope.
+   * @returns The resolved target, with warnings for busy robots or unverifiable licensing.
+   * @throws {NotFoundError} When a robot or machine name does not exist.
+   * @throws {ValidationError} When a target is disabled, disconnected or unlicensed.
+   */
+  async resolveJobTarget(options: {
+    robotNames?: string[]
+    machineNames?: string[]
+    runtimeType?: RobotType
+    folderId?: number
+  } = {}): Promise<JobTarget> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const robotNames = options.robotNames ?? []
+    const machineNames = options.machineNames ?? []
+    const runtimeType = options.runtimeType
+
+    const [targetRobots, targetMachines] = await Promise.all([
+      robotNames.length > 0 ? this.getRobotsByName(robotNames, effectiveFolderId) : [],
+      machineNames.length > 0 ? this.getMachinesByName(machineNames) : [],
+    ])
+    const machineIds = new Set(targetMachines.map(m => m.Id))
+    const warnings: string[] = []
+    // Only the named targets' sessions are read; a folder-wide runtime check reads them all
+    const { items: sessions, truncated } = await collectUpTo(this.iterateSessions({
+      folderId: effectiveFolderId,
+      robotIds: targetRobots.length > 0 ? targetRobots.map(r => r.Id) : undefined,
+      machineIds: targetMachines.length > 0 ? [...machineIds] : undefined,
+      maxItems: DEFAULT_MAX_ITEMS + 1,
+    }), DEFAULT_MAX_ITEMS)
+    if (truncated) {
+      warnings.push(`Only the first ${DEFAULT_MAX_ITEMS} sessions were read; a target may have been missed`)
+    }
+
+    for (const robot of targetRobots) {
+      if (!robot.IsEnabled) {
+        throw new ValidationError(`Robot ${robot.Name} is disabled`, { hint: "Enable the robot or pick another one." })
+      }
+    }
+
+    // Each target is satisfied by any of its sessions; sessions of another runtime type do not count
+    const ofType = (s: Session) => !runtimeType || s.RuntimeType === runtimeType
+    const sessionKind = runtimeType ? `${runtimeType} session` : "session"
+    const targets: Array<{ label: string; licenseType: RobotType; sessions: Session[] }> =
+      targetRobots.length > 0
+        ? targetRobots.map(robot => ({
+          label: machineIds.size > 0 ? `Robot ${robot.Name} on ${machineNames.join(", ")}` : `Robot ${robot.Name}`,
+          licenseType: runtimeType ?? (robot.Type as RobotType),
+          sessions: sessions.filter(s => s.RobotId === robot.Id && ofType(s) && (machineIds.size === 0 || machineIds.has(s.MachineId ?? -1))),
+        }))
+        : targetMachines.length > 0
+          ? targetMachines.map(machine => ({
+            label: `Machine ${machine.Name}`,
+            licenseType: runtimeType ?? "Unattended",
+            sessions: sessions.filter(s => s.MachineId === machine.Id && ofType(s)),
+          }))
+          : runtimeType
+            ? [{ label: "this folder", licenseType: runtimeType, sessions: sessions.filter(ofType) }]
+            : []
+
+    const licenses = new Map<RobotType, Map<number, LicenseRuntimeDto> | null>()
+    const licensedMachines = async (type: RobotType): Promise<Map<number, LicenseRuntimeDto> | null> => {
+      if (!licenses.has(type)) {
+        try {
+          const data = await this.getLicensesRuntime(type)
+          licenses.set(type, new Map(data.value.map(entry => [entry.MachineId, entry])))
+        } catch (error) {
+          if (!(error instanceof PermissionError)) throw error
+          warnings.push(`Could not verify ${type} licensing: ${error.message}`)
+          licenses.set(type, null)
+        }
+      }
+      return licenses.get(type) ?? null
+    }
+
+    const usable = new Map<string, Session[]>()
+    for (const target of targets) {
+      const connected = target.sessions.filter(s => !s.IsUnresponsive && (s.State === "Available" || s.State === "Busy"))
+      if (connected.length === 0) {
+        const states = [...new Set(target.sessions.map(s => (s.IsUnresponsive ? "Unresponsive" : s.State)))]
+        throw new ValidationError(
+          target.sessions.length === 0
+            ? `No ${sessionKind} found for ${target.label}`
+            : `No connected ${sessionKind} for ${target.label} (${states.join(", ")})`,
+          {
+            hint: truncated
+              ? `Only the first ${DEFAULT_MAX_ITEMS} sessions were read; name the robots or machines to narrow the lookup.`
+              : "Check the robot service on the machine, or target a robot that is Available.",
+          }
+        )
+      }
+      const licensed = await licensedMachines(target.licenseType)
+      const inLicense = licensed
+        ? connected.filter(s => {
+          const entry = licensed.get(s.MachineId ?? -1)
+          return entry !== undefined && entry.IsLicensed && entry.Enabled
+        })
+        : connected
+      if (inLicense.length === 0) {
+        throw new ValidationError(`No ${target.licenseType} runtime is licensed for ${target.label}`, {
+          hint: "Allocate a runtime to the machine in Orchestrator (Tenant > Machines), or pick another target.",
+        })
+      }
+      if (inLicense.every(s => s.State === "Busy")) {
+        warnings.push(`Every session for ${target.label} is busy; the job stays Pending until one is free`)
+      }
+      usable.set(target.label, inLicense)
+    }
+
+    const target: JobTarget = {
+      strategy: "ModernJobsCount",
+      runtimeType,
+      robots: targetRobots.map(r => r.Name),
+      machines: targetMachines.map(m => m.Name),
+      warnings,
+    }
+    if (targetRobots.length > 0 && machineIds.size === 0) {
+      target.strategy = "Specific"
+      target.robotIds = targetRobots.map(r => r.Id)
+    } else if (targetRobots.length > 0) {
+      const pairs = new Map<string, MachineRobotPair>()
+      for (const { MachineId, RobotId } of [...usable.values()].flat()) {
+        if (MachineId === null || RobotId === null) continue
+        pairs.set(`${MachineId}:${RobotId}`, { MachineId, RobotId })
+      }
+      target.machineRobots = [...pairs.values()]
+    } else if (targetMachines.length > 0) {
+      target.machineRobots = targetMachines.map(m => ({ MachineId: m.Id }))
+    }
+    return target
+  }
+
   /**
    * Request a running job to stop.
    * @param jobId - ID of the job to stop.
@@ -938,10 +2737,256 @@ export class UiPathClient {
     )
   }
 
+  /**
+   * Stop several jobs in one request.
+   * @param jobIds - Jobs to stop; jobs that are not Pending, Running or Suspended are reported as failures.
+   * @param strategy - SoftStop (graceful) or Kill (immediate). Default SoftStop.
+   * @param folderId - Folder scope.
+   * @returns IDs for which a stop was requested and per-job errors.
+   */
+  async stopJobs(
+    jobIds: number[],
+    strategy: "SoftStop" | "Kill" = "SoftStop",
+    folderId?: number
+  ): Promise<BulkItemResult> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const stoppable: JobState[] = ["Pending", "Running", "Suspended", "Resumed"]
+    const { eligible, result } = await this.loadJobsForBulk(
+      jobIds,
+      job => (stoppable.includes(job.State) ? null : `Job is already ${job.State}`),
+      effectiveFolderId
+    )
+    if (eligible.length === 0) return result
+
+    const request: StopJobsRequest = { strategy, jobIds: eligible.map(job => job.Id) }
+    try {
+      await this.request<void>(
+        "POST",
+        "/odata/Jobs/UiPath.Server.Configuration.OData.StopJobs",
+        undefined,
+        request,
+        effectiveFolderId
+      )
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error
+      result.failed.push(...eligible.map(job => ({ id: job.Id, error: error.message })))
+      return result
+    }
+    result.succeeded.push(...eligible.map(job => job.Id))
+    return result
+  }
+
+  /**
+   * Restart a finished job with the same process version, robot settings and
+   * original input arguments.
+   * @param jobId - ID of a Faulted, Stopped or Successful job.
+   * @param folderId - Folder scope.
+   * @returns The newly created job.
+   * @throws {ValidationError} If the job has not finished yet.
+   */
+  async restartJob(jobId: number, folderId?: number): Promise<Job> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const job = await this.getJobById(jobId, effectiveFolderId)
+    const finished: JobState[] = ["Faulted", "Stopped", "Terminated", "Successful"]
+    if (!finished.includes(job.State)) {
+      throw new ValidationError(`Only finished jobs can be restarted (job ${jobId} is ${job.State})`)
+    }
+    return this.request<Job>(
+      "POST",
+      "/odata/Jobs/UiPath.Server.Configuration.OData.RestartJob",
+      undefined,
+      { jobId },
+      effectiveFolderId
+    )
+  }
+
+  /**
+   * Resume suspended jobs (e.g. long-running workflows waiting on a trigger).
+   * @param jobIds - Jobs to resume; jobs that are not Suspended are reported as failures.
+   * @param folderId - Folder scope.
+   * @returns IDs that were resumed and per-job errors.
+   */
+  async resumeJobs(jobIds: number[], folderId?: number): Promise<BulkItemResult> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const { eligible, result } = await this.loadJobsForBulk(
+      jobIds,
+      job => (job.State === "Suspended" ? null : `Only Suspended jobs can be resumed (state: ${job.State})`),
+      effectiveFolderId
+    )
+    for (const job of eligible) {
+      try {
+        await this.request<void>(
+          "POST",
+          "/odata/Jobs/UiPath.Server.Configuration.OData.ResumeJob",
+          undefined,
+          { jobKey: job.Key },
+          effectiveFolderId
+        )
+        result.succeeded.push(job.Id)
+      } catch (error) {
+        if (!(error instanceof ValidationError) && !(error instanceof NotFoundError)) throw error
+        result.failed.push({ id: job.Id, error: error.message })
+      }
+    }
+    return result
+  }
+
+  /**
+   * Poll a job with backoff until it reaches a terminal state, is suspended,
+   * or the timeout elapses, then collect its output arguments and log tail.
+   * @param jobId - The job to wait for.
+   * @param options.folderId - Folder scope.
+   * @param options.timeoutMs - Give up waiting after this long (default 10 minutes).
+   * @param options.pollIntervalMs - First delay between polls (default 2000); grows 1.5x per poll.
+   * @param options.maxPollIntervalMs - Upper bound on the delay between polls (default 15000).
+   * @param options.logLines - Number of trailing robot log lines to return (default 20).
+   * @param options.onPoll - Called after every poll with the job and elapsed time.
+   * @param options.signal - Aborts the wait.
+   * @returns The last job state, whether it finished or timed out, duration, parsed output arguments and logs.
+   */
+  async waitForJob(
+    jobId: number,
+    options: {
+      folderId?: number
+      timeoutMs?: number
+      pollIntervalMs?: number
+      maxPollIntervalMs?: number
+      logLines?: number
+      onPoll?: (job: Job, elapsedMs: number) => void | Promise<void>
+      signal?: AbortSignal
+    } = {}
+  ): Promise<JobCompletionResult> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const timeoutMs = options.timeoutMs ?? 10 * 60 * 1000
+    const maxInterval = options.maxPollIntervalMs ?? 15_000
+    const terminal: JobState[] = ["Successful", "Faulted", "Stopped", "Terminated"]
+    const started = Date.now()
+    let interval = options.pollIntervalMs ?? 2000
+
+    options.signal?.throwIfAborted()
+    let job = await this.getJobById(jobId, effectiveFolderId)
+    for (;;) {
+      const elapsed = Date.now() - started
+      await options.onPoll?.(job, elapsed)
+      if (terminal.includes(job.State) || job.State === "Suspended" || elapsed >= timeoutMs) break
+      await sleep(Math.min(interval, timeoutMs - elapsed), options.signal)
+      interval = Math.min(interval * 1.5, maxInterval)
+      job = await this.getJobById(jobId, effectiveFolderId)
+    }
+
+    const finished = terminal.includes(job.State)
+    let outputArguments: Record<string, unknown> | null = null
+    if (job.OutputArguments) {
+      try {
+        outputArguments = JSON.parse(job.OutputArguments)
+      } catch {
+        outputArguments = { raw: job.OutputArguments }
+      }
+    }
+    options.signal?.throwIfAborted()
+    // The job result stands without its log when the caller cannot read logs
+    const { logs } = await this.getRobotLogs({
+      jobKey: job.Key,
+      folderId: effectiveFolderId,
+      top: options.logLines ?? 20,
+    }).catch(error => {
+      if (error instanceof PermissionError || error instanceof NotFoundError) return { logs: [] as RobotLog[] }
+      throw error
+    })
+
+    return {
+      job,
+      finished,
+      timedOut: !finished && job.State !== "Suspended",
+      durationSeconds: computeDuration(job.StartTime, job.EndTime),
+      outputArguments,
+      logs: logs.reverse(),
+    }
+  }
+
+  /**
+   * Fetch a job's robot log in chronological order and condense it for diagnosis.
+   * @param jobId - The job ID; its key is looked up to filter the logs.
+   * @param options.folderId - Folder scope.
+   * @param options.maxLines - Upper bound on log lines fetched (default 5000).
+   * @param options.collapse - Fold consecutive near-identical lines (default true).
+   * @returns Level counts, the first Error/Fatal line, the parsed job error and the log lines.
+   */
+  async getJobLogs(
+    jobId: number,
+    options: { folderId?: number; maxLines?: number; collapse?: boolean } = {}
+  ): Promise<JobLogReport> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const maxLines = options.maxLines ?? 5000
+    const job = await this.getJobById(jobId, effectiveFolderId)
+
+    const { items: logs, truncated } = await collectUpTo(this.iterateRobotLogs({
+      folderId: effectiveFolderId,
+      jobKey: job.Key,
+      orderBy: "TimeStamp asc",
+      maxItems: maxLines + 1,
+    }), maxLines)
+
+    const levelCounts: Record<string, number> = {}
+    for (const log of logs) {
+      levelCounts[log.Level] = (levelCounts[log.Level] ?? 0) + 1
+    }
+
+    return {
+      job: {
+        Id: job.Id,
+        Key: job.Key,
+        State: job.State,
+        ReleaseName: job.ReleaseName,
+        HostMachineName: job.HostMachineName,
+        StartTime: job.StartTime,
+        EndTime: job.EndTime,
+      },
+      totalLines: logs.length,
+      truncated,
+      levelCounts,
+      firstError: findFirstError(logs),
+      error: parseJobError(job.JobError) ?? (job.State === "Faulted" ? parseJobError(job.Info) : null),
+      lines: options.collapse === false
+        ? logs.map(log => ({ timeStamp: log.TimeStamp, level: log.Level, message: log.Message ?? "", repeat: 1 }))
+        : collapseLogLines(logs),
+    }
+  }
+
+  /**
+   * Fetch the jobs targeted by a bulk operation and split them into eligible
+   * jobs and per-job errors for IDs that are missing or fail the state check.
+   */
+  private async loadJobsForBulk(
+    jobIds: number[],
+    reject: (job: Job) => string | null,
+    folderId?: number
+  ): Promise<{ eligible: Job[]; result: BulkItemResult }> {
+    const ids = [...new Set(jobIds)]
+    if (ids.length === 0) {
+      throw new ValidationError("At least one job ID is required")
+    }
+    const found = await this.fetchByIds<Job>("/odata/Jobs", ids, ["Id", "Key", "State", "ReleaseName"], folderId)
+
+    const byId = new Map(found.map(job => [job.Id, job]))
+    const eligible: Job[] = []
+    const result: BulkItemResult = { succeeded: [], failed: [] }
+    for (const id of ids) {
+      const job = byId.get(id)
+      const error = job ? reject(job) : `Job not found: ${id}`
+      if (job && error === null) {
+        eligible.push(job)
+      } else if (error !== null) {
+        result.failed.push({ id, error })
+      }
+    }
+    return { eligible, result }
+  }
+
   /**
    * Compute aggregate job statistics by counting jobs in each state.
-   * Tries per-state $count queries first; if unsupported, fetches up to
-   * 1000 jobs and counts locally.
+   * Tries per-state $count queries first; if unsupported, pages through
+   * every job and counts locally.
    * @param folderId - Folder scope.
    * @returns Counts per state, total jobs, and success rate percentage.
    */
@@ -1011,10 +3056,8 @@ export class UiPathClient {
       stats.faultedJobs = 0
       stats.stoppedJobs = 0
 
-      const { jobs } = await this.getJobs({ top: 1000, folderId: effectiveFolderId })
-      stats.totalJobs = jobs.length
-
-      for (const job of jobs) {
+      for await (const job of this.iterateJobs({ folderId: effectiveFolderId })) {
+        stats.totalJobs += 1
         switch (job.State) {
           case "Pending":
             stats.pendingJobs += 1
@@ -1054,10 +3097,9 @@ export class UiPathClient {
    */
   async getReleases(processKey?: string, folderId?: number): Promise<Release[]> {
     const effectiveFolderId = this.getFolderId(folderId)
-    const params: Record<string, string> = {}
-    if (processKey) {
-      params.$filter = `ProcessKey eq '${encodeURIComponent(processKey)}'`
-    }
+    const params = buildQuery({
+      filter: processKey ? eq<Release>("ProcessKey", processKey) : undefined,
+    })
 
     const data = await this.request<ODataResponse<Release>>(
       "GET",
@@ -1082,9 +3124,7 @@ export class UiPathClient {
       return releasesByKey[0]
     }
 
-    const params = {
-      $filter: `Name eq '${this.escapeODataString(nameOrKey)}'`,
-    }
+    const params = buildQuery({ filter: eq<Release>("Name", nameOrKey) })
     const data = await this.request<ODataResponse<Release>>(
       "GET",
       "/odata/Releases",
@@ -1095,6 +3135,435 @@ export class UiPathClient {
     return data.value[0] || null
   }
 
+  /**
+   * Describe the input and output arguments a release's process declares.
+   * @param release - Release as returned by getReleases/findReleaseByNameOrKey.
+   * @returns Argument definitions; empty lists when the release exposes none.
+   */
+  getProcessArguments(release: Release): {
+    processName: string
+    releaseKey: string
+    processVersion: string
+    input: ArgumentDefinition[]
+    output: ArgumentDefinition[]
+  } {
+    return {
+      processName: release.Name,
+      releaseKey: release.Key,
+      processVersion: release.ProcessVersion,
+      input: parseArgumentDefinitions(release.Arguments?.Input),
+      output: parseArgumentDefinitions(release.Arguments?.Output),
+    }
+  }
+
+  /**
+   * Validate and coerce job input arguments against a release's declared inputs.
+   * Releases that declare no inputs accept the arguments unchanged.
+   * @param release - Release the job will be started from.
+   * @param inputArguments - Arguments supplied by the caller.
+   * @returns The coerced arguments, ready to pass to startJob.
+   * @throws {SchemaValidationError} Listing unknown, missing and mistyped arguments.
+   */
+  prepareInputArguments(release: Release, inputArguments: Record<string, unknown> = {}): Record<string, unknown> {
+    const definitions = parseArgumentDefinitions(release.Arguments?.Input)
+    if (definitions.length === 0) {
+      return inputArguments
+    }
+    const { arguments: coerced, errors } = validateInputArguments(definitions, inputArguments)
+    if (errors.length > 0) {
+      throw new SchemaValidationError(`Input arguments do not match process ${release.Name}`, errors, {
+        hint: `Expected arguments: ${definitions
+          .map(def => `${def.name} (${def.type}${def.required && !def.hasDefault ? ", required" : ""})`)
+          .join(", ")}`,
+      })
+    }
+    return coerced
+  }
+
+  // ============ Package Operations ============
+
+  /**
+   * List packages in the feed, latest version of each.
+   * @param options.search - Only packages whose ID contains this text (case-insensitive).
+   * @param options.maxItems - Upper bound on packages returned (default 1000).
+   * @returns Package records ordered by ID.
+   */
+  async getPackages(options: { search?: string; maxItems?: number } = {}): Promise<ProcessPackage[]> {
+    const params = buildQuery({ orderBy: "Id asc" })
+    const packages = await collect(
+      this.paginate<ProcessPackage>("/odata/Processes", params, undefined, { maxItems: options.maxItems ?? 1000 })
+    )
+    const search = options.search?.toLowerCase()
+    return search ? packages.filter(p => p.Id.toLowerCase().includes(search)) : packages
+  }
+
+  /**
+   * List every version of a package in the feed.
+   * @param packageId - Package ID (a release's ProcessKey).
+   * @returns Versions, newest first.
+   */
+  async getPackageVersions(packageId: string): Promise<ProcessPackage[]> {
+    const encodedId = encodeURIComponent(formatLiteral(packageId))
+    const data = await this.request<ODataResponse<ProcessPackage>>(
+      "GET",
+      `/odata/Processes/UiPath.Server.Configuration.OData.GetProcessVersions(processId=${encodedId})`
+    )
+    return data.value.sort((a, b) => this.compareVersions(b.Version, a.Version))
+  }
+
+  /**
+   * List the entry points (startable workflows) of a package version.
+   * @param packageId - Package ID.
+   * @param version - Package version (default: latest).
+   * @returns Entry points with their declared arguments.
+   */
+  async getPackageEntryPoints(packageId: string, version?: string): Promise<PackageEntryPoint[]> {
+    const resolvedVersion = version ?? (await this.getPackageVersions(packageId))[0]?.Version
+    if (!resolvedVersion) {
+      throw new NotFoundError(`Package not found: ${packageId}`)
+    }
+    const key = encodeURIComponent(formatLiteral(`${packageId}:${resolvedVersion}`))
+    const data = await this.request<ODataResponse<PackageEntryPoint>>(
+      "GET",
+      `/odata/Processes/UiPath.Server.Configuration.OData.GetPackageEntryPoints(key=${key})`
+    )
+    return data.value
+  }
+
+  /**
+   * Find which package version every release is pinned to, across folders.
+   * Folders whose releases cannot be read are skipped and reported.
+   * @param options.packageId - Only releases of this package.
+   * @param options.folderId - Only this folder instead of every folder.
+   * @param options.version - Only releases pinned to this version.
+   */
+  async getReleaseDeployments(options: {
+    packageId?: string
+    folderId?: number
+    version?: string
+  } = {}): Promise<{ deployments: ReleaseDeployment[]; skippedFolders: PackageCatalog["skippedFolders"] }> {
+    const folders: Array<Pick<Folder, "Id" | "FullyQualifiedName" | "DisplayName">> = options.folderId
+      ? [{ Id: options.folderId, FullyQualifiedName: null, DisplayName: String(options.folderId) }]
+      : await collect(this.iterateFolders())
+    const deployments: ReleaseDeployment[] = []
+    const skippedFolders: PackageCatalog["skippedFolders"] = []
+
+    const releasesByFolder = await mapConcurrent(folders, REQUEST_CONCURRENCY, async folder => {
+      try {
+        return await this.getReleases(options.packageId, folder.Id)
+      } catch (error) {
+        if (!(error instanceof PermissionError) && !(error instanceof NotFoundError)) throw error
+        return error
+      }
+    })
+    for (const [index, folder] of folders.entries()) {
+      const folderName = folder.FullyQualifiedName || folder.DisplayName
+      const releases = releasesByFolder[index]
+      if (!Array.isArray(releases)) {
+        skippedFolders.push({ folderId: folder.Id, folderName, error: releases.message })
+        continue
+      }
+      for (const release of releases) {
+        if (options.version && release.ProcessVersion !== options.version) continue
+        deployments.push({
+          folderId: folder.Id,
+          folderName: release.OrganizationUnitFullyQualifiedName || folderName,
+          releaseId: release.Id,
+          releaseKey: release.Key,
+          releaseName: release.Name,
+          packageId: release.ProcessKey,
+          processVersion: release.ProcessVersion,
+          isLatestVersion: release.IsLatestVersion,
+          entryPointPath: release.EntryPointPath ?? null,
+        })
+      }
+    }
+    return { deployments, skippedFolders }
+  }
+
+  /**
+   * Combine the package feed with release deployments: every version of each
+   * package and the folders and releases pinned to each.
+   * @param options.packageId - Only this package.
+   * @param options.folderId - Only deployments in this folder.
+   * @param options.version - Only deployments pinned to this version (e.g. to find folders still on 1.2.0).
+   * @param options.includeVersions - List all versions of each package (default true; one request per package).
+   */
+  async getPackageCatalog(options: {
+    packageId?: string
+    folderId?: number
+    version?: string
+    includeVersions?: boolean
+  } = {}): Promise<PackageCatalog> {
+    const [feed, { deployments, skippedFolders }] = await Promise.all([
+      options.packageId ? this.getPackageVersions(options.packageId) : this.getPackages(),
+      this.getReleaseDeployments(options),
+    ])
+    if (options.packageId && feed.length === 0) {
+      throw new NotFoundError(`Package not found: ${options.packageId}`)
+    }
+    // With a packageId the feed lookup already returned every version of it
+    const packages = options.packageId ? feed.slice(0, 1) : feed
+
+    const entries: PackageCatalogEntry[] = await mapConcurrent(packages, REQUEST_CONCURRENCY, async pkg => {
+      const versions = options.includeVersions === false
+        ? [pkg]
+        : options.packageId ? feed : await this.getPackageVersions(pkg.Id)
+      return {
+        packageId: pkg.Id,
+        title: pkg.Title,
+        latestVersion: versions[0]?.Version ?? pkg.Version,
+        versions: versions.map(v => ({ version: v.Version, published: v.Published })),
+        deployments: deployments.filter(d => d.packageId === pkg.Id),
+      }
+    })
+    return { packages: options.version ? entries.filter(e => e.deployments.length > 0) : entries, skippedFolders }
+  }
+
+  /**
+   * Pin a release to a specific package version, upgrading or rolling back.
+   * @param releaseId - Release to change.
+   * @param version - Target package version; must exist in the feed.
+   * @param folderId - Folder scope.
+   * @returns The updated release, previous and new versions and the direction of the change.
+   * @throws {NotFoundError} When the version is not in the feed.
+   */
+  async setReleaseVersion(releaseId: number, version: string, folderId?: number): Promise<ReleaseVersionChange> {
+    const effectiveFolderId = this.getFolderId(folderId)
+    const release = await this.request<Release>("GET", `/odata/Releases(${releaseId})`, undefined, undefined, effectiveFolderId)
+    const previousVersion = release.ProcessVersion
+    if (previousVersion === version) {
+      return { release, previousVersion, newVersion: version, direction: "unchanged" }
+    }
+
+    const versions = await this.getPackageVersions(release.ProcessKey)
+    if (!versions.some(v => v.Version === version)) {
+      throw new NotFoundError(`Version ${version} of package ${release.ProcessKey} is not in the feed`, {
+        hint: `Available versions: ${versions.slice(0, 15).map(v => v.Version).join(", ") || "none"}`,
+      })
+    }
+
+    await this.request<void>(
+      "POST",
+      `/odata/Releases(${releaseId})/UiPath.Server.Configuration.OData.UpdateToSpecificPackageVersion`,
+      undefined,
+      { packageVersion: version },
+      effectiveFolderId
+    )
+    const updated = await this.request<Release>("GET", `/odata/Releases(${releaseId})`, undefined, undefined, effectiveFolderId)
+    return {
+      release: updated,
+      previousVersion,
+      newVersion: updated.ProcessVersion,
+      direction: this.compareVersions(version, previousVersion) > 0 ? "upgrade" : "rollback",
+    }
+  }
+
+  // ============ Release Management ============
+
+  /**
+   * Create a release (process) in a folder from a package version.
+   * @param packageId - Package ID in the feed.
+   * @param options.name - Release name (default: the package ID).
+   * @param options.version - Package version (default: latest).
+   * @param options.entryPointPath - Workflow to run, e.g. "Main.xaml" (default: the package's first entry point).
+   * @param options.folderId - Folder to create the release in; required.
+   * @param options.dryRun - Validate and return the request without sending it.
+   * @returns The request and the created release (null for dry runs).
+   * @throws {NotFoundError} When the package, version, entry point or environment does not exist.
+   * @throws {SchemaValidationError} When default input arguments do not match the entry point.
+   */
+  async createRelease(
+    packageId: string,
+    options: ReleaseSettings & {
+      name?: string
+      version?: string
+      entryPointPath?: string
+      folderId?: number
+      dryRun?: boolean
+    } = {}
+  ): Promise<ReleaseWriteResult> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    if (effectiveFolderId === undefined) {
+      throw new ValidationError("A folderId is required to create a release")
+    }
+
+    const versions = await this.getPackageVersions(packageId)
+    const version = options.version ?? versions[0]?.Version
+    if (!version || !versions.some(v => v.Version === version)) {
+      throw new NotFoundError(
+        versions.length === 0 ? `Package not found: ${packageId}` : `Version ${version} of package ${packageId} is not in the feed`,
+        { hint: versions.length > 0 ? `Available versions: ${versions.slice(0, 15).map(v => v.Version).join(", ")}` : undefined }
+      )
+    }
+
+    const entryPoints = await this.getPackageEntryPoints(packageId, version)
+    const entryPoint = options.entryPointPath
+      ? entryPoints.find(e => e.Path.toLowerCase() === options.entryPointPath?.toLowerCase())
+      : entryPoints[0]
+    if (options.entryPointPath && !entryPoint) {
+      throw new NotFoundError(`Entry point ${options.entryPointPath} not found in ${packageId} ${version}`, {
+        hint: `Entry points: ${entryPoints.map(e => e.Path).join(", ") || "none"}`,
+      })
+    }
+
+    const body: Record<string, unknown> = {
+      Name: options.name ?? packageId,
+      ProcessKey: packageId,
+      ProcessVersion: version,
+      ...(entryPoint ? { EntryPointId: entryPoint.Id } : {}),
+      ...(await this.releaseSettingsBody(
+        options,
+        parseArgumentDefinitions(entryPoint?.InputArguments),
+        {},
+        effectiveFolderId
+      )),
+    }
+
+    const request: PlannedRequest = { method: "POST", endpoint: "/odata/Releases", folderId: effectiveFolderId, body }
+    if (options.dryRun) {
+      return { dryRun: true, request, release: null }
+    }
+    const release = await this.request<Release>("POST", request.endpoint, undefined, body, effectiveFolderId)
+    return { dryRun: false, request, release }
+  }
+
+  /**
+   * Change a release's description, default input arguments, environment or
+   * priority. Only the given settings are sent.
+   * @param releaseId - Release to change.
+   * @param options.folderId - Folder scope.
+   * @param options.dryRun - Validate and return the request without sending it.
+   * @returns The request and the release after the change (before it for dry runs).
+   * @throws {ValidationError} When no setting is given.
+   * @throws {SchemaValidationError} When default input arguments do not match the process.
+   */
+  async updateRelease(
+    releaseId: number,
+    options: ReleaseSettings & { folderId?: number; dryRun?: boolean } = {}
+  ): Promise<ReleaseWriteResult> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const current = await this.request<Release>("GET", `/odata/Releases(${releaseId})`, undefined, undefined, effectiveFolderId)
+
+    let existingDefaults: Record<string, unknown> = {}
+    try {
+      existingDefaults = current.InputArguments ? JSON.parse(current.InputArguments) : {}
+    } catch {
+      // Unparseable defaults are replaced rather than merged
+    }
+    const body = await this.releaseSettingsBody(
+      options,
+      parseArgumentDefinitions(current.Arguments?.Input),
+      existingDefaults,
+      effectiveFolderId
+    )
+    if (Object.keys(body).length === 0) {
+      throw new ValidationError("No release settings to change", {
+        hint: "Pass description, inputArguments, environmentName, priority or specificPriorityValue.",
+      })
+    }
+
+    const request: PlannedRequest = {
+      method: "PATCH",
+      endpoint: `/odata/Releases(${releaseId})`,
+      folderId: effectiveFolderId ?? null,
+      body,
+    }
+    if (options.dryRun) {
+      return { dryRun: true, request, release: current }
+    }
+    await this.request<void>("PATCH", request.endpoint, undefined, body, effectiveFolderId)
+    const release = await this.request<Release>("GET", request.endpoint, undefined, undefined, effectiveFolderId)
+    return { dryRun: false, request, release }
+  }
+
+  /**
+   * Delete a release from its folder. Schedules and queue triggers that start it
+   * must be removed first; Orchestrator rejects the delete otherwise.
+   * @param releaseId - Release to delete.
+   * @param options.folderId - Folder scope.
+   * @param options.dryRun - Check the release exists and return the request without sending it.
+   * @returns The request and the release as it was before deletion (dry run) or null.
+   */
+  async deleteRelease(releaseId: number, options: { folderId?: number; dryRun?: boolean } = {}): Promise<ReleaseWriteResult> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const current = await this.request<Release>("GET", `/odata/Releases(${releaseId})`, undefined, undefined, effectiveFolderId)
+    const request: PlannedRequest = {
+      method: "DELETE",
+      endpoint: `/odata/Releases(${releaseId})`,
+      folderId: effectiveFolderId ?? null,
+      body: null,
+    }
+    if (options.dryRun) {
+      return { dryRun: true, request, release: current }
+    }
+    await this.request<void>("DELETE", request.endpoint, undefined, undefined, effectiveFolderId)
+    return { dryRun: false, request, release: null }
+  }
+
+  /**
+   * Translate release settings into ReleaseDto fields, validating default input
+   * arguments against the process's declared inputs and resolving the environment.
+   */
+  private async releaseSettingsBody(
+    settings: ReleaseSettings,
+    definitions: ArgumentDefinition[],
+    existingDefaults: Record<string, unknown>,
+    folderId?: number
+  ): Promise<Record<string, unknown>> {
+    const body: Record<string, unknown> = {}
+    if (settings.description !== undefined) {
+      body.Description = settings.description
+    }
+    if (settings.inputArguments) {
+      let defaults = settings.inputArguments
+      if (definitions.length > 0) {
+        const provided = Object.fromEntries(Object.entries(defaults).filter(([, value]) => value !== null))
+        const { arguments: coerced, errors } = validateInputArguments(definitions, provided, { requireAll: false })
+        if (errors.length > 0) {
+          throw new SchemaValidationError("Default input arguments do not match the process", errors, {
+            hint: `Expected arguments: ${definitions.map(def => `${def.name} (${def.type})`).join(", ")}`,
+          })
+        }
+        defaults = { ...defaults, ...coerced }
+      }
+      const merged: Record<string, unknown> = { ...existingDefaults, ...defaults }
+      for (const [name, value] of Object.entries(merged)) {
+        if (value === null) delete merged[name]
+      }
+      body.InputArguments = JSON.stringify(merged)
+    }
+    if (settings.environmentName !== undefined) {
+      body.EnvironmentId = settings.environmentName === null
+        ? null
+        : await this.findEnvironmentId(settings.environmentName, folderId)
+    }
+    if (settings.specificPriorityValue !== undefined) {
+      body.SpecificPriorityValue = settings.specificPriorityValue
+    } else if (settings.priority) {
+      body.JobPriority = settings.priority
+    }
+    return body
+  }
+
+  private async findEnvironmentId(name: string, folderId?: number): Promise<number> {
+    const params = buildQuery({ filter: eq("Name", name) })
+    const data = await this.request<ODataResponse<{ Id: number; Name: string }>>(
+      "GET",
+      "/odata/Environments",
+      params,
+      undefined,
+      folderId
+    )
+    const environment = data.value[0]
+    if (!environment) {
+      throw new NotFoundError(`Environment not found: ${name}`, {
+        hint: "Environments exist only in classic folders; modern folders do not need one.",
+      })
+    }
+    return environment.Id
+  }
+
   // ============ Dashboard ============
 
   /**
@@ -1178,22 +3647,11 @@ export class UiPathClient {
     endTime?: string
   } = {}): Promise<FaultedJobSummary[]> {
     const effectiveFolderId = this.getFolderId(options.folderId)
-    const params: Record<string, string> = {
-      $top: String(options.top || 50),
-      $orderby: "CreationTime desc",
-    }
-
-    const filters: string[] = ["State eq 'Faulted'"]
-    if (options.releaseName) {
-      filters.push(`ReleaseName eq '${this.escapeODataString(options.releaseName)}'`)
-    }
-    if (options.startTime) {
-      filters.push(`CreationTime ge ${options.startTime}`)
-    }
-    if (options.endTime) {
-      filters.push(`CreationTime le ${options.endTime}`)
-    }
-    params.$filter = filters.join(" and ")
+    const params = buildQuery({
+      top: options.top || 50,
+      orderBy: "CreationTime desc",
+      filter: this.jobFilter({ ...options, state: "Faulted" }),
+    })
 
     let jobs: Job[]
     try {
@@ -1206,7 +3664,7 @@ export class UiPathClient {
       )
       jobs = data.value
     } catch (error) {
-      if (error instanceof Error && error.message.includes("Invalid OData")) {
+      if (isInvalidODataQuery(error)) {
         delete params.$orderby
         const data = await this.request<ODataResponse<Job>>(
           "GET",
@@ -1232,16 +3690,172 @@ export class UiPathClient {
       StartTime: job.StartTime,
       EndTime: job.EndTime,
       HostMachineName: job.HostMachineName,
-      durationSeconds: this.computeDuration(job.StartTime, job.EndTime),
+      durationSeconds: computeDuration(job.StartTime, job.EndTime),
     }))
   }
 
+  /**
+   * Group faulted jobs by error signature to surface common root causes.
+   * @param options.folderId - Folder scope.
+   * @param options.releaseName - Only jobs of this process.
+   * @param options.startTime - Only jobs created after this time (ISO 8601).
+   * @param options.endTime - Only jobs created before this time (ISO 8601).
+   * @param options.maxJobs - Upper bound on faulted jobs analyzed, newest first (default 500).
+   * @returns Clusters ordered by size, each with affected processes and machines and an example.
+   */
+  async getFaultedJobClusters(options: {
+    folderId?: number
+    releaseName?: string
+    startTime?: string
+    endTime?: string
+    maxJobs?: number
+  } = {}): Promise<FaultedJobClusterReport> {
+    const maxJobs = options.maxJobs ?? 500
+    const { items: jobs, truncated } = await collectUpTo(this.iterateJobs({
+      state: "Faulted",
+      releaseName: options.releaseName,
+      startTime: options.startTime,
+      endTime: options.endTime,
+      folderId: options.folderId,
+      maxItems: maxJobs + 1,
+    }), maxJobs)
+
+    return {
+      totalFaulted: jobs.length,
+      truncated,
+      clusters: clusterFaultedJobs(jobs),
+    }
+  }
+
+  /**
+   * Bucket jobs by creation time and report state counts, success rate and
+   * duration percentiles per bucket, overall and per process.
+   * @param options.startTime - Range start (ISO 8601, default 7 days before endTime).
+   * @param options.endTime - Range end (ISO 8601, default now).
+   * @param options.granularity - hour, day or week (default day); at most 500 buckets.
+   * @param options.releaseName - Only jobs of this process.
+   * @param options.folderId - Folder scope.
+   * @param options.maxJobs - Upper bound on jobs fetched, newest first (default 5000).
+   * @returns One bucket per period in the range, including empty ones.
+   * @throws {ValidationError} When the range is inverted or needs more than 500 buckets.
+   */
+  async getJobTrends(options: {
+    startTime?: string
+    endTime?: string
+    granularity?: TrendGranularity
+    releaseName?: string
+    folderId?: number
+    maxJobs?: number
+  } = {}): Promise<JobTrendReport> {
+    const granularity = options.granularity ?? "day"
+    const { start, end } = this.resolveRange(options.startTime, options.endTime, 7 * 24 * 60 * 60 * 1000)
+    const buckets = countBuckets(start, end, granularity)
+    if (buckets > 500) {
+      throw new ValidationError(`The range spans ${buckets} ${granularity} buckets; the maximum is 500`, {
+        hint: "Use a coarser granularity or a shorter range.",
+      })
+    }
+
+    const { jobs, truncated } = await this.collectJobsInRange(start, end, options)
+    return {
+      startTime: new Date(start).toISOString(),
+      endTime: new Date(end).toISOString(),
+      granularity,
+      totalJobs: jobs.length,
+      truncated,
+      buckets: buildTrendBuckets(jobs, start, end, granularity),
+    }
+  }
+
+  /**
+   * Compare job outcomes and durations between two periods, overall and per
+   * process, and flag statistically significant regressions.
+   * @param options.currentStart - Current period start (ISO 8601, default 7 days before currentEnd).
+   * @param options.currentEnd - Current period end (ISO 8601, default now).
+   * @param options.previousStart - Previous period start (default: same length immediately before).
+   * @param options.previousEnd - Previous period end (default: currentStart).
+   * @param options.releaseName - Only jobs of this process.
+   * @param options.folderId - Folder scope.
+   * @param options.maxJobs - Upper bound on jobs fetched per period (default 5000).
+   */
+  async compareJobPeriods(options: {
+    currentStart?: string
+    currentEnd?: string
+    previousStart?: string
+    previousEnd?: string
+    releaseName?: string
+    folderId?: number
+    maxJobs?: number
+  } = {}): Promise<JobPeriodComparison> {
+    const current = this.resolveRange(options.currentStart, options.currentEnd, 7 * 24 * 60 * 60 * 1000)
+    const previousEnd = options.previousEnd ?? new Date(current.start).toISOString()
+    const previous = this.resolveRange(options.previousStart, previousEnd, current.end - current.start)
+
+    const [currentJobs, previousJobs] = await Promise.all([
+      this.collectJobsInRange(current.start, current.end, options),
+      this.collectJobsInRange(previous.start, previous.end, options),
+    ])
+
+    const currentByProcess = groupByProcess(currentJobs.jobs)
+    const previousByProcess = groupByProcess(previousJobs.jobs)
+    const names = new Set([...currentByProcess.keys(), ...previousByProcess.keys()])
+    const processes = [...names]
+      .map(name => comparePeriods(name, currentByProcess.get(name) ?? [], previousByProcess.get(name) ?? []))
+      .sort((a, b) =>
+        Number(b.regressions.length > 0) - Number(a.regressions.length > 0) ||
+        b.current.total + b.previous.total - (a.current.total + a.previous.total))
+
+    return {
+      current: { startTime: new Date(current.start).toISOString(), endTime: new Date(current.end).toISOString() },
+      previous: { startTime: new Date(previous.start).toISOString(), endTime: new Date(previous.end).toISOString() },
+      truncated: currentJobs.truncated || previousJobs.truncated,
+      overall: comparePeriods("(all processes)", currentJobs.jobs, previousJobs.jobs),
+      processes,
+    }
+  }
+
+  /** Parse an ISO range, defaulting the end to now and the start to `defaultLengthMs` before it. */
+  private resolveRange(startTime: string | undefined, endTime: string | undefined, defaultLengthMs: number): { start: number; end: number } {
+    const end = endTime ? Date.parse(endTime) : Date.now()
+    const start = startTime ? Date.parse(startTime) : end - defaultLengthMs
+    if (isNaN(start) || isNaN(end)) {
+      throw new ValidationError(`Invalid date range: ${startTime ?? ""} - ${endTime ?? ""}`, {
+        hint: "Pass ISO 8601 timestamps, e.g. 2025-01-01T00:00:00Z.",
+      })
+    }
+    if (start >= end) {
+      throw new ValidationError("The range start must be before its end")
+    }
+    return { start, end }
+  }
+
+  private async collectJobsInRange(
+    start: number,
+    end: number,
+    options: { releaseName?: string; folderId?: number; maxJobs?: number }
+  ): Promise<{ jobs: Job[]; truncated: boolean }> {
+    const maxJobs = options.maxJobs ?? 5000
+    const { items: jobs, truncated } = await collectUpTo(this.iterateJobs({
+      startTime: new Date(start).toISOString(),
+      endTime: new Date(end).toISOString(),
+      // Half-open, so a job at the boundary of adjacent periods is counted once
+      endExclusive: true,
+      releaseName: options.releaseName,
+      folderId: options.folderId,
+      maxItems: maxJobs + 1,
+    }), maxJobs)
+    return { jobs, truncated }
+  }
+
   /**
    * Analyze execution performance for a specific process/release.
-   * Computes success rate, average/min/max durations from recent jobs.
+   * Computes success rate and duration statistics (average, percentiles,
+   * standard deviation) over successful runs, flags Running jobs that have
+   * exceeded the historical p95 and breaks durations down per host machine.
    * @param processName - Release name to analyze.
    * @param options.folderId - Folder scope.
    * @param options.top - Number of recent executions to consider (default 100).
+   * @param options.now - Reference time for running-job elapsed times (default now).
    * @returns Performance metrics and the 10 most recent job records.
    */
   async getProcessPerformance(
@@ -1249,14 +3863,24 @@ export class UiPathClient {
     options: {
       folderId?: number
       top?: number
+      now?: Date
     } = {}
   ): Promise<ProcessPerformance> {
     const effectiveFolderId = this.getFolderId(options.folderId)
-    const { jobs } = await this.getJobs({
-      releaseName: processName,
-      folderId: effectiveFolderId,
-      top: options.top || 100,
-    })
+    const now = (options.now ?? new Date()).getTime()
+    // Running jobs are fetched separately so long-running ones older than the window are still seen
+    const [jobs, runningPage] = await Promise.all([
+      collect(this.iterateJobs({ releaseName: processName, folderId: effectiveFolderId, maxItems: options.top || 100 })),
+      collectUpTo(
+        this.iterateJobs({ releaseName: processName, state: "Running", folderId: effectiveFolderId, maxItems: RUNNING_JOBS_MAX_ITEMS + 1 }),
+        RUNNING_JOBS_MAX_ITEMS
+      ),
+    ])
+    const runningJobs = runningPage.items
+    const warnings: string[] = []
+    if (runningPage.truncated) {
+      warnings.push(`Only the first ${RUNNING_JOBS_MAX_ITEMS} running jobs were read; longRunningJobs may be incomplete`)
+    }
 
     const successful = jobs.filter(j => j.State === "Successful")
     const faulted = jobs.filter(j => j.State === "Faulted")
@@ -1264,13 +3888,74 @@ export class UiPathClient {
     const running = jobs.filter(j => j.State === "Running")
     const pending = jobs.filter(j => j.State === "Pending")
 
-    const durations = successful
-      .map(j => this.computeDuration(j.StartTime, j.EndTime))
+    const durationsOf = (list: Job[]) => list
+      .map(j => computeDuration(j.StartTime, j.EndTime))
       .filter((d): d is number => d !== null)
+    const durations = durationsOf(successful)
+    const average = (values: number[]) =>
+      values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : null
+    const pct = (values: number[], p: number) => {
+      const value = percentile(values, p)
+      return value === null ? null : Math.round(value)
+    }
 
     const completed = successful.length + faulted.length
     const successRate = completed > 0 ? (successful.length / completed) * 100 : null
 
+    let stdDevDurationSeconds: number | null = null
+    if (durations.length > 1) {
+      const mean = durations.reduce((a, b) => a + b, 0) / durations.length
+      const variance = durations.reduce((sum, d) => sum + (d - mean) ** 2, 0) / (durations.length - 1)
+      stdDevDurationSeconds = Math.round(Math.sqrt(variance))
+    }
+
+    const p95 = percentile(durations, 95)
+    const longRunningJobs: LongRunningJob[] = []
+    if (p95 !== null && p95 > 0 && durations.length >= 5) {
+      for (const job of runningJobs) {
+        const started = job.StartTime ? Date.parse(job.StartTime) : NaN
+        if (isNaN(started)) continue
+        const runningSeconds = Math.round((now - started) / 1000)
+        if (runningSeconds > p95) {
+          longRunningJobs.push({
+            Id: job.Id,
+            Key: job.Key,
+            HostMachineName: job.HostMachineName,
+            StartTime: job.StartTime as string,
+            runningSeconds,
+            timesP95: Math.round((runningSeconds / p95) * 10) / 10,
+          })
+        }
+      }
+      longRunningJobs.sort((a, b) => b.timesP95 - a.timesP95)
+    }
+
+    const byMachine = new Map<string, Job[]>()
+    for (const job of jobs) {
+      const name = job.HostMachineName || "(unassigned)"
+      const machineJobs = byMachine.get(name)
+      if (machineJobs) machineJobs.push(job)
+      else byMachine.set(name, [job])
+    }
+    const machines: MachinePerformance[] = [...byMachine.entries()]
+      .map(([hostMachineName, machineJobs]) => {
+        const machineSuccessful = machineJobs.filter(j => j.State === "Successful")
+        const machineFaulted = machineJobs.filter(j => j.State === "Faulted").length
+        const machineDurations = durationsOf(machineSuccessful)
+        const machineCompleted = machineSuccessful.length + machineFaulted
+        return {
+          hostMachineName,
+          executions: machineJobs.length,
+          successful: machineSuccessful.length,
+          faulted: machineFaulted,
+          successRate: machineCompleted > 0 ? (machineSuccessful.length / machineCompleted) * 100 : null,
+          avgDurationSeconds: average(machineDurations),
+          p50DurationSeconds: pct(machineDurations, 50),
+          p90DurationSeconds: pct(machineDurations, 90),
+        }
+      })
+      .sort((a, b) => (b.p50DurationSeconds ?? -1) - (a.p50DurationSeconds ?? -1))
+
     return {
       processName,
       totalExecutions: jobs.length,
@@ -1280,12 +3965,18 @@ export class UiPathClient {
       running: running.length,
       pending: pending.length,
       successRate,
-      avgDurationSeconds: durations.length > 0
-        ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length)
-        : null,
+      avgDurationSeconds: average(durations),
       minDurationSeconds: durations.length > 0 ? Math.min(...durations) : null,
       maxDurationSeconds: durations.length > 0 ? Math.max(...durations) : null,
+      p50DurationSeconds: pct(durations, 50),
+      p90DurationSeconds: pct(durations, 90),
+      p95DurationSeconds: pct(durations, 95),
+      p99DurationSeconds: pct(durations, 99),
+      stdDevDurationSeconds,
+      longRunningJobs,
+      machines,
       recentJobs: jobs.slice(0, 10),
+      warnings,
     }
   }
 
@@ -1334,6 +4025,57 @@ export class UiPathClient {
     }
   }
 
+  /**
+   * Join machines, robot sessions, runtime license records and running jobs
+   * per machine, flagging licensed machines whose sessions have been
+   * disconnected or unresponsive for longer than a threshold.
+   * @param options.folderId - Report only machines with sessions in this folder; without a folder, every machine of the tenant.
+   * @param options.runtimeTypes - Runtime license types to read (default: Unattended).
+   * @param options.staleAfterMinutes - Minutes without a report before a machine is flagged (default 10).
+   * @param options.now - Reference time (default: now).
+   * @returns Per-machine health, flagged machines first, with warnings for unreadable license data.
+   */
+  async getFleetHealth(options: {
+    folderId?: number
+    runtimeTypes?: RobotType[]
+    staleAfterMinutes?: number
+    now?: Date
+  } = {}): Promise<FleetHealthReport> {
+    const effectiveFolderId = this.getFolderId(options.folderId)
+    const warnings: string[] = []
+    const capped = async <T>(iterable: AsyncIterable<T>, kind: string): Promise<T[]> => {
+      const { items, truncated } = await collectUpTo(iterable, FLEET_MAX_ITEMS)
+      if (truncated) warnings.push(`Only the first ${FLEET_MAX_ITEMS} ${kind} were read; the report is incomplete`)
+      return items
+    }
+    const [machines, sessions, runningJobs] = await Promise.all([
+      capped(this.iterateMachines({ maxItems: FLEET_MAX_ITEMS + 1 }), "machines"),
+      capped(this.iterateSessions({ folderId: effectiveFolderId, maxItems: FLEET_MAX_ITEMS + 1 }), "sessions"),
+      capped(this.iterateJobs({ state: "Running", folderId: effectiveFolderId, maxItems: FLEET_MAX_ITEMS + 1 }), "running jobs"),
+    ])
+
+    let licenses: LicenseRuntimeDto[] | null = []
+    for (const runtimeType of options.runtimeTypes ?? ["Unattended"]) {
+      try {
+        licenses.push(...(await this.getLicensesRuntime(runtimeType)).value)
+      } catch (error) {
+        if (!(error instanceof PermissionError)) throw error
+        warnings.push("Runtime license data needs the License.View permission; licensing and slot counts are unknown")
+        licenses = null
+        break
+      }
+    }
+
+    return {
+      ...buildFleetHealth(machines, sessions, licenses, runningJobs, {
+        staleAfterMinutes: options.staleAfterMinutes ?? 10,
+        now: options.now ?? new Date(),
+        folderId: effectiveFolderId,
+      }),
+      warnings,
+    }
+  }
+
   // ============ Licensing & Stats Operations ============
 
   /**
@@ -1379,10 +4121,10 @@ export class UiPathClient {
    * @returns OData response with runtime license records.
    */
   async getLicensesRuntime(robotType: RobotType): Promise<ODataResponse<LicenseRuntimeDto>> {
-    const encodedRobotType = encodeURIComponent(robotType)
+    const encodedRobotType = encodeURIComponent(formatLiteral(robotType))
     return this.request<ODataResponse<LicenseRuntimeDto>>(
       "GET",
-      `/odata/LicensesRuntime/UiPath.Server.Configuration.OData.GetLicensesRuntime(robotType='${encodedRobotType}')`
+      `/odata/LicensesRuntime/UiPath.Server.Configuration.OData.GetLicensesRuntime(robotType=${encodedRobotType})`
     )
   }
 
@@ -1393,10 +4135,10 @@ export class UiPathClient {
    * @returns OData response with named-user license records.
    */
   async getLicensesNamedUser(robotType: RobotType): Promise<ODataResponse<LicenseNamedUserDto>> {
-    const encodedRobotType = encodeURIComponent(robotType)
+    const encodedRobotType = encodeURIComponent(formatLiteral(robotType))
     return this.request<ODataResponse<LicenseNamedUserDto>>(
       "GET",
-      `/odata/LicensesNamedUser/UiPath.Server.Configuration.OData.GetLicensesNamedUser(robotType='${encodedRobotType}')`
+      `/odata/LicensesNamedUser/UiPath.Server.Configuration.OData.GetLicensesNamedUser(robotType=${encodedRobotType})`
     )
   }
 
@@ -1416,12 +4158,81 @@ export class UiPathClient {
     return this.request<CountStats[]>("GET", "/api/Stats/GetSessionsStats")
   }
 
-  private computeDuration(startTime: string | null, endTime: string | null): number | null {
-    if (!startTime || !endTime) return null
-    const start = new Date(startTime).getTime()
-    const end = new Date(endTime).getTime()
-    if (isNaN(start) || isNaN(end)) return null
-    return Math.round((end - start) / 1000)
+  // ============ Generic OData Query ============
+
+  /**
+   * Run a read-only OData query against an allowlisted entity set.
+   * Field lists and $orderby are checked against identifier syntax and the
+   * $filter expression is checked structurally before the GET is issued.
+   * @param entitySet - Entity set name from ODATA_QUERY_ENTITY_SETS.
+   * @param options.filter - Raw OData $filter expression.
+   * @param options.select - Comma-separated fields for $select.
+   * @param options.expand - Comma-separated navigation properties for $expand.
+   * @param options.orderBy - $orderby expression (e.g. "CreationTime desc").
+   * @param options.top - Max items (default 50, at most 1000).
+   * @param options.skip - Pagination offset.
+   * @param options.count - Request @odata.count.
+   * @param options.folderId - Folder scope.
+   * @returns Matching records and total count (null when not requested or unsupported).
+   * @throws {ValidationError} If the entity set is not allowlisted or the query is malformed.
+   */
+  async queryEntitySet(
+    entitySet: string,
+    options: {
+      filter?: string
+      select?: string
+      expand?: string
+      orderBy?: string
+      top?: number
+      skip?: number
+      count?: boolean
+      folderId?: number
+    } = {}
+  ): Promise<{ items: Record<string, unknown>[]; count: number | null }> {
+    if (!(ODATA_QUERY_ENTITY_SETS as readonly string[]).includes(entitySet)) {
+      throw new ValidationError(
+        `Entity set not allowed: ${entitySet}. Allowed: ${ODATA_QUERY_ENTITY_SETS.join(", ")}`
+      )
+    }
+    const top = options.top ?? 50
+    if (!Number.isInteger(top) || top < 1 || top > MAX_ODATA_QUERY_TOP) {
+      throw new ValidationError(`$top must be an integer between 1 and ${MAX_ODATA_QUERY_TOP}`)
+    }
+    if (options.skip !== undefined && (!Number.isInteger(options.skip) || options.skip < 0)) {
+      throw new ValidationError("$skip must be a non-negative integer")
+    }
+
+    const params = buildQuery({
+      filter: options.filter ? parseFilter(options.filter) : undefined,
+      select: options.select ? parseFieldList(options.select) : undefined,
+      expand: options.expand ? parseFieldList(options.expand) : undefined,
+      orderBy: options.orderBy ? parseOrderBy(options.orderBy) : undefined,
+      top,
+      skip: options.skip,
+      count: options.count,
+    })
+
+    const data = await this.request<ODataResponse<Record<string, unknown>>>(
+      "GET",
+      `/odata/${entitySet}`,
+      params,
+      undefined,
+      this.getFolderId(options.folderId)
+    )
+    return { items: data.value, count: data["@odata.count"] ?? null }
+  }
+
+  /** Compare dotted package versions numerically segment by segment ("1.10.0" > "1.9.2"). */
+  private compareVersions(a: string, b: string): number {
+    const pa = a.split(/[.-]/)
+    const pb = b.split(/[.-]/)
+    for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+      const x = pa[i] ?? "0"
+      const y = pb[i] ?? "0"
+      const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y)
+      if (diff !== 0) return Math.sign(diff)
+    }
+    return 0
   }
 }
 
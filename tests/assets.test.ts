@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { MASKED, assetValueFields, compareAssetSets, diffAssets, maskAsset } from '../src/assets.js'
+import type { Asset } from '../src/types.js'
+
+const asset = (fields: Partial<Asset>): Asset => ({
+  Id: 1,
+  Name: 'Settings',
+  ValueType: 'Text',
+  StringValue: null,
+  BoolValue: null,
+  IntValue: null,
+  Value: null,
+  ValueScope: 'Global',
+  HasDefaultValue: true,
+  Description: null,
+  CanBeDeleted: true,
+  FolderId: 1,
+  ...fields,
+})
+
+describe('Asset masking', () => {
+  it('should mask every value of sensitive assets, including per-robot values', () => {
+    const masked = maskAsset(asset({
+      Sensitive: true,
+      StringValue: 'token',
+      Value: 'token',
+      ValueScope: 'PerRobot',
+      RobotValues: [{ RobotId: 3, RobotName: 'Bot1', ValueType: 'Text', StringValue: 'robot-token' }],
+    }))
+    expect(masked).toMatchObject({ StringValue: MASKED, Value: MASKED, IntValue: null })
+    expect(masked.RobotValues?.[0].StringValue).toBe(MASKED)
+  })
+
+  it('should keep credential usernames but never passwords', () => {
+    const masked = maskAsset(asset({ ValueType: 'Credential', CredentialUsername: 'svc', CredentialPassword: 'secret' }))
+    expect(masked).toMatchObject({ CredentialUsername: 'svc', CredentialPassword: MASKED })
+  })
+})
+
+describe('Asset values', () => {
+  it('should coerce values to the asset type', () => {
+    expect(assetValueFields('Integer', { value: '42' }).fields).toEqual({ IntValue: 42 })
+    expect(assetValueFields('Boolean', { value: 'false' }).fields).toEqual({ BoolValue: false })
+    expect(assetValueFields('KeyValueList', { value: { region: 'eu' } }).fields)
+      .toEqual({ KeyValueList: [{ Key: 'region', Value: 'eu' }] })
+  })
+
+  it('should report values that do not match the type', () => {
+    expect(assetValueFields('Integer', { value: 4.5 }).errors).toEqual([{ field: 'value', message: 'must be an integer' }])
+    expect(assetValueFields('Credential', { username: 'svc' }).errors.map(e => e.field)).toEqual(['value.password'])
+    expect(assetValueFields('Text', {}, 'value', false)).toEqual({ fields: {}, errors: [] })
+  })
+
+  it('should diff non-secret fields and per-robot values by robot name', () => {
+    const before = asset({ ValueScope: 'PerRobot', RobotValues: [{ RobotId: 3, RobotName: 'Bot1', ValueType: 'Text', StringValue: 'a' }] })
+    const after = asset({ ValueScope: 'PerRobot', RobotValues: [{ RobotId: 3, RobotName: 'Bot1', ValueType: 'Text', StringValue: 'b' }] })
+    expect(diffAssets(before, after)).toEqual([{ field: 'RobotValues[Bot1].StringValue', before: 'a', after: 'b' }])
+    expect(diffAssets({ ...before, Sensitive: true }, { ...after, Sensitive: true })).toEqual([])
+  })
+})
+
+describe('Asset comparison', () => {
+  it('should report missing assets, type mismatches and differing values', () => {
+    const uat = [
+      asset({ Name: 'ApiUrl', StringValue: 'https://uat.erp.local', Value: 'https://uat.erp.local' }),
+      asset({ Name: 'BatchSize', ValueType: 'Integer', IntValue: 50 }),
+      asset({ Name: 'Retries', ValueType: 'Integer', IntValue: 3 }),
+      asset({ Name: 'ErpLogin', ValueType: 'Credential', CredentialUsername: 'svc-uat' }),
+      asset({ Name: 'NewFeature', ValueType: 'Boolean', BoolValue: true }),
+    ]
+    const production = [
+      asset({ Name: 'apiurl', StringValue: 'https://erp.local', Value: 'https://erp.local', Description: 'Live' }),
+      asset({ Name: 'BatchSize', ValueType: 'Integer', IntValue: 50 }),
+      asset({ Name: 'Retries', ValueType: 'Text', StringValue: '3' }),
+      asset({ Name: 'ErpLogin', ValueType: 'Credential', CredentialUsername: 'svc-prod' }),
+      asset({ Name: 'LegacyPath', StringValue: 'C:\\old' }),
+    ]
+
+    expect(compareAssetSets(uat, production)).toEqual({
+      missingInTarget: ['NewFeature'],
+      missingInSource: ['LegacyPath'],
+      typeMismatches: [{ name: 'Retries', sourceType: 'Integer', targetType: 'Text' }],
+      valueDifferences: [
+        { name: 'ApiUrl', valueType: 'Text', field: 'StringValue', source: 'https://uat.erp.local', target: 'https://erp.local' },
+        { name: 'ErpLogin', valueType: 'Credential', field: 'CredentialUsername', source: 'svc-uat', target: 'svc-prod' },
+      ],
+      valuesNotCompared: ['ErpLogin'],
+      matchingCount: 1,
+    })
+  })
+
+  it('should not compare the values of sensitive assets', () => {
+    const result = compareAssetSets(
+      [asset({ Name: 'Token', Sensitive: true, StringValue: 'a' })],
+      [asset({ Name: 'Token', Sensitive: true, StringValue: 'b' })]
+    )
+    expect(result.valueDifferences).toEqual([])
+    expect(result.valuesNotCompared).toEqual(['Token'])
+  })
+  it('should compare per-robot values by robot name', () => {
+    const perRobot = (RobotValues: unknown) => asset({ Name: 'Threshold', ValueType: 'Integer', ValueScope: 'PerRobot', RobotValues })
+    const result = compareAssetSets(
+      [perRobot([{ RobotId: 1, RobotName: 'Bot1', ValueType: 'Integer', IntValue: 5 }, { RobotId: 2, RobotName: 'Bot2', ValueType: 'Integer', IntValue: 7 }])],
+      [perRobot([{ RobotId: 91, RobotName: 'bot1', ValueType: 'Integer', IntValue: 5 }, { RobotId: 92, RobotName: 'Bot2', ValueType: 'Integer', IntValue: 9 }])]
+    )
+    expect(result.valueDifferences).toEqual([
+      { name: 'Threshold', valueType: 'Integer', field: 'RobotValues[Bot2].IntValue', source: 7, target: 9 },
+    ])
+    expect(result.matchingCount).toBe(0)
+
+    const unknown = compareAssetSets([perRobot(null)], [perRobot([])])
+    expect(unknown).toMatchObject({ valueDifferences: [], valuesNotCompared: ['Threshold'], matchingCount: 0 })
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  AuthError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+  errorFromResponse,
+  isInvalidODataQuery,
+  parseErrorBody,
+} from '../src/errors.js'
+import { createClient, stubFetch } from './helpers.js'
+
+describe('Error body parsing', () => {
+  it('should read Orchestrator error bodies', () => {
+    const body = JSON.stringify({ message: 'Queue does not exist.', errorCode: 1002, traceId: 'trace-1' })
+    expect(parseErrorBody(body)).toEqual({ message: 'Queue does not exist.', errorCode: 1002, traceId: 'trace-1' })
+  })
+
+  it('should read OData error envelopes', () => {
+    const body = JSON.stringify({ error: { code: 'InvalidQuery', message: 'Invalid OData query options' } })
+    expect(parseErrorBody(body)).toMatchObject({ message: 'Invalid OData query options', errorCode: 'InvalidQuery' })
+  })
+
+  it('should read OAuth error bodies', () => {
+    const body = JSON.stringify({ error: 'invalid_client', error_description: 'Client authentication failed' })
+    expect(parseErrorBody(body)).toMatchObject({ message: 'Client authentication failed', errorCode: 'invalid_client' })
+  })
+
+  it('should fall back to the raw text for non-JSON bodies', () => {
+    expect(parseErrorBody('Bad Gateway')).toEqual({ message: 'Bad Gateway' })
+    expect(parseErrorBody('')).toEqual({ message: undefined })
+  })
+})
+
+describe('Error mapping', () => {
+  it('should map statuses to error classes', () => {
+    expect(errorFromResponse(401, '')).toBeInstanceOf(AuthError)
+    expect(errorFromResponse(403, '')).toBeInstanceOf(PermissionError)
+    expect(errorFromResponse(404, '')).toBeInstanceOf(NotFoundError)
+    expect(errorFromResponse(409, '')).toBeInstanceOf(ValidationError)
+    expect(errorFromResponse(429, '')).toBeInstanceOf(RateLimitError)
+    expect(errorFromResponse(503, '')).toBeInstanceOf(ServerError)
+  })
+
+  it('should keep status, errorCode, traceId and a hint', () => {
+    const error = errorFromResponse(404, JSON.stringify({ message: 'Queue does not exist.', errorCode: 1002, traceId: 't-1' }))
+    expect(error.message).toBe('API request failed (404): Queue does not exist.')
+    expect(error).toMatchObject({ code: 'not_found', status: 404, errorCode: 1002, traceId: 't-1' })
+    expect(error.hint).toBeTruthy()
+  })
+
+  it('should take the missing scope from WWW-Authenticate', () => {
+    const headers = new Headers({ 'WWW-Authenticate': 'Bearer error="insufficient_scope", scope="OR.Jobs.Write"' })
+    const error = errorFromResponse(403, '', { headers, endpoint: '/odata/Jobs' }) as PermissionError
+    expect(error.missingScope).toBe('OR.Jobs.Write')
+    expect(error.hint).toContain('OR.Jobs.Write')
+  })
+
+  it('should infer the missing scope from the endpoint', () => {
+    const error = errorFromResponse(403, '', { endpoint: '/odata/QueueItems?$top=10' }) as PermissionError
+    expect(error.missingScope).toBe('OR.Queues')
+  })
+
+  it('should carry Retry-After on rate limit errors', () => {
+    const error = errorFromResponse(429, '', { retryAfterMs: 5000 }) as RateLimitError
+    expect(error.retryAfterMs).toBe(5000)
+    expect(error.hint).toContain('5s')
+  })
+
+  it('should recognize invalid OData query rejections', () => {
+    expect(isInvalidODataQuery(errorFromResponse(400, JSON.stringify({ message: 'Invalid OData query options' })))).toBe(true)
+    expect(isInvalidODataQuery(errorFromResponse(500, 'Invalid OData query options'))).toBe(false)
+    expect(isInvalidODataQuery(new Error('Invalid OData query options'))).toBe(false)
+  })
+})
+
+describe('Client errors', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should throw AuthError when the token request is rejected', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () =>
+      new Response(JSON.stringify({ error: 'invalid_client' }), { status: 400 })
+    ))
+
+    const error = await createClient({ retry: { maxAttempts: 1 } }).getFolders().catch(e => e)
+    expect(error).toBeInstanceOf(AuthError)
+    expect(error.message).toContain('invalid_client')
+  })
+
+  it('should throw PermissionError with the scope of the failing endpoint', async () => {
+    stubFetch(() => ({ status: 403, body: { message: 'You are not authorized!', errorCode: 0, traceId: 'trace-9' } }))
+
+    const error = await createClient({ retry: { maxAttempts: 1 } }).getQueueDefinitions().catch(e => e)
+    expect(error).toBeInstanceOf(PermissionError)
+    expect(error).toMatchObject({ status: 403, traceId: 'trace-9', missingScope: 'OR.Queues' })
+  })
+})
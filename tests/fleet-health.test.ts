@@ -0,0 +1,153 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { buildFleetHealth } from '../src/fleet-health.js'
+import type { Job, LicenseRuntimeDto, Machine, Session } from '../src/types.js'
+import { createClient, stubFetch } from './helpers.js'
+
+const now = new Date('2025-01-01T12:00:00Z')
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60_000).toISOString()
+
+const machine = (Id: number, Name: string): Machine => ({
+  Id, Name, Type: 'Template', IsOnline: null, Description: null, Key: null, LicenseKey: null, Version: null,
+})
+
+const session = (MachineId: number, HostMachineName: string, State: string, reportedMinutesAgo: number, IsUnresponsive = false): Session => ({
+  Id: MachineId * 100 + HostMachineName.length,
+  MachineId,
+  MachineName: null,
+  HostMachineName,
+  RobotId: null,
+  RobotName: null,
+  State,
+  IsUnresponsive,
+  ReportingTime: minutesAgo(reportedMinutesAgo),
+  ServiceUserName: null,
+  RuntimeType: 'Unattended',
+  FolderId: 1,
+})
+
+const license = (MachineId: number, MachineName: string, Runtimes: number, ExecutingCount: number, IsLicensed = true): LicenseRuntimeDto => ({
+  Key: `license-${MachineId}`,
+  MachineId,
+  MachineName,
+  HostMachineName: '',
+  ServiceUserName: 'svc',
+  MachineType: 'Template',
+  Runtimes,
+  RobotsCount: 1,
+  ExecutingCount,
+  IsOnline: false,
+  IsLicensed,
+  Enabled: true,
+  MachineScope: 'Default',
+})
+
+const runningJob = (Id: number, HostMachineName: string): Job => ({
+  Id,
+  Key: `key-${Id}`,
+  State: 'Running',
+  Source: 'Manual',
+  SourceType: 'Manual',
+  BatchExecutionKey: null,
+  Info: null,
+  JobError: null,
+  CreationTime: minutesAgo(5),
+  StartTime: minutesAgo(5),
+  EndTime: null,
+  ReleaseName: 'Invoices',
+  ReleaseVersionId: 1,
+  HostMachineName,
+  InputArguments: null,
+  OutputArguments: null,
+})
+
+describe('Fleet health', () => {
+  const machines = [machine(1, 'Finance'), machine(2, 'HR'), machine(3, 'Spare'), machine(4, 'Unlicensed')]
+  const sessions = [
+    session(1, 'VM-FIN-1', 'Busy', 1),
+    session(1, 'VM-FIN-2', 'Available', 25, true),
+    session(2, 'VM-HR-1', 'Disconnected', 90),
+    session(4, 'VM-OLD', 'Disconnected', 600),
+  ]
+  const licenses = [license(1, 'Finance', 2, 1), license(2, 'HR', 1, 0), license(3, 'Spare', 1, 0), license(4, 'Unlicensed', 0, 0, false)]
+
+  it('should join sessions, licenses and running jobs per machine', () => {
+    const report = buildFleetHealth(machines, sessions, licenses, [runningJob(50, 'vm-fin-1')], { staleAfterMinutes: 10, now })
+    const finance = report.machines.find(m => m.machineName === 'Finance')
+
+    expect(finance).toMatchObject({
+      online: true,
+      hosts: ['VM-FIN-1', 'VM-FIN-2'],
+      sessionCount: 2,
+      unresponsiveSessionCount: 1,
+      lastReportingTime: minutesAgo(1),
+      minutesSinceLastReport: 1,
+      runtimeSlots: 2,
+      executingCount: 1,
+      licensed: true,
+      runningJobs: [{ jobId: 50, processName: 'Invoices', hostMachineName: 'vm-fin-1' }],
+      flags: ['VM-FIN-2 unresponsive for 25 min'],
+    })
+    expect(report.summary).toEqual({ machines: 4, online: 1, flagged: 3, runtimeSlots: 4, executing: 1 })
+  })
+
+  it('should flag licensed machines that are disconnected past the threshold, flagged first', () => {
+    const report = buildFleetHealth(machines, sessions, licenses, [], { staleAfterMinutes: 10, now })
+
+    expect(report.machines.map(m => [m.machineName, m.flags])).toEqual([
+      ['Finance', ['VM-FIN-2 unresponsive for 25 min']],
+      ['HR', ['Licensed but disconnected for 90 min']],
+      ['Spare', ['Licensed but no robot session has ever reported']],
+      ['Unlicensed', []],
+    ])
+    expect(buildFleetHealth(machines, sessions, licenses, [], { staleAfterMinutes: 120, now }).summary.flagged).toBe(1)
+  })
+
+  it('should leave licensing unknown without license data', () => {
+    const report = buildFleetHealth(machines, sessions, null, [runningJob(50, 'VM-FIN-1')], { staleAfterMinutes: 10, now })
+    const unlicensed = report.machines.find(m => m.machineName === 'Unlicensed')
+
+    expect(unlicensed).toMatchObject({ licensed: null, runtimeSlots: null, flags: ['Licensing unknown; disconnected for 600 min'] })
+    expect(report.machines.find(m => m.machineName === 'Finance')?.executingCount).toBe(1)
+  })
+
+  it('should report only machines with a session in the folder when scoped to one', () => {
+    const report = buildFleetHealth(machines, sessions, licenses, [], { staleAfterMinutes: 10, now, folderId: 1 })
+
+    expect(report.folderId).toBe(1)
+    expect(report.machines.map(m => m.machineName)).toEqual(['Finance', 'HR', 'Unlicensed'])
+  })
+})
+
+describe('UiPathClient.getFleetHealth', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should report missing license permissions as a warning', async () => {
+    stubFetch(({ path }) => {
+      if (path.includes('GetLicensesRuntime')) return { status: 403, body: { message: 'You are not authorized!' } }
+      if (path === '/odata/Machines') return { body: { value: [machine(1, 'Finance')] } }
+      if (path === '/odata/Sessions') return { body: { value: [session(1, 'VM-FIN-1', 'Available', 1)] } }
+      return { body: { value: [] } }
+    })
+
+    const report = await createClient().getFleetHealth({ folderId: 1, now })
+
+    expect(report.warnings).toEqual([expect.stringContaining('License.View')])
+    expect(report.machines).toEqual([expect.objectContaining({ machineName: 'Finance', online: true, licensed: null, flags: [] })])
+  })
+
+  it('should read every page of machines and warn when a cap is hit', async () => {
+    const machines = Array.from({ length: 5001 }, (_, i) => machine(i + 1, `VM-${String(i + 1).padStart(4, '0')}`))
+    stubFetch(({ path, query }) => {
+      if (path !== '/odata/Machines') return { body: { value: [] } }
+      const skip = Number(query.get('$skip') ?? 0)
+      return { body: { value: machines.slice(skip, skip + Number(query.get('$top'))) } }
+    })
+
+    const report = await createClient().getFleetHealth({ now })
+
+    expect(report.summary.machines).toBe(5000)
+    expect(report.warnings).toEqual(['Only the first 5000 machines were read; the report is incomplete'])
+  })
+})
@@ -0,0 +1,69 @@
+import { vi } from 'vitest'
+import { UiPathClient } from '../src/uipath-client.js'
+import type { UiPathConfig } from '../src/types.js'
+
+/**
+ * Shared fixtures for unit tests that run the client against a stubbed
+ * Orchestrator instead of a live tenant.
+ */
+
+export const tokenResponse = { access_token: 'token', expires_in: 3600, token_type: 'Bearer', scope: '' }
+
+/** A client with placeholder credentials; `overrides` replace any config field. */
+export const createClient = (overrides: Partial<UiPathConfig> = {}) => new UiPathClient({
+  baseUrl: 'https://cloud.uipath.com/org/tenant',
+  clientId: 'test',
+  clientSecret: 'test',
+  tenantName: 'tenant',
+  ...overrides,
+})
+
+export interface StubRequest {
+  method: string
+  /** Decoded path below the Orchestrator root, e.g. `/odata/Jobs(7)`. */
+  path: string
+  query: URLSearchParams
+  body: unknown
+  /** The X-UIPATH-OrganizationUnitId header, if sent. */
+  folderId: string | null
+  url: URL
+}
+
+export interface StubResponse {
+  /** Defaults to 200, or 204 without a body. */
+  status?: number
+  body?: unknown
+}
+
+export type RecordedCall = Pick<StubRequest, 'method' | 'path' | 'body' | 'folderId'>
+
+/** API calls made since the last stubFetch, in order; token requests are left out. */
+export let calls: RecordedCall[] = []
+
+/**
+ * Replace the global fetch with a stub Orchestrator: token requests succeed and
+ * every other request is recorded in `calls` and answered by `respond`.
+ */
+export function stubFetch(respond: (request: StubRequest) => StubResponse): void {
+  calls = []
+  vi.stubGlobal('fetch', vi.fn(async (input: string, init: RequestInit = {}) => {
+    const url = new URL(input)
+    if (url.pathname.endsWith('/connect/token')) {
+      return new Response(JSON.stringify(tokenResponse))
+    }
+    const method = init.method ?? 'GET'
+    const path = decodeURIComponent(url.pathname.replace('/org/tenant/orchestrator_', ''))
+    const body = init.body ? JSON.parse(String(init.body)) : undefined
+    const folderId = (init.headers as Record<string, string> | undefined)?.['X-UIPATH-OrganizationUnitId'] ?? null
+    calls.push({ method, path, body, folderId })
+    const result = respond({ method, path, query: url.searchParams, body, folderId, url })
+    return new Response(result.body === undefined ? null : JSON.stringify(result.body), {
+      status: result.status ?? (result.body === undefined ? 204 : 200),
+    })
+  }))
+}
+
+/** Full URLs of the API calls made through the stub, for assertions on query strings. */
+export const requestedUrls = () => vi.mocked(fetch).mock.calls
+  .map(([input]) => String(input))
+  .filter(input => !new URL(input).pathname.endsWith('/connect/token'))
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { clusterFaultedJobs, normalizeErrorMessage } from '../src/job-faults.js'
+import type { Job } from '../src/types.js'
+
+const job = (Id: number, ReleaseName: string, HostMachineName: string, Info: string, EndTime: string): Job => ({
+  Id,
+  Key: `key-${Id}`,
+  State: 'Faulted',
+  Source: 'Manual',
+  SourceType: 'Manual',
+  BatchExecutionKey: null,
+  Info,
+  JobError: null,
+  CreationTime: EndTime,
+  StartTime: EndTime,
+  EndTime,
+  ReleaseName,
+  ReleaseVersionId: 1,
+  HostMachineName,
+  InputArguments: null,
+  OutputArguments: null,
+})
+
+describe('Error message normalization', () => {
+  it('should strip ids, timestamps, paths and numbers', () => {
+    expect(normalizeErrorMessage('Could not find file C:\\Input\\2025\\invoice_1044.xlsx'))
+      .toBe('Could not find file <path>')
+    expect(normalizeErrorMessage('Job 3f2504e0-4f89-11d3-9a0c-0305e82c3301 timed out at 2025-01-02T10:11:12Z after 30 seconds'))
+      .toBe('Job <id> timed out at <time> after # seconds')
+    expect(normalizeErrorMessage('Request to https://erp.example.com/api/orders/77 failed\n   at Main.Run()'))
+      .toBe('Request to <url> failed')
+  })
+})
+
+describe('Faulted job clustering', () => {
+  const timeout = (id: number) =>
+    `UiPath.Core.Activities.SelectorNotFoundException: Could not find the UI element after ${id * 1000} ms`
+  const jobs = [
+    job(1, 'Invoices', 'VM-1', timeout(1), '2025-01-01T10:00:00Z'),
+    job(2, 'Invoices', 'VM-1', timeout(2), '2025-01-01T12:00:00Z'),
+    job(3, 'Payroll', 'VM-1', timeout(3), '2025-01-01T11:00:00Z'),
+    job(4, 'Invoices', 'VM-2', 'System.IO.FileNotFoundException: Could not find file C:\\in\\a.xlsx', '2025-01-01T09:00:00Z'),
+  ]
+
+  it('should group jobs with the same error signature, largest first', () => {
+    const clusters = clusterFaultedJobs(jobs)
+    expect(clusters).toHaveLength(2)
+    expect(clusters[0]).toMatchObject({
+      signature: 'UiPath.Core.Activities.SelectorNotFoundException: Could not find the UI element after # ms',
+      count: 3,
+      percentage: 75,
+      processes: [{ name: 'Invoices', count: 2 }, { name: 'Payroll', count: 1 }],
+      machines: [{ name: 'VM-1', count: 3 }],
+      firstSeen: '2025-01-01T10:00:00Z',
+      lastSeen: '2025-01-01T12:00:00Z',
+    })
+    expect(clusters[0].example.jobId).toBe(2)
+    expect(clusters[1].exceptionType).toBe('System.IO.FileNotFoundException')
+  })
+
+  it('should put jobs without an error message in their own cluster', () => {
+    const clusters = clusterFaultedJobs([job(5, 'Invoices', 'VM-1', '', '2025-01-01T10:00:00Z')])
+    expect(clusters[0].signature).toBe('(no error message)')
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { collapseLogLines, findFirstError, parseJobError } from '../src/job-logs.js'
+import type { RobotLog } from '../src/types.js'
+import { createClient, requestedUrls, stubFetch } from './helpers.js'
+
+const log = (Id: number, Level: string, Message: string): RobotLog => ({
+  Id,
+  TimeStamp: `2025-01-01T10:00:${String(Id).padStart(2, '0')}Z`,
+  Level,
+  Message,
+  ProcessName: 'Invoices',
+  JobKey: 'job-key',
+  RobotName: 'Bot1',
+  MachineName: 'VM-1',
+})
+
+const logs = [
+  log(1, 'Info', 'Invoices execution started'),
+  log(2, 'Info', 'Processing invoice 1001'),
+  log(3, 'Info', 'Processing invoice 1002'),
+  log(4, 'Info', 'Processing invoice 1003'),
+  log(5, 'Error', 'Click Submit: Could not find the user-interface (UI) element for this action.'),
+  log(6, 'Info', 'Invoices execution ended'),
+]
+
+describe('Job log condensing', () => {
+  it('should fold consecutive lines that differ only in numbers', () => {
+    const lines = collapseLogLines(logs)
+    expect(lines).toHaveLength(4)
+    expect(lines[1]).toEqual({
+      timeStamp: '2025-01-01T10:00:02Z',
+      level: 'Info',
+      message: 'Processing invoice 1001',
+      repeat: 3,
+      lastTimeStamp: '2025-01-01T10:00:04Z',
+    })
+  })
+
+  it('should find the first Error or Fatal line', () => {
+    expect(findFirstError(logs)?.message).toContain('Could not find the user-interface')
+    expect(findFirstError(logs.slice(0, 4))).toBeNull()
+  })
+
+  it('should split exception type, message and stack from job error text', () => {
+    const error = parseJobError([
+      'UiPath.Core.Activities.SelectorNotFoundException: Could not find the user-interface (UI) element for this action.',
+      '   at UiPath.Core.Activities.ScopeActivity.OnFaulted(NativeActivityFaultContext faultContext)',
+      '   at Invoices.Main.Run()',
+    ].join('\n'))
+    expect(error).toEqual({
+      exceptionType: 'UiPath.Core.Activities.SelectorNotFoundException',
+      message: 'Could not find the user-interface (UI) element for this action.',
+      stack: [
+        'at UiPath.Core.Activities.ScopeActivity.OnFaulted(NativeActivityFaultContext faultContext)',
+        'at Invoices.Main.Run()',
+      ],
+    })
+  })
+
+  it('should read Title/Details job error objects and plain messages', () => {
+    expect(parseJobError(JSON.stringify({ Title: 'Job stopped with an unexpected exit code', Details: '0xE0434352' })))
+      .toEqual({ exceptionType: null, message: 'Job stopped with an unexpected exit code\n0xE0434352', stack: [] })
+    expect(parseJobError('')).toBeNull()
+  })
+})
+
+describe('UiPathClient.getJobLogs', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should look up the job key and fetch its logs oldest first', async () => {
+    stubFetch(({ path }) => ({
+      body: path === '/odata/Jobs(7)'
+        ? {
+            Id: 7,
+            Key: 'job-key',
+            State: 'Faulted',
+            ReleaseName: 'Invoices',
+            JobError: null,
+            Info: 'System.IO.FileNotFoundException: Could not find file C:\\in\\invoices.xlsx',
+          }
+        : { value: logs },
+    }))
+
+    const report = await createClient().getJobLogs(7, { maxLines: 5 })
+
+    const logRequest = new URL(requestedUrls()[1])
+    expect(logRequest.searchParams.get('$filter')).toBe("JobKey eq 'job-key'")
+    expect(logRequest.searchParams.get('$orderby')).toBe('TimeStamp asc')
+    expect(report).toMatchObject({
+      totalLines: 5,
+      truncated: true,
+      levelCounts: { Info: 4, Error: 1 },
+      error: { exceptionType: 'System.IO.FileNotFoundException' },
+    })
+    expect(report.firstError?.level).toBe('Error')
+    expect(report.lines.map(line => line.repeat)).toEqual([1, 3, 1])
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  bucketStart,
+  buildTrendBuckets,
+  comparePeriods,
+  percentile,
+  proportionPValue,
+  rankSumPValue,
+} from '../src/job-trends.js'
+import type { Job, JobState } from '../src/types.js'
+import { createClient, requestedUrls, stubFetch } from './helpers.js'
+
+const job = (Id: number, ReleaseName: string, State: JobState, created: string, durationSeconds = 60): Job => ({
+  Id,
+  Key: `key-${Id}`,
+  State,
+  Source: 'Manual',
+  SourceType: 'Manual',
+  BatchExecutionKey: null,
+  Info: null,
+  JobError: null,
+  CreationTime: created,
+  StartTime: created,
+  EndTime: new Date(Date.parse(created) + durationSeconds * 1000).toISOString(),
+  ReleaseName,
+  ReleaseVersionId: 1,
+  HostMachineName: 'VM-1',
+  InputArguments: null,
+  OutputArguments: null,
+})
+
+describe('Trend buckets', () => {
+  it('should align buckets to UTC hours, days and Monday weeks', () => {
+    const time = Date.parse('2025-01-08T15:42:10Z') // a Wednesday
+    expect(new Date(bucketStart(time, 'hour')).toISOString()).toBe('2025-01-08T15:00:00.000Z')
+    expect(new Date(bucketStart(time, 'day')).toISOString()).toBe('2025-01-08T00:00:00.000Z')
+    expect(new Date(bucketStart(time, 'week')).toISOString()).toBe('2025-01-06T00:00:00.000Z')
+  })
+
+  it('should interpolate percentiles', () => {
+    expect(percentile([10, 20, 30, 40], 50)).toBe(25)
+    expect(percentile([5], 99)).toBe(5)
+    expect(percentile([], 50)).toBeNull()
+  })
+
+  it('should count states and durations per bucket, including empty buckets', () => {
+    const buckets = buildTrendBuckets([
+      job(1, 'Invoices', 'Successful', '2025-01-01T10:00:00Z', 60),
+      job(2, 'Invoices', 'Faulted', '2025-01-01T11:00:00Z'),
+      job(3, 'Payroll', 'Successful', '2025-01-01T12:00:00Z', 120),
+      job(4, 'Invoices', 'Successful', '2025-01-03T09:00:00Z', 30),
+    ], Date.parse('2025-01-01T00:00:00Z'), Date.parse('2025-01-03T23:00:00Z'), 'day')
+
+    expect(buckets.map(b => b.total)).toEqual([3, 0, 1])
+    expect(buckets[0]).toMatchObject({
+      start: '2025-01-01T00:00:00.000Z',
+      end: '2025-01-02T00:00:00.000Z',
+      states: { Successful: 2, Faulted: 1 },
+      successRate: 66.7,
+      p50DurationSeconds: 90,
+    })
+    expect(buckets[0].processes[0]).toMatchObject({ processName: 'Invoices', total: 2, successRate: 50 })
+    expect(buckets[1].successRate).toBeNull()
+  })
+})
+
+describe('Period comparison', () => {
+  it('should test proportions and rank sums', () => {
+    expect(proportionPValue(50, 100, 90, 100)).toBeLessThan(0.001)
+    expect(proportionPValue(9, 10, 9, 10)).toBeCloseTo(1)
+    expect(proportionPValue(2, 3, 9, 10)).toBeNull()
+    expect(rankSumPValue([1, 2, 3, 4, 5], [6, 7, 8, 9, 10])).toBeLessThan(0.05)
+    expect(rankSumPValue([1, 2], [3, 4])).toBeNull()
+  })
+
+  it('should flag significant drops in success rate and slower runs', () => {
+    const previous = Array.from({ length: 40 }, (_, i) =>
+      job(i, 'Invoices', i < 38 ? 'Successful' : 'Faulted', '2025-01-01T10:00:00Z', 60 + (i % 5)))
+    const current = Array.from({ length: 40 }, (_, i) =>
+      job(100 + i, 'Invoices', i < 28 ? 'Successful' : 'Faulted', '2025-01-08T10:00:00Z', 90 + (i % 5)))
+
+    const comparison = comparePeriods('Invoices', current, previous)
+    expect(comparison.successRateChange).toBe(-25)
+    expect(comparison.p50DurationChangePercent).toBeGreaterThan(40)
+    expect(comparison.regressions).toHaveLength(2)
+    expect(comparison.regressions[0]).toContain('Success rate fell from 95% to 70%')
+  })
+
+  it('should not flag changes in small samples', () => {
+    const comparison = comparePeriods(
+      'Invoices',
+      [job(1, 'Invoices', 'Faulted', '2025-01-08T10:00:00Z')],
+      [job(2, 'Invoices', 'Successful', '2025-01-01T10:00:00Z')]
+    )
+    expect(comparison.successRateChange).toBe(-100)
+    expect(comparison.regressions).toEqual([])
+  })
+})
+
+describe('UiPathClient.compareJobPeriods', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should exclude the period end when comparing adjacent periods', async () => {
+    stubFetch(() => ({ body: { value: [] } }))
+
+    await createClient().compareJobPeriods({
+      currentStart: '2025-01-08T00:00:00Z',
+      currentEnd: '2025-01-15T00:00:00Z',
+    })
+
+    const filters = requestedUrls().map(url => new URL(url).searchParams.get('$filter'))
+    expect(filters).toContain('(CreationTime ge 2025-01-08T00:00:00.000Z) and (CreationTime lt 2025-01-15T00:00:00.000Z)')
+    expect(filters).toContain('(CreationTime ge 2025-01-01T00:00:00.000Z) and (CreationTime lt 2025-01-08T00:00:00.000Z)')
+  })
+})
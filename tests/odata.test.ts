@@ -0,0 +1,176 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  and,
+  buildQuery,
+  contains,
+  dateTimeOffset,
+  eq,
+  escapeString,
+  ge,
+  gt,
+  isIn,
+  ne,
+  not,
+  or,
+  parseFieldList,
+  parseFilter,
+  parseOrderBy,
+  startswith,
+} from '../src/odata.js'
+import type { Job } from '../src/types.js'
+import { createClient, requestedUrls, stubFetch } from './helpers.js'
+
+/**
+ * Encode query params the same way UiPathClient.request does, then decode
+ * them the way an OData server would.
+ */
+function roundTrip(params: Record<string, string>): Record<string, string> {
+  const query = new URLSearchParams(params).toString().replace(/\+/g, '%20')
+  return Object.fromEntries(new URL(`https://example.com/odata/Jobs?${query}`).searchParams)
+}
+
+describe('OData query builder', () => {
+  describe('Literals', () => {
+    it('should double single quotes in strings', () => {
+      expect(escapeString("O'Brien")).toBe("'O''Brien'")
+    })
+
+    it('should format numbers, booleans and null', () => {
+      expect(eq('Id', 42).expression).toBe('Id eq 42')
+      expect(eq('Enabled', false).expression).toBe('Enabled eq false')
+      expect(ne('Reference', null).expression).toBe('Reference ne null')
+    })
+
+    it('should format DateTimeOffset literals without quotes', () => {
+      expect(ge('CreationTime', dateTimeOffset('2025-01-01T00:00:00Z')).expression)
+        .toBe('CreationTime ge 2025-01-01T00:00:00.000Z')
+      expect(gt('CreationTime', new Date(Date.UTC(2025, 0, 2))).expression)
+        .toBe('CreationTime gt 2025-01-02T00:00:00.000Z')
+    })
+
+    it('should reject invalid dates', () => {
+      expect(() => dateTimeOffset('last tuesday')).toThrow('Invalid DateTimeOffset')
+    })
+
+    it('should reject non-finite numbers', () => {
+      expect(() => eq('Id', NaN)).toThrow()
+    })
+
+    it('should reject field names that are not identifiers', () => {
+      expect(() => eq("Name eq 'x' or 1", 'y')).toThrow('Invalid OData field name')
+      expect(eq('Robot/Name', 'Bot').expression).toBe("Robot/Name eq 'Bot'")
+    })
+  })
+
+  describe('Composition', () => {
+    it('should join clauses with and, skipping undefined entries', () => {
+      expect(and(undefined, undefined)).toBeUndefined()
+      expect(and(eq('State', 'Faulted'), undefined)?.expression).toBe("State eq 'Faulted'")
+      expect(and(eq('State', 'Faulted'), ge('Id', 10))?.expression)
+        .toBe("(State eq 'Faulted') and (Id ge 10)")
+    })
+
+    it('should build or, not and membership filters', () => {
+      expect(or(eq('A', 1), eq('B', 2)).expression).toBe('(A eq 1) or (B eq 2)')
+      expect(not(eq('A', 1)).expression).toBe('not (A eq 1)')
+      expect(isIn('State', ['Running', 'Pending']).expression)
+        .toBe("(State eq 'Running') or (State eq 'Pending')")
+      expect(isIn('State', ['Running']).expression).toBe("State eq 'Running'")
+      expect(() => isIn('State', [])).toThrow()
+    })
+
+    it('should build string functions', () => {
+      expect(contains('Name', "it's").expression).toBe("contains(Name,'it''s')")
+      expect(startswith('Name', 'Inv').expression).toBe("startswith(Name,'Inv')")
+    })
+
+    it('should type-check field names against an entity', () => {
+      expect(eq<Job>('ReleaseName', 'Invoices').expression).toBe("ReleaseName eq 'Invoices'")
+    })
+  })
+
+  describe('buildQuery', () => {
+    it('should emit only the options provided', () => {
+      expect(buildQuery({})).toEqual({})
+      expect(buildQuery({
+        filter: eq('Id', 1),
+        select: ['Id', 'Name'],
+        expand: ['Robot'],
+        orderBy: [['CreationTime', 'desc'], ['Id']],
+        top: 10,
+        skip: 0,
+        count: true,
+      })).toEqual({
+        $filter: 'Id eq 1',
+        $select: 'Id,Name',
+        $expand: 'Robot',
+        $orderby: 'CreationTime desc,Id',
+        $top: '10',
+        $skip: '0',
+        $count: 'true',
+      })
+    })
+
+    it('should pass raw $orderby strings through', () => {
+      expect(buildQuery({ orderBy: 'Name asc' })).toEqual({ $orderby: 'Name asc' })
+    })
+  })
+
+  describe('Parsing caller input', () => {
+    it('should accept well-formed filters', () => {
+      expect(parseFilter("  Name eq 'a (b' and (Id gt 3)  ").expression)
+        .toBe("Name eq 'a (b' and (Id gt 3)")
+      expect(parseFilter("Name eq 'it''s'").expression).toBe("Name eq 'it''s'")
+    })
+
+    it('should reject malformed filters', () => {
+      expect(() => parseFilter('   ')).toThrow('must not be empty')
+      expect(() => parseFilter("Name eq 'abc")).toThrow('unterminated string literal')
+      expect(() => parseFilter('(Id eq 1')).toThrow("unmatched '('")
+      expect(() => parseFilter('Id eq 1)')).toThrow("unmatched ')'")
+      expect(() => parseFilter('Id eq 1\n')).not.toThrow()
+      expect(() => parseFilter('Id eq\u00001')).toThrow('control characters')
+      expect(() => parseFilter('x'.repeat(2001))).toThrow('exceeds')
+    })
+
+    it('should parse field lists and $orderby clauses', () => {
+      expect(parseFieldList('Id, Name ,Robot/Name')).toEqual(['Id', 'Name', 'Robot/Name'])
+      expect(() => parseFieldList('Id,Name;drop')).toThrow('Invalid OData field name')
+      expect(parseOrderBy('CreationTime desc, Id')).toEqual([['CreationTime', 'desc'], ['Id', undefined]])
+      expect(() => parseOrderBy('Id sideways')).toThrow('Invalid OData $orderby clause')
+    })
+  })
+
+  describe('Round-trip encoding', () => {
+    const names = [
+      "O'Brien's Queue",
+      'Invoices & Receipts',
+      'a+b=c?d#e%f',
+      'Rechnungsprüfung 請求書 🚀',
+      "''",
+    ]
+
+    it.each(names)('should round-trip %s', name => {
+      const params = buildQuery({ filter: eq('Name', name), top: 5 })
+      const decoded = roundTrip(params)
+      expect(decoded.$filter).toBe(`Name eq '${name.replace(/'/g, "''")}'`)
+      expect(decoded.$top).toBe('5')
+      expect(Object.keys(decoded)).toEqual(['$filter', '$top'])
+    })
+  })
+
+  describe('Client integration', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should send escaped, singly-encoded filters', async () => {
+      stubFetch(() => ({ body: { value: [] } }))
+
+      await createClient().getQueueDefinitionByName("Bob's Orders & Returns – Ü")
+
+      const filter = new URL(requestedUrls()[0]).searchParams.get('$filter')
+      expect(filter).toBe("Name eq 'Bob''s Orders & Returns – Ü'")
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { SchemaValidationError } from '../src/errors.js'
+import { parseArgumentDefinitions, validateInputArguments } from '../src/process-arguments.js'
+import type { Release } from '../src/types.js'
+import { createClient } from './helpers.js'
+
+const input = JSON.stringify([
+  { name: 'in_InvoiceId', type: 'System.String, System.Private.CoreLib, Version=4.0.0.0', required: true, hasDefault: false },
+  { name: 'in_Amount', type: 'System.Decimal, System.Private.CoreLib', required: false, hasDefault: true },
+  { name: 'in_Retries', type: 'System.Int32, System.Private.CoreLib', required: false, hasDefault: true },
+  { name: 'in_Post', type: 'System.Boolean, System.Private.CoreLib', required: false, hasDefault: false },
+  { name: 'in_Lines', type: 'System.String[], System.Private.CoreLib', required: false, hasDefault: false },
+])
+
+describe('Process argument definitions', () => {
+  it('should parse names, .NET types and required flags', () => {
+    expect(parseArgumentDefinitions(input).slice(0, 2)).toEqual([
+      { name: 'in_InvoiceId', kind: 'string', type: 'System.String', required: true, hasDefault: false },
+      { name: 'in_Amount', kind: 'number', type: 'System.Decimal', required: false, hasDefault: true },
+    ])
+    expect(parseArgumentDefinitions(input)[4].kind).toBe('array')
+  })
+
+  it('should yield no definitions for empty or malformed text', () => {
+    expect(parseArgumentDefinitions(null)).toEqual([])
+    expect(parseArgumentDefinitions('not json')).toEqual([])
+  })
+})
+
+describe('Input argument validation', () => {
+  const definitions = parseArgumentDefinitions(input)
+
+  it('should coerce numeric and boolean strings', () => {
+    const result = validateInputArguments(definitions, { in_InvoiceId: 12, in_Amount: '2500.50', in_Retries: '3', in_Post: 'true' })
+    expect(result.errors).toEqual([])
+    expect(result.arguments).toEqual({ in_InvoiceId: '12', in_Amount: 2500.5, in_Retries: 3, in_Post: true })
+  })
+
+  it('should report unknown names with a suggestion, type errors and missing required arguments', () => {
+    const { errors } = validateInputArguments(definitions, { in_Ammount: 5, in_Retries: 1.5, in_Lines: 'a,b', zzz: 1 })
+    expect(errors).toEqual([
+      { field: 'in_Ammount', message: 'is not an input argument; did you mean in_Amount?' },
+      { field: 'in_Retries', message: 'must be an integer (System.Int32)' },
+      { field: 'in_Lines', message: 'must be an array (System.String[])' },
+      { field: 'zzz', message: 'is not an input argument' },
+      { field: 'in_InvoiceId', message: 'is required (System.String)' },
+    ])
+  })
+})
+
+describe('UiPathClient.prepareInputArguments', () => {
+  const client = createClient()
+  const release = { Key: 'r1', Name: 'InvoiceProcessor', Arguments: { Input: input, Output: null } } as Release
+
+  it('should throw a SchemaValidationError listing the expected arguments', () => {
+    try {
+      client.prepareInputArguments(release, { in_Amount: 'abc' })
+      expect.fail('expected a validation error')
+    } catch (error) {
+      expect(error).toBeInstanceOf(SchemaValidationError)
+      expect((error as SchemaValidationError).fieldErrors.map(e => e.field)).toEqual(['in_Amount', 'in_InvoiceId'])
+      expect((error as SchemaValidationError).hint).toContain('in_InvoiceId (System.String, required)')
+    }
+  })
+
+  it('should pass arguments through when the release declares none', () => {
+    const bare = { ...release, Arguments: null }
+    expect(client.prepareInputArguments(bare, { anything: 1 })).toEqual({ anything: 1 })
+  })
+})
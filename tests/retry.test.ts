@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { createServer } from 'node:http'
+import type { IncomingMessage, ServerResponse, Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { CircuitOpenError } from '../src/errors.js'
+import {
+  CircuitBreaker,
+  computeBackoff,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from '../src/retry.js'
+import type { UiPathConfig } from '../src/types.js'
+import { createClient, tokenResponse } from './helpers.js'
+
+describe('Retry primitives', () => {
+  const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 })
+
+  it('should fill undefined config fields with defaults', () => {
+    expect(resolveRetryPolicy({ maxAttempts: undefined }).maxAttempts).toBe(3)
+    expect(resolveRetryPolicy({ maxAttempts: 0 }).maxAttempts).toBe(1)
+  })
+
+  it('should grow delays exponentially up to maxDelayMs', () => {
+    expect(computeBackoff(1, policy, () => 0)).toBe(100)
+    expect(computeBackoff(3, policy, () => 0)).toBe(400)
+    expect(computeBackoff(10, policy, () => 0)).toBe(1000)
+    expect(computeBackoff(3, policy, () => 1)).toBe(200)
+  })
+
+  it('should parse Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z')
+    expect(parseRetryAfter('7', now)).toBe(7000)
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000)
+    expect(parseRetryAfter('garbage', now)).toBeNull()
+    expect(parseRetryAfter(null, now)).toBeNull()
+  })
+
+  it('should only retry non-idempotent requests on 429', () => {
+    expect(isRetryableStatus(503, true, policy)).toBe(true)
+    expect(isRetryableStatus(503, false, policy)).toBe(false)
+    expect(isRetryableStatus(429, false, policy)).toBe(true)
+    expect(isRetryableStatus(500, true, policy)).toBe(false)
+  })
+
+  it('should open, half-open and close the circuit', () => {
+    let now = 0
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 100 }, () => now)
+    breaker.recordFailure()
+    expect(breaker.state).toBe('closed')
+    breaker.recordFailure()
+    expect(breaker.state).toBe('open')
+    expect(() => breaker.assertCanRequest()).toThrow(CircuitOpenError)
+
+    now = 100
+    expect(breaker.state).toBe('half-open')
+    breaker.assertCanRequest()
+    expect(() => breaker.assertCanRequest()).toThrow(CircuitOpenError)
+    breaker.recordFailure()
+    expect(breaker.state).toBe('open')
+
+    now = 200
+    breaker.assertCanRequest()
+    breaker.recordSuccess()
+    expect(breaker.state).toBe('closed')
+  })
+})
+
+describe('UiPathClient retries against a mock Orchestrator', () => {
+  type Handler = (req: IncomingMessage, res: ServerResponse) => void
+  let server: Server
+  let baseUrl: string
+  let handler: Handler
+  let apiCalls: { method: string; url: string }[]
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url?.includes('/identity_/connect/token')) {
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify(tokenResponse))
+        return
+      }
+      apiCalls.push({ method: req.method || '', url: req.url || '' })
+      handler(req, res)
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/org/tenant`
+  })
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()))
+  })
+
+  beforeEach(() => {
+    apiCalls = []
+  })
+
+  const retryingClient = (overrides: Partial<UiPathConfig> = {}) => createClient({
+    baseUrl,
+    retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 2000, jitter: 0 },
+    ...overrides,
+  })
+
+  const respond = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+    res.end(JSON.stringify(body))
+  }
+
+  it('should retry GETs on 503 until success', async () => {
+    handler = (_req, res) => apiCalls.length < 3
+      ? respond(res, 503, { message: 'unavailable' })
+      : respond(res, 200, { value: [{ Id: 1 }] })
+
+    const queues = await retryingClient().getQueueDefinitions()
+    expect(queues).toEqual([{ Id: 1 }])
+    expect(apiCalls).toHaveLength(3)
+  })
+
+  it('should give up after maxAttempts', async () => {
+    handler = (_req, res) => respond(res, 502, { message: 'bad gateway' })
+
+    await expect(retryingClient().getQueueDefinitions()).rejects.toThrow('502')
+    expect(apiCalls).toHaveLength(3)
+  })
+
+  it('should honor Retry-After on 429', async () => {
+    handler = (_req, res) => apiCalls.length === 1
+      ? respond(res, 429, { message: 'slow down' }, { 'Retry-After': '1' })
+      : respond(res, 200, { value: [] })
+
+    const started = Date.now()
+    await retryingClient().getQueueDefinitions()
+    expect(apiCalls).toHaveLength(2)
+    expect(Date.now() - started).toBeGreaterThanOrEqual(950)
+  })
+
+  it('should not wait when Retry-After exceeds maxDelayMs', async () => {
+    handler = (_req, res) => respond(res, 429, { message: 'slow down' }, { 'Retry-After': '120' })
+
+    await expect(retryingClient().getQueueDefinitions()).rejects.toThrow('429')
+    expect(apiCalls).toHaveLength(1)
+  })
+
+  it('should not retry POSTs on 503', async () => {
+    handler = (_req, res) => respond(res, 503, { message: 'unavailable' })
+
+    await expect(retryingClient().addQueueItem('Orders', { id: 1 }, { validate: false })).rejects.toThrow('503')
+    expect(apiCalls).toEqual([{ method: 'POST', url: '/org/tenant/orchestrator_/odata/Queues/UiPathODataSvc.AddQueueItem' }])
+  })
+
+  it('should retry POSTs on 429', async () => {
+    handler = (_req, res) => apiCalls.length === 1
+      ? respond(res, 429, { message: 'slow down' })
+      : respond(res, 201, { Id: 9 })
+
+    const item = await retryingClient().addQueueItem('Orders', { id: 1 }, { validate: false })
+    expect(item).toEqual({ Id: 9 })
+    expect(apiCalls).toHaveLength(2)
+  })
+
+  it('should not retry client errors', async () => {
+    handler = (_req, res) => respond(res, 404, { message: 'not found' })
+
+    await expect(retryingClient().getJobById(1)).rejects.toThrow('404')
+    expect(apiCalls).toHaveLength(1)
+  })
+
+  it('should fail fast once the circuit opens', async () => {
+    handler = (_req, res) => respond(res, 503, { message: 'down' })
+    const client = retryingClient({
+      retry: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60_000 },
+    })
+
+    await expect(client.getQueueDefinitions()).rejects.toThrow('503')
+    await expect(client.getQueueDefinitions()).rejects.toThrow('503')
+    await expect(client.getQueueDefinitions()).rejects.toThrow(CircuitOpenError)
+    expect(apiCalls).toHaveLength(2)
+  })
+})
@@ -1,6 +1,9 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { UiPathClient } from '../src/uipath-client.js'
+import { NotFoundError, SchemaValidationError, ValidationError } from '../src/errors.js'
 import type { UiPathConfig } from '../src/types.js'
+import { calls, createClient, requestedUrls, stubFetch } from './helpers.js'
+import type { StubRequest } from './helpers.js'
 
 /**
  * UiPath Client Tests
@@ -174,4 +177,1127 @@ describe('UiPathClient - Unit Tests', () => {
       expect(client).toBeDefined()
     })
   })
+
+  describe('Pagination', () => {
+    const jobsFrom = (start: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({ Id: start + i, State: 'Faulted' }))
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should advance $skip until a short page is returned', async () => {
+      stubFetch(({ query }) => {
+        const skip = Number(query.get('$skip'))
+        return { body: { value: jobsFrom(skip, skip < 4 ? 2 : 1) } }
+      })
+
+      const ids: number[] = []
+      for await (const job of createClient().iterateJobs({ state: 'Faulted', pageSize: 2 })) {
+        ids.push(job.Id)
+      }
+
+      expect(ids).toEqual([0, 1, 2, 3, 4])
+      expect(requestedUrls()).toHaveLength(3)
+      expect(new URL(requestedUrls()[0]).searchParams.get('$filter')).toBe("State eq 'Faulted'")
+    })
+
+    it('should follow @odata.nextLink when provided', async () => {
+      const nextLink = 'https://cloud.uipath.com/org/tenant/orchestrator_/odata/Jobs?$skiptoken=abc'
+      stubFetch(({ query }) => ({
+        body: query.has('$skiptoken') ? { value: jobsFrom(2, 1) } : { value: jobsFrom(0, 2), '@odata.nextLink': nextLink },
+      }))
+
+      const ids: number[] = []
+      for await (const job of createClient().iterateJobs({ pageSize: 2 })) {
+        ids.push(job.Id)
+      }
+
+      expect(ids).toEqual([0, 1, 2])
+      expect(requestedUrls()[1]).toBe(nextLink)
+    })
+
+    it('should resume $skip after pages reached through @odata.nextLink', async () => {
+      const nextLink = 'https://cloud.uipath.com/org/tenant/orchestrator_/odata/Jobs?$skiptoken=abc'
+      stubFetch(({ query }) => {
+        if (query.has('$skiptoken')) return { body: { value: jobsFrom(2, 2) } }
+        const skip = Number(query.get('$skip'))
+        return { body: skip === 0 ? { value: jobsFrom(0, 2), '@odata.nextLink': nextLink } : { value: jobsFrom(skip, 1) } }
+      })
+
+      const ids: number[] = []
+      for await (const job of createClient().iterateJobs({ pageSize: 2 })) {
+        ids.push(job.Id)
+      }
+
+      expect(ids).toEqual([0, 1, 2, 3, 4])
+      expect(new URL(requestedUrls()[2]).searchParams.get('$skip')).toBe('4')
+    })
+
+    it('should stop at maxItems', async () => {
+      stubFetch(({ query }) => ({ body: { value: jobsFrom(Number(query.get('$skip')), Number(query.get('$top'))) } }))
+
+      const ids: number[] = []
+      for await (const job of createClient().iterateJobs({ pageSize: 3, maxItems: 5 })) {
+        ids.push(job.Id)
+      }
+
+      expect(ids).toEqual([0, 1, 2, 3, 4])
+      expect(new URL(requestedUrls()[1]).searchParams.get('$top')).toBe('2')
+    })
+  })
+
+  describe('Generic OData query', () => {
+    beforeEach(() => {
+      stubFetch(() => ({ body: { value: [{ Id: 1, Name: 'Bucket' }], '@odata.count': 1 } }))
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should issue a GET with validated query options', async () => {
+      const result = await createClient().queryEntitySet('Buckets', {
+        filter: "startswith(Name,'Inv')",
+        select: 'Id,Name',
+        orderBy: 'Name asc',
+        top: 10,
+        count: true
+      })
+
+      expect(result).toEqual({ items: [{ Id: 1, Name: 'Bucket' }], count: 1 })
+      const url = new URL(requestedUrls()[0])
+      expect(url.pathname).toBe('/org/tenant/orchestrator_/odata/Buckets')
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        $filter: "startswith(Name,'Inv')",
+        $select: 'Id,Name',
+        $orderby: 'Name asc',
+        $top: '10',
+        $count: 'true'
+      })
+      const [, init] = vi.mocked(fetch).mock.calls[1] as [string, RequestInit]
+      expect(init.method).toBe('GET')
+    })
+
+    it('should reject entity sets outside the allowlist', async () => {
+      await expect(createClient().queryEntitySet('Settings')).rejects.toThrow('Entity set not allowed')
+      await expect(createClient().queryEntitySet('Jobs(1)/StopJob')).rejects.toThrow('Entity set not allowed')
+      expect(requestedUrls()).toHaveLength(0)
+    })
+
+    it('should reject malformed query options before calling the API', async () => {
+      await expect(createClient().queryEntitySet('Users', { filter: "Name eq 'x" })).rejects.toThrow()
+      await expect(createClient().queryEntitySet('Users', { top: 5000 })).rejects.toThrow('$top')
+      await expect(createClient().queryEntitySet('Users', { select: 'Id;Password' })).rejects.toThrow()
+      expect(requestedUrls()).toHaveLength(0)
+    })
+  })
+
+  describe('Queue operations', () => {
+    const items = [
+      { Id: 1, Status: 'Failed', RowVersion: 'AAA=' },
+      { Id: 2, Status: 'Successful', RowVersion: 'BBB=' },
+      { Id: 3, Status: 'New', RowVersion: 'CCC=' },
+    ]
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should report failed items of a bulk add by index and reference', async () => {
+      stubFetch(({ method }) => ({
+        body: method === 'GET'
+          ? { value: [{ Id: 7, Name: 'Invoices' }] }
+          : {
+              Success: false,
+              FailedItems: [{ Body: { Reference: 'B' }, ErrorCode: 1016, ErrorMessage: 'Duplicate Reference.' }]
+            },
+      }))
+
+      const result = await createClient().bulkAddQueueItems('Invoices', [
+        { SpecificContent: { n: 1 }, Reference: 'A' },
+        { SpecificContent: { n: 2 }, Reference: 'B' },
+      ])
+
+      expect(calls[1].path).toBe('/odata/Queues/UiPathODataSvc.BulkAddQueueItems')
+      expect(calls[1].body).toMatchObject({ queueName: 'Invoices', commitType: 'ProcessAllIndependently' })
+      expect(result).toEqual({
+        success: false,
+        added: 1,
+        failed: [{ index: 1, reference: 'B', errorCode: 1016, error: 'Duplicate Reference.' }]
+      })
+    })
+
+    it('should match failures to their own position with duplicate or missing references', async () => {
+      stubFetch(({ method }) => ({
+        body: method === 'GET'
+          ? { value: [{ Id: 7, Name: 'Invoices' }] }
+          : {
+              Success: false,
+              FailedItems: [
+                { Body: { Reference: 'A', SpecificContent: { n: 2 } }, ErrorCode: 1016, ErrorMessage: 'Duplicate Reference.' },
+                { Body: { SpecificContent: { n: 4 } }, ErrorMessage: 'Invalid content.' },
+              ]
+            },
+      }))
+
+      const result = await createClient().bulkAddQueueItems('Invoices', [
+        { SpecificContent: { n: 1 }, Reference: 'A' },
+        { SpecificContent: { n: 2 }, Reference: 'A' },
+        { SpecificContent: { n: 3 } },
+        { SpecificContent: { n: 4 } },
+      ])
+
+      expect(result.failed.map(f => f.index)).toEqual([1, 3])
+      expect(result.added).toBe(2)
+    })
+
+    describe('SpecificDataJsonSchema validation', () => {
+      const schema = JSON.stringify({
+        $schema: 'http://json-schema.org/draft-04/schema#',
+        type: 'object',
+        required: ['InvoiceNumber', 'Amount'],
+        properties: { InvoiceNumber: { type: 'string' }, Amount: { type: 'number', minimum: 0 } }
+      })
+
+      beforeEach(() => {
+        stubFetch(({ method }) => ({
+          body: method === 'GET'
+            ? { value: [{ Id: 7, Name: 'Invoices', SpecificDataJsonSchema: schema }] }
+            : { Success: true, FailedItems: [] },
+        }))
+      })
+
+      it('should reject invalid content with field errors before posting', async () => {
+        const error = await createClient().addQueueItem('Invoices', { InvoiceNumber: 42 }).catch(e => e)
+
+        expect(error).toBeInstanceOf(SchemaValidationError)
+        expect(error.fieldErrors).toEqual([
+          { field: 'Amount', message: "must have required property 'Amount'" },
+          { field: 'InvoiceNumber', message: 'must be string' },
+        ])
+        expect(calls.some(c => c.method === 'POST')).toBe(false)
+      })
+
+      it('should post content that matches the schema', async () => {
+        await createClient().addQueueItem('Invoices', { InvoiceNumber: 'INV-1', Amount: 10 })
+        expect(calls.filter(c => c.method === 'POST')).toHaveLength(1)
+      })
+
+      it('should send only valid items when processing independently', async () => {
+        const result = await createClient().bulkAddQueueItems('Invoices', [
+          { SpecificContent: { InvoiceNumber: 'INV-1', Amount: 10 } },
+          { SpecificContent: { InvoiceNumber: 'INV-2', Amount: -1 }, Reference: 'R2' },
+        ])
+
+        const post = calls.find(c => c.method === 'POST')
+        expect((post?.body as { queueItems: unknown[] }).queueItems).toHaveLength(1)
+        expect(result).toEqual({
+          success: false,
+          added: 1,
+          failed: [{ index: 1, reference: 'R2', errorCode: 'schema_validation', error: 'Amount: must be >= 0' }]
+        })
+      })
+
+      it('should reject the whole batch for AllOrNothing', async () => {
+        await expect(createClient().bulkAddQueueItems('Invoices', [
+          { SpecificContent: { InvoiceNumber: 'INV-1', Amount: 10 } },
+          { SpecificContent: {} },
+        ], { commitType: 'AllOrNothing' })).rejects.toThrow('1 of 2 items')
+        expect(calls.some(c => c.method === 'POST')).toBe(false)
+      })
+    })
+
+    it('should assemble the retry chain and timeline of a queue item', async () => {
+      const robot = { Id: 5, Name: 'Robot-01' }
+      const original = {
+        Id: 10, Status: 'Retried', RetryNumber: 0, AncestorId: null, Robot: robot,
+        StartProcessing: '2024-01-15T10:00:05Z', EndProcessing: '2024-01-15T10:01:10Z',
+        ProcessingException: { Type: 'ApplicationException', Reason: 'Timeout', Details: null, CreationTime: '2024-01-15T10:01:10Z' }
+      }
+      const retry = {
+        Id: 11, Status: 'Failed', RetryNumber: 1, AncestorId: 10, Robot: robot,
+        StartProcessing: '2024-01-15T10:02:00Z', EndProcessing: '2024-01-15T10:02:30Z',
+        ProcessingException: { Type: 'BusinessException', Reason: 'Amount missing', Details: null, CreationTime: '2024-01-15T10:02:30Z' }
+      }
+      stubFetch(({ path }) => {
+        if (path === '/odata/QueueItems(11)') return { body: retry }
+        if (path === '/odata/QueueItems') return { body: { value: [original, retry] } }
+        if (path === '/odata/Jobs') return { body: { value: [{ Id: 99, Key: 'job-key', State: 'Successful' }] } }
+        return { body: { value: [{ Id: 1, QueueItemId: 10, Timestamp: '2024-01-15T09:58:00Z', Action: 'Created', Status: 'New', UserName: 'admin' }] } }
+      })
+
+      const details = await createClient().getQueueItemDetails(11)
+
+      expect(details.summary).toBe('Failed after 2 attempts: BusinessException - Amount missing')
+      expect(details.attempts.map(a => [a.queueItemId, a.attempt, a.job?.Key])).toEqual([[10, 0, 'job-key'], [11, 1, 'job-key']])
+      expect(details.timeline.map(e => e.description)).toEqual([
+        'Created (New) by admin',
+        'Processing started by robot Robot-01 in job job-key',
+        'ApplicationException: Timeout',
+        'Processing ended with status Retried',
+        'Processing started by robot Robot-01 in job job-key',
+        'BusinessException: Amount missing',
+        'Processing ended with status Failed',
+      ])
+    })
+
+    it('should build the timeline without event history or jobs it may not read', async () => {
+      const item = {
+        Id: 20, Status: 'Failed', RetryNumber: 0, AncestorId: null, Robot: { Id: 5, Name: 'Robot-01' },
+        StartProcessing: '2024-01-15T10:00:00Z', EndProcessing: '2024-01-15T10:01:00Z',
+        ProcessingException: { Type: 'BusinessException', Reason: 'Bad input', Details: null, CreationTime: '' }
+      }
+      stubFetch(({ path }) => {
+        if (path === '/odata/QueueItems(20)') return { body: item }
+        if (path === '/odata/QueueItems') return { body: { value: [item] } }
+        return { status: 403, body: { message: 'You are not authorized!' } }
+      })
+
+      const details = await createClient().getQueueItemDetails(20)
+
+      expect(details.attempts[0].job).toBeNull()
+      expect(details.timeline.map(e => e.kind)).toEqual(['exception', 'started', 'completed'])
+      expect(details.summary).toBe('Failed after 1 attempt: BusinessException - Bad input')
+    })
+
+    it('should build an SLA report from New and recently processed items', async () => {
+      const now = new Date('2024-01-15T12:30:00Z')
+      stubFetch(({ query }) => {
+        const filter = query.get('$filter') ?? ''
+        if (filter.includes("Status eq 'New'") && !query.has('$count')) {
+          return { body: { value: [
+            { Id: 1, CreationTime: '2024-01-15T12:00:00Z', DueDate: null, DeferDate: null },
+            { Id: 2, CreationTime: '2024-01-15T06:00:00Z', DueDate: '2024-01-15T12:00:00Z', DeferDate: '2024-01-15T07:00:00Z' },
+            { Id: 3, CreationTime: '2024-01-10T12:00:00Z', DueDate: null, DeferDate: null },
+          ] } }
+        }
+        if (filter.includes('EndProcessing ge')) {
+          return { body: { value: [
+            { Id: 4, Status: 'Successful', RetryNumber: 0, StartProcessing: '2024-01-15T11:00:00Z', EndProcessing: '2024-01-15T11:01:00Z' },
+            { Id: 5, Status: 'Failed', RetryNumber: 1, StartProcessing: '2024-01-15T12:00:00Z', EndProcessing: '2024-01-15T12:03:00Z' },
+          ] } }
+        }
+        return { body: { value: [], '@odata.count': 3 } }
+      })
+
+      const report = await createClient().getQueueSlaReport(
+        { Id: 7, Name: 'Invoices', SlaInMinutes: 2880, RiskSlaInMinutes: 300 },
+        { windowHours: 2, now }
+      )
+
+      expect(report.risk).toBe('breached')
+      expect(report.newItems).toMatchObject({
+        total: 3,
+        oldestAgeMinutes: 7230,
+        ageBuckets: { '<1h': 1, '1-4h': 0, '4-24h': 1, '1-7d': 1, '>7d': 0 },
+        pastDue: 1,
+        deferElapsed: 1
+      })
+      expect(report.sla).toEqual({ slaMinutes: 2880, riskSlaMinutes: 300, breached: 1, atRisk: 1 })
+      expect(report.processed).toMatchObject({
+        total: 2, successful: 1, failed: 1, avgProcessingSeconds: 120, retryRate: 50, throughputPerHour: 1
+      })
+      expect(report.processed.hourly).toEqual([
+        { hour: '2024-01-15T10:00:00.000Z', count: 0 },
+        { hour: '2024-01-15T11:00:00.000Z', count: 1 },
+        { hour: '2024-01-15T12:00:00.000Z', count: 1 },
+      ])
+      expect(report.statusCounts.totalItems).toBe(15)
+    })
+
+    describe('SLA risk classification', () => {
+      const now = new Date('2024-01-15T12:30:00Z')
+      const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60_000).toISOString()
+      const newItem = (ageMinutes: number, DueDate: string | null = null) =>
+        ({ Id: ageMinutes, CreationTime: minutesAgo(ageMinutes), DueDate, DeferDate: null })
+
+      const stubQueues = (newItemsByQueue: Record<number, unknown[]>) => {
+        stubFetch(({ path, query }) => {
+          if (path === '/odata/QueueDefinitions') {
+            return { body: { value: [
+              { Id: 1, Name: 'Calm', SlaInMinutes: 600, RiskSlaInMinutes: 60 },
+              { Id: 2, Name: 'Risky', SlaInMinutes: 600, RiskSlaInMinutes: 60 },
+              { Id: 3, Name: 'Late', SlaInMinutes: null, RiskSlaInMinutes: null },
+            ] } }
+          }
+          const filter = query.get('$filter') ?? ''
+          const queueId = Number(/QueueDefinitionId eq (\d+)/.exec(filter)?.[1])
+          if (filter.includes("Status eq 'New'") && !query.has('$count')) {
+            const top = Number(query.get('$top'))
+            return { body: { value: (newItemsByQueue[queueId] ?? []).slice(0, top) } }
+          }
+          return { body: { value: [], '@odata.count': 0 } }
+        })
+      }
+
+      it.each([
+        ['ok', [newItem(10), newItem(59)]],
+        ['at_risk', [newItem(10), newItem(61)]],
+        ['breached', [newItem(601)]],
+        ['breached', [newItem(5, minutesAgo(1))]],
+      ])('should classify the queue as %s', async (risk, items) => {
+        stubQueues({ 1: items })
+
+        const report = await createClient().getQueueSlaReport(
+          { Id: 1, Name: 'Calm', SlaInMinutes: 600, RiskSlaInMinutes: 60 },
+          { now }
+        )
+
+        expect(report.risk).toBe(risk)
+      })
+
+      it('should not flag aging items of a queue without SLA settings', async () => {
+        stubQueues({ 3: [newItem(10_000)] })
+
+        const report = await createClient().getQueueSlaReport({ Id: 3, Name: 'Late' }, { now })
+
+        expect(report.risk).toBe('ok')
+        expect(report.sla).toEqual({ slaMinutes: null, riskSlaMinutes: null, breached: 0, atRisk: 0 })
+      })
+
+      it('should rank every queue of a folder by risk, then by oldest item', async () => {
+        stubQueues({ 1: [newItem(30)], 2: [newItem(90), newItem(120)], 3: [newItem(5, minutesAgo(1))] })
+
+        const reports = await createClient().getQueueSlaReports({ folderId: 1, now, maxItems: 1 })
+
+        expect(reports.map(r => [r.queueName, r.risk])).toEqual([['Late', 'breached'], ['Risky', 'at_risk'], ['Calm', 'ok']])
+        expect(reports[1].newItems).toMatchObject({ total: 1, truncated: true })
+        expect(reports[2].newItems).toMatchObject({ total: 1, truncated: false })
+      })
+    })
+
+    it('should look bulk items up in chunks', async () => {
+      const ids = Array.from({ length: 120 }, (_, i) => i + 1)
+      const tops: number[] = []
+      stubFetch(({ method, query }) => {
+        if (method !== 'GET') return { body: { Success: true, FailedItems: [] } }
+        tops.push(Number(query.get('$top')))
+        return { body: { value: [] } }
+      })
+
+      const result = await createClient().retryQueueItems(ids)
+
+      expect(tops).toEqual([50, 50, 20])
+      expect(result.failed).toHaveLength(120)
+    })
+
+    it('should retry only Failed items and report the rest', async () => {
+      stubFetch(({ method }) => ({ body: method === 'GET' ? { value: items } : { Success: true, FailedItems: [] } }))
+
+      const result = await createClient().retryQueueItems([1, 2, 99])
+
+      expect(calls[1]).toEqual({
+        method: 'POST',
+        path: '/odata/QueueItems/UiPathODataSvc.SetItemReviewStatus',
+        body: { queueItems: [{ Id: 1, RowVersion: 'AAA=' }], status: 'Retried' },
+        folderId: null
+      })
+      expect(result.succeeded).toEqual([1])
+      expect(result.failed.map(f => f.id)).toEqual([2, 99])
+      expect(result.failed[1].error).toContain('not found')
+    })
+
+    it('should delete only New items and map server-side failures', async () => {
+      stubFetch(({ method }) => ({
+        body: method === 'GET'
+          ? { value: items }
+          : { Success: false, FailedItems: [{ Body: 3, ErrorMessage: 'Item is locked' }] },
+      }))
+
+      const result = await createClient().deleteQueueItems([1, 3])
+
+      expect(calls[1].path).toBe('/odata/QueueItems/UiPathODataSvc.DeleteBulk')
+      expect(result).toEqual({
+        succeeded: [],
+        failed: [
+          { id: 1, error: 'Only New items can be deleted (status: Failed)' },
+          { id: 3, error: 'Item is locked' },
+        ]
+      })
+    })
+
+    it('should keep content and reference when updating an item', async () => {
+      const item = {
+        Id: 3, QueueDefinitionId: 7, Status: 'New', Reference: 'R-3', SpecificContent: { a: 1 },
+        Priority: 'Normal', DeferDate: null, DueDate: '2024-02-01T00:00:00Z'
+      }
+      stubFetch(({ method, path }) => {
+        if (path === '/odata/QueueDefinitions(7)') return { body: { Id: 7, Name: 'Invoices' } }
+        return { body: method === 'GET' ? item : undefined }
+      })
+
+      await createClient().updateQueueItem(3, { priority: 'High', dueDate: null })
+
+      const put = calls.find(c => c.method === 'PUT')
+      expect(put).toEqual({
+        method: 'PUT',
+        path: '/odata/QueueItems(3)',
+        body: { Name: 'Invoices', SpecificContent: { a: 1 }, Reference: 'R-3', Priority: 'High' },
+        folderId: null
+      })
+    })
+
+    it('should keep unspecified settings when updating a queue definition', async () => {
+      const queue = {
+        '@odata.context': '$metadata#QueueDefinitions/$entity',
+        Id: 7, Name: 'Invoices', Description: 'old', MaxNumberOfRetries: 1, EnforceUniqueReference: true,
+        CreationTime: '2024-01-01T00:00:00Z', SlaInMinutes: 60
+      }
+      stubFetch(({ method }) => ({ body: method === 'GET' ? queue : undefined }))
+
+      await createClient().updateQueueDefinition(7, { MaxNumberOfRetries: 3, Description: undefined })
+
+      expect(calls.find(c => c.method === 'PUT')).toEqual({
+        method: 'PUT',
+        path: '/odata/QueueDefinitions(7)',
+        body: { Name: 'Invoices', Description: 'old', MaxNumberOfRetries: 3, EnforceUniqueReference: true, SlaInMinutes: 60 },
+        folderId: null
+      })
+    })
+
+    it('should refuse to delete a queue that still has items', async () => {
+      stubFetch(() => ({ body: { value: [{ Id: 1, Status: 'Successful' }], '@odata.count': 15 } }))
+
+      await expect(createClient().deleteQueueDefinition(7)).rejects.toThrow('still has 15 items')
+      expect(calls.some(c => c.method === 'DELETE')).toBe(false)
+    })
+
+    it('should count items in every status before deleting a queue', async () => {
+      stubFetch(({ method }) => ({ body: method === 'GET' ? { value: [], '@odata.count': 0 } : undefined }))
+
+      await createClient().deleteQueueDefinition(7)
+
+      expect(calls.map(c => c.method)).toEqual(['GET', 'DELETE'])
+      expect(new URL(requestedUrls()[0]).searchParams.get('$filter')).toBe('QueueDefinitionId eq 7')
+    })
+
+    it('should refuse to update items that are no longer New', async () => {
+      stubFetch(() => ({ body: { Id: 1, QueueDefinitionId: 7, Status: 'InProgress' } }))
+
+      await expect(createClient().updateQueueItem(1, { priority: 'High' })).rejects.toThrow('Only New queue items')
+      expect(calls.some(c => c.method === 'PUT')).toBe(false)
+    })
+  })
+
+  describe('Job control', () => {
+    const jobs = [
+      { Id: 1, Key: 'k1', State: 'Running' },
+      { Id: 2, Key: 'k2', State: 'Successful' },
+      { Id: 3, Key: 'k3', State: 'Suspended' },
+    ]
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should pass priority, RunAsMe and machine/robot pairs on start', async () => {
+      stubFetch(() => ({ body: { value: [] } }))
+
+      await createClient().startJob('release-key', {
+        specificPriorityValue: 80,
+        priority: 'Low',
+        runAsMe: true,
+        machineRobots: [{ MachineId: 4, RobotId: 9 }]
+      })
+
+      expect(calls[0].body).toEqual({
+        startInfo: {
+          ReleaseKey: 'release-key',
+          Strategy: 'ModernJobsCount',
+          JobsCount: 1,
+          SpecificPriorityValue: 80,
+          RunAsMe: true,
+          MachineRobots: [{ MachineId: 4, RobotId: 9 }]
+        }
+      })
+    })
+
+    const sessions = [
+      { Id: 1, MachineId: 4, MachineName: 'VM-4', RobotId: 9, RobotName: 'Bot9', State: 'Available', IsUnresponsive: false, RuntimeType: 'Unattended' },
+      { Id: 2, MachineId: 5, MachineName: 'VM-5', RobotId: 9, RobotName: 'Bot9', State: 'Busy', IsUnresponsive: false, RuntimeType: 'Unattended' },
+      { Id: 3, MachineId: 6, MachineName: 'VM-6', RobotId: 10, RobotName: 'Bot10', State: 'Disconnected', IsUnresponsive: false, RuntimeType: 'Unattended' },
+    ]
+    const targetingStub = (licensed: number[]) => ({ path }: StubRequest) => {
+      if (path.includes('GetRobotsFromFolder')) {
+        return { body: { value: [
+          { Id: 9, Name: 'Bot9', Type: 'Unattended', IsEnabled: true },
+          { Id: 10, Name: 'Bot10', Type: 'Unattended', IsEnabled: true },
+          { Id: 11, Name: 'Bot11', Type: 'Unattended', IsEnabled: false },
+        ] } }
+      }
+      if (path === '/odata/Machines') {
+        return { body: { value: [{ Id: 4, Name: 'VM-4' }, { Id: 5, Name: 'VM-5' }, { Id: 6, Name: 'VM-6' }] } }
+      }
+      if (path === '/odata/Sessions') {
+        return { body: { value: sessions } }
+      }
+      if (path.includes('GetLicensesRuntime')) {
+        return { body: { value: [4, 5, 6].map(id => ({ MachineId: id, IsLicensed: licensed.includes(id), Enabled: true })) } }
+      }
+      return { body: { value: [] } }
+    }
+
+    it('should resolve robot names to RobotIds with the Specific strategy', async () => {
+      stubFetch(targetingStub([4, 5]))
+
+      const target = await createClient().resolveJobTarget({ robotNames: ['bot9'], folderId: 1 })
+      expect(target).toMatchObject({ strategy: 'Specific', robotIds: [9], robots: ['Bot9'], warnings: [] })
+
+      await createClient().startJob('release-key', { robotIds: target.robotIds })
+      expect(calls.at(-1)?.body).toMatchObject({ startInfo: { Strategy: 'Specific', RobotIds: [9] } })
+    })
+
+    it('should read only the sessions of the named robots', async () => {
+      stubFetch(targetingStub([4, 5]))
+
+      await createClient().resolveJobTarget({ robotNames: ['Bot9'], folderId: 1 })
+
+      const sessionUrls = requestedUrls().map(url => new URL(url)).filter(url => url.pathname.endsWith('/odata/Sessions'))
+      expect(sessionUrls.map(url => url.searchParams.get('$filter'))).toEqual(['RobotId eq 9'])
+    })
+
+    it('should pair robots with the named machines', async () => {
+      stubFetch(targetingStub([4, 5]))
+
+      const target = await createClient().resolveJobTarget({ robotNames: ['Bot9'], machineNames: ['VM-5'], folderId: 1 })
+      expect(target.strategy).toBe('ModernJobsCount')
+      expect(target.machineRobots).toEqual([{ MachineId: 5, RobotId: 9 }])
+      expect(target.warnings[0]).toContain('busy')
+    })
+
+    it('should find machines beyond the first page', async () => {
+      const machines = Array.from({ length: 150 }, (_, i) => ({ Id: i + 1, Name: `VM-${i + 1}` }))
+      stubFetch(({ path, query }) => {
+        if (path === '/odata/Machines') {
+          const skip = Number(query.get('$skip') ?? 0)
+          return { body: { value: machines.slice(skip, skip + Number(query.get('$top'))) } }
+        }
+        if (path === '/odata/Sessions') {
+          return { body: { value: [{ ...sessions[0], MachineId: 140, MachineName: 'VM-140' }] } }
+        }
+        return { body: { value: [{ MachineId: 140, IsLicensed: true, Enabled: true }] } }
+      })
+
+      const target = await createClient().resolveJobTarget({ machineNames: ['vm-140'], folderId: 1 })
+      expect(target.machineRobots).toEqual([{ MachineId: 140 }])
+    })
+
+    it('should reject missing, disabled, disconnected and unlicensed targets', async () => {
+      stubFetch(targetingStub([5]))
+      const client = createClient()
+
+      await expect(client.resolveJobTarget({ robotNames: ['Nobody'], folderId: 1 })).rejects.toThrow(NotFoundError)
+      await expect(client.resolveJobTarget({ robotNames: ['Bot11'], folderId: 1 })).rejects.toThrow('disabled')
+      await expect(client.resolveJobTarget({ robotNames: ['Bot10'], folderId: 1 })).rejects.toThrow('Disconnected')
+      await expect(client.resolveJobTarget({ machineNames: ['VM-4'], folderId: 1 })).rejects.toThrow('No Unattended runtime is licensed')
+      await expect(client.resolveJobTarget({ runtimeType: 'NonProduction', folderId: 1 })).rejects.toThrow('No NonProduction session')
+    })
+
+    it('should stop only jobs that are still active', async () => {
+      stubFetch(({ method }) => ({ body: method === 'GET' ? { value: jobs } : undefined }))
+
+      const result = await createClient().stopJobs([1, 2, 3, 4], 'Kill')
+
+      expect(calls[1]).toEqual({
+        method: 'POST',
+        path: '/odata/Jobs/UiPath.Server.Configuration.OData.StopJobs',
+        body: { strategy: 'Kill', jobIds: [1, 3] },
+        folderId: null
+      })
+      expect(result).toEqual({
+        succeeded: [1, 3],
+        failed: [
+          { id: 2, error: 'Job is already Successful' },
+          { id: 4, error: 'Job not found: 4' },
+        ]
+      })
+    })
+
+    it('should resume each suspended job by key and report failures per job', async () => {
+      stubFetch(({ method, body }) => {
+        if (method === 'GET') return { body: { value: jobs } }
+        return (body as { jobKey: string }).jobKey === 'k3' ? {} : { status: 400, body: { message: 'x' } }
+      })
+
+      const result = await createClient().resumeJobs([1, 3])
+
+      expect(calls.filter(c => c.method === 'POST').map(c => c.body)).toEqual([{ jobKey: 'k3' }])
+      expect(result.succeeded).toEqual([3])
+      expect(result.failed).toEqual([{ id: 1, error: 'Only Suspended jobs can be resumed (state: Running)' }])
+    })
+
+    it('should poll until the job finishes and return outputs and the log tail', async () => {
+      const states = ['Pending', 'Running', 'Successful']
+      let polls = 0
+      stubFetch(({ path }) => {
+        if (path === '/odata/RobotLogs') {
+          return { body: { value: [{ Id: 2, Message: 'done' }, { Id: 1, Message: 'start' }] } }
+        }
+        const state = states[Math.min(polls++, states.length - 1)]
+        return {
+          body: {
+            Id: 7, Key: 'job-7', State: state,
+            StartTime: '2024-01-15T10:00:00Z', EndTime: state === 'Successful' ? '2024-01-15T10:01:30Z' : null,
+            OutputArguments: state === 'Successful' ? '{"Total":42}' : null
+          }
+        }
+      })
+      const seen: string[] = []
+
+      const result = await createClient().waitForJob(7, {
+        pollIntervalMs: 1,
+        onPoll: job => { seen.push(job.State) }
+      })
+
+      expect(seen).toEqual(['Pending', 'Running', 'Successful'])
+      expect(result).toMatchObject({
+        finished: true,
+        timedOut: false,
+        durationSeconds: 90,
+        outputArguments: { Total: 42 }
+      })
+      expect(result.logs.map(l => l.Message)).toEqual(['start', 'done'])
+    })
+
+    it('should stop waiting at the timeout', async () => {
+      stubFetch(({ path }) => ({ body: path === '/odata/RobotLogs' ? { value: [] } : { Id: 7, Key: 'k', State: 'Running' } }))
+
+      const result = await createClient().waitForJob(7, { pollIntervalMs: 5, timeoutMs: 20 })
+
+      expect(result).toMatchObject({ finished: false, timedOut: true, outputArguments: null })
+    })
+
+    it('should return the job without its log only when the log cannot be read', async () => {
+      const respond = (logStatus: number) => stubFetch(({ path }) => path === '/odata/RobotLogs'
+        ? { status: logStatus, body: { message: 'denied' } }
+        : { body: { Id: 7, Key: 'k', State: 'Successful' } })
+
+      respond(403)
+      await expect(createClient().waitForJob(7)).resolves.toMatchObject({ finished: true, logs: [] })
+
+      respond(400)
+      await expect(createClient().waitForJob(7)).rejects.toThrow('denied')
+    })
+
+    it('should not send requests once the wait is cancelled', async () => {
+      stubFetch(() => ({ body: { Id: 7, Key: 'k', State: 'Running' } }))
+      const controller = new AbortController()
+
+      await expect(createClient().waitForJob(7, {
+        pollIntervalMs: 1,
+        signal: controller.signal,
+        onPoll: () => controller.abort(),
+      })).rejects.toThrow()
+
+      expect(calls.map(c => c.path)).toEqual(['/odata/Jobs(7)'])
+    })
+
+    it('should cancel the wait between polls without waiting out the interval', async () => {
+      stubFetch(() => ({ body: { Id: 7, Key: 'k', State: 'Running' } }))
+      const controller = new AbortController()
+      const started = Date.now()
+
+      await expect(createClient().waitForJob(7, {
+        pollIntervalMs: 60_000,
+        timeoutMs: 120_000,
+        signal: controller.signal,
+        onPoll: () => { setTimeout(() => controller.abort(), 10) },
+      })).rejects.toThrow()
+
+      expect(Date.now() - started).toBeLessThan(1000)
+      expect(calls).toHaveLength(1)
+    })
+
+    it('should report duration percentiles, hung jobs and per-machine breakdown', async () => {
+      const finished = Array.from({ length: 20 }, (_, i) => ({
+        Id: i + 1,
+        Key: `k${i + 1}`,
+        State: 'Successful',
+        HostMachineName: i % 2 === 0 ? 'VM-FAST' : 'VM-SLOW',
+        StartTime: '2025-01-01T10:00:00Z',
+        EndTime: new Date(Date.parse('2025-01-01T10:00:00Z') + (i % 2 === 0 ? 60 : 120) * 1000).toISOString(),
+      }))
+      const running = [
+        { Id: 30, Key: 'k30', State: 'Running', HostMachineName: 'VM-SLOW', StartTime: '2025-01-02T11:50:00Z', EndTime: null },
+        { Id: 31, Key: 'k31', State: 'Running', HostMachineName: 'VM-FAST', StartTime: '2025-01-02T11:59:30Z', EndTime: null },
+      ]
+      stubFetch(({ query }) => ({
+        body: { value: query.get('$filter')?.includes("State eq 'Running'") ? running : finished },
+      }))
+
+      const performance = await createClient().getProcessPerformance('Invoices', { now: new Date('2025-01-02T12:00:00Z') })
+
+      expect(performance).toMatchObject({
+        successful: 20,
+        p50DurationSeconds: 90,
+        p95DurationSeconds: 120,
+        stdDevDurationSeconds: 31,
+      })
+      expect(performance.longRunningJobs).toEqual([
+        { Id: 30, Key: 'k30', HostMachineName: 'VM-SLOW', StartTime: '2025-01-02T11:50:00Z', runningSeconds: 600, timesP95: 5 },
+      ])
+      expect(performance.machines.map(m => [m.hostMachineName, m.p50DurationSeconds])).toEqual([['VM-SLOW', 120], ['VM-FAST', 60]])
+    })
+
+    it('should warn when running jobs are cut off', async () => {
+      const running = Array.from({ length: 1001 }, (_, i) => ({ Id: i + 1, Key: `k${i + 1}`, State: 'Running', StartTime: null, EndTime: null }))
+      stubFetch(({ query }) => {
+        if (!query.get('$filter')?.includes("State eq 'Running'")) return { body: { value: [] } }
+        const skip = Number(query.get('$skip'))
+        return { body: { value: running.slice(skip, skip + Number(query.get('$top'))) } }
+      })
+
+      const performance = await createClient().getProcessPerformance('Invoices')
+
+      expect(performance.warnings).toEqual(['Only the first 1000 running jobs were read; longRunningJobs may be incomplete'])
+    })
+
+    it('should refuse to restart a job that has not finished', async () => {
+      stubFetch(() => ({ body: { Id: 1, State: 'Running' } }))
+
+      await expect(createClient().restartJob(1)).rejects.toThrow('Only finished jobs')
+      expect(calls.some(c => c.method === 'POST')).toBe(false)
+    })
+  })
+
+  describe('Package operations', () => {
+    const versions = ['1.2.0', '1.10.0', '1.9.1'].map(Version => ({ Id: 'Invoices', Key: `Invoices:${Version}`, Version, Title: 'Invoices', Published: null }))
+    const release = (Id: number, ProcessVersion: string) => ({ Id, Key: `r${Id}`, Name: 'Invoices', ProcessKey: 'Invoices', ProcessVersion, IsLatestVersion: false })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should map releases in every folder to their pinned versions', async () => {
+      stubFetch(({ path, folderId }) => {
+        if (path === '/odata/Folders') return { body: { value: [{ Id: 1, DisplayName: 'Finance', FullyQualifiedName: 'Finance' }, { Id: 2, DisplayName: 'HR', FullyQualifiedName: 'HR' }, { Id: 3, DisplayName: 'Secret', FullyQualifiedName: 'Secret' }] } }
+        if (path.includes('GetProcessVersions')) return { body: { value: versions } }
+        if (folderId === '3') return { status: 403, body: { message: 'You are not authorized!' } }
+        return { body: { value: [release(Number(folderId) * 10, folderId === '1' ? '1.2.0' : '1.10.0')] } }
+      })
+
+      const catalog = await createClient().getPackageCatalog({ packageId: 'Invoices', version: '1.2.0' })
+
+      expect(catalog.packages).toHaveLength(1)
+      expect(catalog.packages[0]).toMatchObject({ packageId: 'Invoices', latestVersion: '1.10.0' })
+      expect(catalog.packages[0].versions.map(v => v.version)).toEqual(['1.10.0', '1.9.1', '1.2.0'])
+      expect(catalog.packages[0].deployments).toEqual([expect.objectContaining({ folderName: 'Finance', releaseId: 10, processVersion: '1.2.0' })])
+      expect(catalog.skippedFolders).toEqual([expect.objectContaining({ folderId: 3, folderName: 'Secret' })])
+      expect(calls.filter(c => c.path.includes('GetProcessVersions'))).toHaveLength(1)
+    })
+
+    it('should list the versions of every package in feed order', async () => {
+      const ids = ['Invoices', 'Payroll', 'Onboarding', 'Expenses', 'Audit', 'Reports']
+      stubFetch(({ path }) => {
+        if (path === '/odata/Processes') return { body: { value: ids.map(Id => ({ Id, Key: `${Id}:2.0.0`, Version: '2.0.0', Title: Id, Published: null })) } }
+        const match = /processId='(\w+)'/.exec(path)
+        if (match) return { body: { value: ['1.0.0', '2.0.0'].map(Version => ({ Id: match[1], Key: `${match[1]}:${Version}`, Version, Title: match[1], Published: null })) } }
+        return { body: { value: [] } }
+      })
+
+      const catalog = await createClient().getPackageCatalog({ folderId: 1 })
+
+      expect(catalog.packages.map(p => p.packageId)).toEqual(ids)
+      expect(catalog.packages.every(p => p.versions.length === 2 && p.latestVersion === '2.0.0')).toBe(true)
+      expect(calls.filter(c => c.path.includes('GetProcessVersions'))).toHaveLength(ids.length)
+    })
+
+    it('should roll a release back to a version in the feed', async () => {
+      let current = '1.10.0'
+      stubFetch(({ method, path }) => {
+        if (path.includes('GetProcessVersions')) return { body: { value: versions } }
+        if (method === 'POST') {
+          current = '1.9.1'
+          return { body: undefined }
+        }
+        return { body: release(10, current) }
+      })
+
+      const change = await createClient().setReleaseVersion(10, '1.9.1', 1)
+
+      expect(change).toMatchObject({ previousVersion: '1.10.0', newVersion: '1.9.1', direction: 'rollback' })
+      expect(calls.find(c => c.method === 'POST')).toMatchObject({
+        path: '/odata/Releases(10)/UiPath.Server.Configuration.OData.UpdateToSpecificPackageVersion',
+        body: { packageVersion: '1.9.1' },
+      })
+    })
+
+    const entryPoints = [
+      { Id: 301, UniqueId: 'u1', Path: 'Main.xaml', InputArguments: JSON.stringify([{ name: 'in_Retries', type: 'System.Int32', required: true, hasDefault: false }]), OutputArguments: null },
+      { Id: 302, UniqueId: 'u2', Path: 'Reports.xaml', InputArguments: null, OutputArguments: null },
+    ]
+
+    it('should return the create payload without sending it on dry run', async () => {
+      stubFetch(({ path }) => ({
+        body: { value: path.includes('GetPackageEntryPoints') ? entryPoints : versions },
+      }))
+
+      const result = await createClient().createRelease('Invoices', {
+        folderId: 5,
+        entryPointPath: 'main.xaml',
+        inputArguments: { in_Retries: '3' },
+        priority: 'High',
+        dryRun: true,
+      })
+
+      expect(result).toEqual({
+        dryRun: true,
+        release: null,
+        request: {
+          method: 'POST',
+          endpoint: '/odata/Releases',
+          folderId: 5,
+          body: {
+            Name: 'Invoices',
+            ProcessKey: 'Invoices',
+            ProcessVersion: '1.10.0',
+            EntryPointId: 301,
+            InputArguments: '{"in_Retries":3}',
+            JobPriority: 'High',
+          },
+        },
+      })
+      expect(calls.some(c => c.method === 'POST')).toBe(false)
+      expect(calls.find(c => c.path.includes('GetPackageEntryPoints'))?.path).toContain("key='Invoices:1.10.0'")
+    })
+
+    it('should reject default arguments the entry point does not declare', async () => {
+      stubFetch(({ path }) => ({
+        body: { value: path.includes('GetPackageEntryPoints') ? entryPoints : versions },
+      }))
+
+      await expect(createClient().createRelease('Invoices', { folderId: 5, inputArguments: { in_Retry: 3 } }))
+        .rejects.toThrow(SchemaValidationError)
+    })
+
+    it('should patch only the changed settings and merge argument defaults', async () => {
+      stubFetch(({ method }) => ({
+        body: method === 'PATCH' ? undefined : { ...release(10, '1.2.0'), InputArguments: '{"in_Mode":"fast","in_Retries":1}' },
+      }))
+
+      const result = await createClient().updateRelease(10, { folderId: 5, description: 'Nightly run', inputArguments: { in_Retries: 2, in_Mode: null } })
+
+      expect(result.dryRun).toBe(false)
+      expect(calls.find(c => c.method === 'PATCH')).toMatchObject({
+        path: '/odata/Releases(10)',
+        body: { Description: 'Nightly run', InputArguments: '{"in_Retries":2}' },
+      })
+      await expect(createClient().updateRelease(10, { folderId: 5 })).rejects.toThrow('No release settings')
+    })
+
+    it('should not delete on dry run', async () => {
+      stubFetch(() => ({ body: release(10, '1.2.0') }))
+
+      const result = await createClient().deleteRelease(10, { folderId: 5, dryRun: true })
+
+      expect(result).toMatchObject({ dryRun: true, request: { method: 'DELETE', endpoint: '/odata/Releases(10)' }, release: { Id: 10 } })
+      expect(calls.map(c => c.method)).toEqual(['GET'])
+    })
+
+    it('should reject versions that are not in the feed', async () => {
+      stubFetch(({ path }) => ({ body: path.includes('GetProcessVersions') ? { value: versions } : release(10, '1.2.0') }))
+
+      await expect(createClient().setReleaseVersion(10, '9.9.9', 1)).rejects.toThrow(NotFoundError)
+      expect(calls.some(c => c.method === 'POST')).toBe(false)
+    })
+  })
+
+  describe('Asset operations', () => {
+    const asset = (fields: Record<string, unknown>) => ({
+      Id: 7,
+      Name: 'ApiKey',
+      ValueType: 'Text',
+      StringValue: null,
+      BoolValue: null,
+      IntValue: null,
+      Value: null,
+      ValueScope: 'Global',
+      HasDefaultValue: true,
+      Description: null,
+      CanBeDeleted: true,
+      FolderId: 5,
+      ...fields,
+    })
+    const robots = { value: [{ Id: 11, Name: 'Bot1' }, { Id: 12, Name: 'Bot2' }] }
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should send credential passwords but never return them', async () => {
+      stubFetch(() => ({
+        body: asset({ Name: 'ErpLogin', ValueType: 'Credential', CredentialUsername: 'svc', CredentialPassword: 'hunter2' }),
+      }))
+
+      const result = await createClient().createAsset('ErpLogin', { valueType: 'Credential', username: 'svc', password: 'hunter2', folderId: 5 })
+
+      expect(calls[0]).toMatchObject({
+        method: 'POST',
+        path: '/odata/Assets',
+        folderId: '5',
+        body: { Name: 'ErpLogin', ValueScope: 'Global', CredentialUsername: 'svc', CredentialPassword: 'hunter2' },
+      })
+      expect(JSON.stringify(result)).not.toContain('hunter2')
+      expect(result.asset.CredentialUsername).toBe('svc')
+      expect(result.secretFieldsChanged).toEqual(['CredentialPassword'])
+    })
+
+    it('should resolve per-robot values by robot name', async () => {
+      stubFetch(({ path }) => ({ body: path.startsWith('/odata/Robots') ? robots : asset({ ValueType: 'Integer' }) }))
+
+      await createClient().createAsset('Retries', {
+        valueType: 'Integer',
+        value: 3,
+        robotValues: [{ robotName: 'bot2', value: '5' }],
+        folderId: 5,
+      })
+
+      expect(calls.find(c => c.method === 'POST')?.body).toMatchObject({
+        ValueScope: 'PerRobot',
+        HasDefaultValue: true,
+        IntValue: 3,
+        RobotValues: [{ RobotId: 12, RobotName: 'Bot2', ValueType: 'Integer', IntValue: 5 }],
+      })
+      await expect(createClient().createAsset('Retries', { valueType: 'Integer', value: 'three', folderId: 5 }))
+        .rejects.toThrow(SchemaValidationError)
+    })
+
+    it('should report the before and after of changed fields', async () => {
+      let stored = asset({ '@odata.context': '$metadata#Assets/$entity', StringValue: 'old', Value: 'old' })
+      stubFetch(({ method }) => {
+        if (method === 'PUT') {
+          stored = asset({ StringValue: 'new', Value: 'new', Description: 'Partner API' })
+          return { body: undefined }
+        }
+        return { body: stored }
+      })
+
+      const result = await createClient().updateAsset(7, { value: 'new', description: 'Partner API', folderId: 5 })
+
+      expect(calls.find(c => c.method === 'PUT')).toEqual({
+        method: 'PUT',
+        path: '/odata/Assets(7)',
+        folderId: '5',
+        body: {
+          Name: 'ApiKey',
+          ValueType: 'Text',
+          ValueScope: 'Global',
+          Description: 'Partner API',
+          HasDefaultValue: true,
+          StringValue: 'new',
+          IntValue: null,
+          BoolValue: null,
+        },
+      })
+      expect(result.changes).toEqual([
+        { field: 'Description', before: null, after: 'Partner API' },
+        { field: 'StringValue', before: 'old', after: 'new' },
+        { field: 'Value', before: 'old', after: 'new' },
+      ])
+      expect(result.secretFieldsChanged).toEqual([])
+    })
+
+    it('should mask the values of sensitive assets', async () => {
+      let stored = asset({ Sensitive: true, StringValue: 'old-token' })
+      stubFetch(({ method }) => {
+        if (method === 'PUT') {
+          stored = asset({ Sensitive: true, StringValue: 'new-token' })
+          return { body: undefined }
+        }
+        return { body: stored }
+      })
+
+      const result = await createClient().updateAsset(7, { value: 'new-token', folderId: 5 })
+
+      expect(JSON.stringify(result)).not.toMatch(/old-token|new-token/)
+      expect(result.changes).toEqual([])
+      expect(result.secretFieldsChanged).toEqual(['StringValue'])
+      await expect(createClient().updateAsset(7, { folderId: 5 })).rejects.toThrow('No asset changes')
+    })
+
+    it('should compare folders in different tenants of the organization', async () => {
+      stubFetch(({ path }) => ({
+        body: { value: [asset(path.startsWith('/org/Production/') ? { StringValue: 'live' } : { StringValue: 'test' })] },
+      }))
+
+      const comparison = await createClient().compareAssets(5, 9, { targetTenantName: 'Production' })
+
+      expect(calls.map(c => [c.path, c.folderId]).sort()).toEqual([
+        ['/odata/Assets', '5'],
+        ['/org/Production/orchestrator_/odata/Assets', '9'],
+      ])
+      expect(comparison.source).toEqual({ tenantName: 'tenant', folderId: 5, assetCount: 1 })
+      expect(comparison.target).toEqual({ tenantName: 'Production', folderId: 9, assetCount: 1 })
+      expect(comparison.valueDifferences).toEqual([
+        { name: 'ApiKey', valueType: 'Text', field: 'StringValue', source: 'test', target: 'live' },
+      ])
+    })
+  })
+
+  describe('Robot and machine management', () => {
+    const machine = (fields: Record<string, unknown> = {}) => ({
+      Id: 4, Name: 'Bot-Template', Type: 'Template', IsOnline: false, UnattendedSlots: 2, HeadlessSlots: 0, ...fields,
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should only preview a change until it is confirmed', async () => {
+      let enabled = true
+      stubFetch(({ method }) => {
+        if (method === 'PATCH') {
+          enabled = false
+          return { body: undefined }
+        }
+        return { body: { Id: 9, Name: 'Bot1', IsEnabled: enabled } }
+      })
+
+      const preview = await createClient().setRobotEnabled(9, false)
+      expect(preview).toMatchObject({ applied: false, after: null, requests: [{ method: 'PATCH', endpoint: '/odata/Robots(9)', body: { IsEnabled: false } }] })
+      expect(preview.summary).toContain('not applied')
+      expect(calls.map(c => c.method)).toEqual(['GET'])
+
+      const applied = await createClient().setRobotEnabled(9, false, { confirm: true })
+      expect(applied).toMatchObject({ applied: true, before: { IsEnabled: true }, after: { IsEnabled: false } })
+      expect(calls.map(c => c.method)).toEqual(['GET', 'GET', 'PATCH', 'GET'])
+    })
+
+    it('should send only the slot counts that change', async () => {
+      stubFetch(() => ({ body: machine() }))
+
+      const result = await createClient().updateMachineSlots(4, { UnattendedSlots: 4, HeadlessSlots: 0 }, { confirm: true })
+      expect(calls.find(c => c.method === 'PATCH')).toMatchObject({ path: '/odata/Machines(4)', body: { UnattendedSlots: 4 } })
+      expect(result.summary).toBe('Change runtime slots of machine Bot-Template: Unattended 2 -> 4')
+
+      const unchanged = await createClient().updateMachineSlots(4, { UnattendedSlots: 2 }, { confirm: true })
+      expect(unchanged).toMatchObject({ applied: false, requests: [] })
+    })
+
+    it('should assign and remove machines by folder', async () => {
+      stubFetch(({ path }) => ({
+        body: path.startsWith('/odata/Folders(') ? { Id: 5, DisplayName: 'Finance', FullyQualifiedName: 'Shared/Finance' } : { value: [machine()] },
+      }))
+
+      const client = createClient()
+      const machines = await client.getMachinesByName(['bot-template'])
+      const assigned = await client.assignMachinesToFolder(5, machines, { confirm: true })
+      await client.removeMachinesFromFolder(5, machines, { confirm: true })
+
+      expect(assigned.summary).toBe('Assign Bot-Template to folder Shared/Finance')
+      expect(calls.filter(c => c.path.startsWith('/odata/Machines')).map(c => c.path)).toEqual(['/odata/Machines'])
+      expect(calls.filter(c => c.method === 'POST')).toEqual([
+        { method: 'POST', path: '/odata/Folders/UiPath.Server.Configuration.OData.AssignMachines', body: { assignments: { MachineIds: [4], FolderIds: [5] } }, folderId: null },
+        { method: 'POST', path: '/odata/Folders(5)/UiPath.Server.Configuration.OData.RemoveMachinesFromFolder', body: { machineIds: [4] }, folderId: null },
+      ])
+    })
+
+    it('should refuse to delete an online machine', async () => {
+      stubFetch(() => ({ body: machine({ IsOnline: true }) }))
+
+      await expect(createClient().deleteMachine(4, { confirm: true })).rejects.toThrow(ValidationError)
+      expect(calls.some(c => c.method === 'DELETE')).toBe(false)
+    })
+  })
 })